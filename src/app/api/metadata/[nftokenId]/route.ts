@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Client } from 'xrpl';
+import { NetworkId, getNetworkConfig } from '@/lib/xrpl/networks';
+import { resolveMetadataUri } from '@/lib/metadata-resolver';
+import { readLocalMetadata } from '@/lib/storage-providers/local';
+import { fetchPublicUrl } from '@/lib/url-guard';
+
+// サーバーから参照できる公開ネットワーク（カスタム・スタンドアロンはブラウザからのみ接続できる）
+const PUBLIC_NETWORKS: NetworkId[] = ['testnet', 'devnet'];
+
+// レジャーからNFTのURIを取得する関数（nft_infoはClioサーバーのみ対応のため順に試す）
+async function getNFTokenUri(nftokenId: string, network: NetworkId): Promise<{ found: boolean; uri?: string }> {
+  let lastError: unknown = null;
+
+  for (const server of getNetworkConfig(network).servers) {
+    const client = new Client(server);
+    try {
+      await client.connect();
+      const response = await client.request({ command: 'nft_info', nft_id: nftokenId });
+      return { found: true, uri: response.result.uri || undefined };
+    } catch (error) {
+      if (String(error).includes('objectNotFound')) {
+        return { found: false };
+      }
+      lastError = error;
+    } finally {
+      await client.disconnect().catch(() => undefined);
+    }
+  }
+
+  console.error(`Failed to get NFT info: ${lastError}`);
+  throw lastError;
+}
+
+// NFTのメタデータを解決して返すAPI
+// GET /api/metadata/{NFTokenID}?network=testnet
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ nftokenId: string }> }
+) {
+  const { nftokenId } = await params;
+  const network = (request.nextUrl.searchParams.get('network') || 'testnet') as NetworkId;
+
+  if (!/^[0-9A-Fa-f]{64}$/.test(nftokenId)) {
+    return NextResponse.json(
+      { error: 'NFTokenIDの形式が正しくありません' },
+      { status: 400 }
+    );
+  }
+
+  if (!PUBLIC_NETWORKS.includes(network)) {
+    return NextResponse.json(
+      { error: '対応していないネットワークです' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const nftInfo = await getNFTokenUri(nftokenId.toUpperCase(), network);
+    if (!nftInfo.found) {
+      return NextResponse.json(
+        { error: 'NFTが見つかりません' },
+        { status: 404 }
+      );
+    }
+
+    // URIは誰でも設定できるため、https:と設定されたIPFSゲートウェイ以外や内部のアドレスは取得しない（SSRF対策）
+    // ホスト相対パスのメタデータ（ローカル保存）はフェッチせずpublicディレクトリから読み込む
+    const resolution = await resolveMetadataUri(nftInfo.uri, {
+      readLocalPath: readLocalMetadata,
+      fetchUrl: fetchPublicUrl,
+    });
+
+    return NextResponse.json(
+      { nftokenId: nftokenId.toUpperCase(), network, ...resolution },
+      {
+        // 取得できた結果のみCDNにキャッシュさせる
+        headers: resolution.status === 'resolved'
+          ? { 'Cache-Control': 'public, s-maxage=3600, stale-while-revalidate=86400' }
+          : { 'Cache-Control': 'no-store' }
+      }
+    );
+  } catch (error) {
+    console.error('メタデータ解決エラー:', error);
+    return NextResponse.json(
+      { error: 'NFTの情報を取得できませんでした' },
+      { status: 502 }
+    );
+  }
+}
@@ -1,145 +1,203 @@
+import { randomUUID } from 'crypto';
 import { NextRequest, NextResponse } from 'next/server';
-import { writeFile, mkdir } from 'fs/promises';
-import { join } from 'path';
-import { existsSync } from 'fs';
-import { put } from '@vercel/blob';
+import { getStorageProvider } from '@/lib/storage-providers';
+import { computeSha256, processImage, rasterizeSvg } from '@/lib/image-processing';
+import { AnimationDetails, NFTAttribute, NFTAttributesSchema, createXLS24dMetadata } from '@/lib/metadata';
+import { detectImageType, detectMediaType } from '@/lib/file-signature';
+import {
+  ALLOWED_FILE_TYPES,
+  ALLOWED_MEDIA_TYPES,
+  FILE_EXTENSIONS,
+  MAX_DESCRIPTION_LENGTH,
+  MAX_FILE_SIZE,
+  MAX_MEDIA_FILE_SIZE,
+  MAX_NAME_LENGTH,
+  UPLOAD_ERROR_MESSAGES,
+  UploadErrorCode,
+  getMediaMimeType
+} from '@/lib/upload';
+
+// エラーコードとメッセージを返すレスポンスを作成する関数
+function errorResponse(code: UploadErrorCode, status = 400, message?: string) {
+  return NextResponse.json(
+    { error: message || UPLOAD_ERROR_MESSAGES[code], code },
+    { status }
+  );
+}
 
 export async function POST(request: NextRequest) {
   try {
     const formData = await request.formData();
-    const file = formData.get('file') as File | null;
-    const name = formData.get('name') as string;
-    const description = formData.get('description') as string;
+    const file = formData.get('file');
+    const name = String(formData.get('name') ?? '').trim();
+    const description = String(formData.get('description') ?? '');
+    // 属性（JSON配列の文字列、任意）
+    const attributesField = formData.get('attributes') as string | null;
+    // コレクション名（任意）
+    const collectionName = (formData.get('collection') as string | null)?.trim().slice(0, MAX_NAME_LENGTH) || undefined;
+    // 音声・動画・3Dモデル（任意、fileはカバー画像として使用）
+    const animationField = formData.get('animation');
+    const animationFile = animationField instanceof File ? animationField : null;
+
+    if (!(file instanceof File)) {
+      return errorResponse('MISSING_FILE');
+    }
+
+    if (!name) {
+      return errorResponse('MISSING_NAME');
+    }
+    if (name.length > MAX_NAME_LENGTH) {
+      return errorResponse('NAME_TOO_LONG');
+    }
+    if (description.length > MAX_DESCRIPTION_LENGTH) {
+      return errorResponse('DESCRIPTION_TOO_LONG');
+    }
+
+    // 画像のサイズを確認し、ブラウザが送ったMIME Typeではなくファイルの内容から形式を判定
+    if (file.size > MAX_FILE_SIZE) {
+      return errorResponse('FILE_TOO_LARGE', 413);
+    }
+    let buffer: Buffer = Buffer.from(await file.arrayBuffer());
+    let imageMimeType = detectImageType(buffer);
+    if (!imageMimeType || !ALLOWED_FILE_TYPES.includes(imageMimeType)) {
+      return errorResponse('UNSUPPORTED_FILE_TYPE');
+    }
+    if (file.type && file.type !== imageMimeType) {
+      return errorResponse('CONTENT_TYPE_MISMATCH');
+    }
 
-    if (!file) {
-      return NextResponse.json(
-        { error: 'ファイルが見つかりません' },
-        { status: 400 }
-      );
+    // メディアファイルのサイズと形式を確認（拡張子から判定した形式と内容が一致する必要がある）
+    let animationBuffer: Buffer | null = null;
+    let animationMimeType: string | null = null;
+    if (animationFile) {
+      if (animationFile.size > MAX_MEDIA_FILE_SIZE) {
+        return errorResponse('MEDIA_TOO_LARGE', 413);
+      }
+      const declaredMimeType = getMediaMimeType(animationFile.name, animationFile.type);
+      animationBuffer = Buffer.from(await animationFile.arrayBuffer());
+      animationMimeType = detectMediaType(animationBuffer);
+      if (!declaredMimeType || !animationMimeType) {
+        return errorResponse('UNSUPPORTED_MEDIA_TYPE');
+      }
+      if (ALLOWED_MEDIA_TYPES[declaredMimeType].kind !== ALLOWED_MEDIA_TYPES[animationMimeType].kind) {
+        return errorResponse('CONTENT_TYPE_MISMATCH');
+      }
     }
 
-    // ファイル名を生成（タイムスタンプを追加して一意性を確保）
-    const originalName = file.name;
-    const safeName = originalName.replace(/[^a-zA-Z0-9.-]/g, '_');
-    const imageFileName = `${Date.now()}_${safeName}`;
+    // 属性はクライアントと共通のスキーマで検証する
+    let attributes: NFTAttribute[] | undefined;
+    if (attributesField) {
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(attributesField);
+      } catch {
+        return errorResponse('INVALID_ATTRIBUTES');
+      }
+      const result = NFTAttributesSchema.safeParse(parsed);
+      if (!result.success) {
+        return errorResponse('INVALID_ATTRIBUTES', 400, result.error.issues[0].message);
+      }
+      attributes = result.data;
+    }
+
+    // SVGはスクリプトを埋め込めるためPNGに変換して保存する
+    if (imageMimeType === 'image/svg+xml') {
+      try {
+        buffer = await rasterizeSvg(buffer);
+      } catch {
+        return errorResponse('INVALID_IMAGE');
+      }
+      imageMimeType = 'image/png';
+    }
+
+    // ファイル名はサーバーで生成し、拡張子は内容から判定した形式から決める
+    // （クライアントのファイル名を使うと、画像の内容で始まる.htmlなどが同じオリジンで配信される）
+    const baseName = `${Date.now()}_${randomUUID()}`;
+    const imageFileName = `${baseName}${FILE_EXTENSIONS[imageMimeType]}`;
     
     // Vercel環境かどうかを判定
     const isVercelProduction = process.env.VERCEL === '1';
-    const hasBlobToken = !!process.env.BLOB_READ_WRITE_TOKEN;
     
-    // 画像URLとメタデータURL
-    let imageUrl;
-    let metadataUrl;
-    let metadataJson;
+    // 保存先（ローカル、Vercel Blob、IPFS）は環境変数で切り替える
+    const provider = getStorageProvider();
+    console.log(`ストレージプロバイダー: ${provider.name}`);
     
-    if (isVercelProduction && hasBlobToken) {
-      console.log('Vercel Blob APIを使用してファイルをアップロード');
-      
-      // Vercel Blobに画像をアップロード
-      const imageBlob = await put(imageFileName, file, {
-        access: 'public',
-      });
-      
-      // 画像のURLを取得
-      imageUrl = imageBlob.url;
-      
-      // メタデータJSONを作成
-      const metadata = {
-        name,
-        description,
-        image: imageUrl,
-        created_at: new Date().toISOString()
-      };
-      
-      // メタデータJSONをシリアライズ
-      metadataJson = JSON.stringify(metadata);
-      
-      // メタデータをVercel Blobにアップロード
-      const metadataFileName = `${Date.now()}_metadata.json`;
-      const metadataBlob = await put(metadataFileName, metadataJson, {
-        access: 'public',
-        contentType: 'application/json'
-      });
-      
-      // メタデータのURLを取得
-      metadataUrl = metadataBlob.url;
-      
-      console.log('Vercel Blobにアップロード完了', {
-        imageUrl,
-        metadataUrl
-      });
-      
-      return NextResponse.json({
-        success: true,
-        imageUrl,
-        metadataUrl,
-        isVercelProduction: true,
-        usingBlob: true
-      });
-      
-    } else {
-      // 開発環境では従来通りpublicディレクトリに保存
-      console.log('ローカル環境: publicディレクトリに保存');
-      
-      // 画像の保存先ディレクトリの確認と作成
-      const imagesDirectory = join(process.cwd(), 'public', 'images');
-      const metadataDirectory = join(process.cwd(), 'public', 'metadata');
-      
-      if (!existsSync(imagesDirectory)) {
-        await mkdir(imagesDirectory, { recursive: true });
-      }
-      
-      if (!existsSync(metadataDirectory)) {
-        await mkdir(metadataDirectory, { recursive: true });
-      }
-      
-      // 画像ファイルの保存処理
-      const bytes = await file.arrayBuffer();
-      const buffer = Buffer.from(bytes);
-      
-      // 画像ファイルを保存
-      const imagePath = join(imagesDirectory, imageFileName);
-      await writeFile(imagePath, buffer);
-      
-      // 画像のURLを設定
-      imageUrl = `/images/${imageFileName}`;
-      
-      // メタデータJSONを作成
-      const metadataFileName = `${Date.now()}_metadata.json`;
-      const metadataPath = join(metadataDirectory, metadataFileName);
-      
-      // メタデータオブジェクトの作成
-      const metadata = {
-        name,
-        description,
-        image: imageUrl,
-        created_at: new Date().toISOString()
+    // サムネイルとプレビューを生成し、元画像のサイズとSHA-256を取得
+    let processed;
+    try {
+      processed = await processImage(buffer, imageMimeType);
+    } catch {
+      return errorResponse('INVALID_IMAGE');
+    }
+    
+    // 画像を保存してURIを取得（IPFSの場合はipfs://CID）
+    const [imageUrl, thumbnailUrl, previewUrl] = await Promise.all([
+      provider.uploadFile(imageFileName, buffer, imageMimeType),
+      provider.uploadFile(`${baseName}_thumb.webp`, processed.thumbnail.data, processed.thumbnail.mimeType),
+      provider.uploadFile(`${baseName}_preview.webp`, processed.preview.data, processed.preview.mimeType)
+    ]);
+    
+    // メディアファイルを保存（カバー画像と同じ保存先）
+    let animationUrl: string | undefined;
+    let animationDetails: AnimationDetails | undefined;
+    if (animationFile && animationBuffer && animationMimeType) {
+      const animationFileName = `${baseName}_media${FILE_EXTENSIONS[animationMimeType]}`;
+      animationUrl = await provider.uploadFile(animationFileName, animationBuffer, animationMimeType);
+      animationDetails = {
+        mime_type: animationMimeType,
+        size: animationBuffer.length,
+        sha256: computeSha256(animationBuffer)
       };
-      
-      // メタデータJSONを保存
-      await writeFile(metadataPath, JSON.stringify(metadata, null, 2));
-      
-      // メタデータJSONをシリアライズ
-      metadataJson = JSON.stringify(metadata);
-      
-      // メタデータのURLを設定
-      metadataUrl = `/metadata/${metadataFileName}`;
-      
-      return NextResponse.json({
-        success: true,
-        imageUrl,
-        metadataUrl,
-        metadataJson,
-        isVercelProduction: false,
-        usingBlob: false
-      });
     }
     
+    // XLS-24d形式のメタデータを作成
+    const metadata = createXLS24dMetadata({
+      name,
+      description,
+      image: imageUrl,
+      imageDetails: {
+        mime_type: processed.mimeType,
+        width: processed.width,
+        height: processed.height,
+        size: processed.size,
+        sha256: processed.sha256
+      },
+      thumbnail: thumbnailUrl,
+      preview: previewUrl,
+      animation: animationUrl,
+      animationDetails,
+      collectionName,
+      attributes
+    });
+    
+    // メタデータJSONをシリアライズして保存
+    const metadataJson = JSON.stringify(metadata);
+    const metadataFileName = `${Date.now()}_metadata.json`;
+    const metadataUrl = await provider.uploadMetadata(metadataFileName, metadataJson);
+    
+    console.log('アップロード完了', {
+      imageUrl,
+      thumbnailUrl,
+      previewUrl,
+      metadataUrl
+    });
+    
+    return NextResponse.json({
+      success: true,
+      imageUrl,
+      thumbnailUrl,
+      previewUrl,
+      animationUrl,
+      sha256: processed.sha256,
+      metadataUrl,
+      metadataJson,
+      storageProvider: provider.name,
+      isVercelProduction,
+      usingBlob: provider.name === 'blob'
+    });
+    
   } catch (error) {
     console.error('ファイルアップロードエラー:', error);
-    return NextResponse.json(
-      { error: 'ファイルのアップロードに失敗しました' },
-      { status: 500 }
-    );
+    return errorResponse('UPLOAD_FAILED', 500);
   }
 } 
\ No newline at end of file
@@ -6,34 +6,51 @@ import { NFTMinter } from "@/components/nft/NFTMinter";
 import { NFTList } from "@/components/nft/NFTList";
 import { NFTOffers } from "@/components/nft/NFTOffers";
 import { NFTMarketplace } from "@/components/nft/NFTMarketplace";
-import { WalletState, WalletType } from "@/lib/xrpl/wallet";
-import { getWallets, getActiveWalletType } from "@/lib/storage";
+import { NFTBroker } from "@/components/nft/NFTBroker";
+import { NFTActivity } from "@/components/nft/NFTHistory";
+import { AccountLookup } from "@/components/nft/AccountLookup";
+import { Watchlist } from "@/components/nft/Watchlist";
+import { WalletId, WalletRegistry } from "@/lib/xrpl/wallet";
+import { getWallets, getActiveWalletId, getWatchlist } from "@/lib/storage";
 import { toast } from "sonner";
 import { Button } from "@/components/ui/button";
-import { getClient, forceReconnect } from "@/lib/xrpl/client";
+import { getClient, forceReconnect, getCurrentNetwork } from "@/lib/xrpl/client";
+import { startNFTEventStream, subscribeWalletAccounts } from "@/lib/xrpl/subscriptions";
+import { useAppStore } from "@/lib/store";
+import { TAB_QUERY_PARAM } from "@/lib/marketplace-filter";
+import { WatchedAccount } from "@/lib/types";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Header } from "@/components/ui/header";
 import { Footer } from "@/components/ui/footer";
 
+// タブの値（URLのtabパラメーターで指定できる）
+const TABS = ["my-nfts", "marketplace", "lookup", "offers", "broker", "history"];
+
 export default function Home() {
-  const [wallets, setWallets] = useState<Record<WalletType, WalletState> | null>(null);
-  const [activeWalletType, setActiveWalletType] = useState<WalletType | null>(null);
+  const [wallets, setWallets] = useState<WalletRegistry | null>(null);
+  const [activeWalletId, setActiveWalletId] = useState<WalletId | null>(null);
   const [refreshKey, setRefreshKey] = useState(0); // 更新用のキー
   const [isConnectionError, setIsConnectionError] = useState(false);
+  const [activeTab, setActiveTab] = useState(TABS[0]);
+  const [watchlist, setWatchlist] = useState<WatchedAccount[]>([]);
+  const { network, setNetwork } = useAppStore();
   
-  // 初期化時にローカルストレージからウォレット情報を取得
+  // 初期化時にローカルストレージからネットワークとウォレット情報を取得
   useEffect(() => {
+    setNetwork(getCurrentNetwork());
+    
     const storedWallets = getWallets();
-    const storedActiveWalletType = getActiveWalletType();
+    const storedActiveWalletId = getActiveWalletId();
+    setWatchlist(getWatchlist());
     
     if (storedWallets) {
       setWallets(storedWallets);
     }
     
-    if (storedActiveWalletType) {
-      setActiveWalletType(storedActiveWalletType);
+    if (storedActiveWalletId) {
+      setActiveWalletId(storedActiveWalletId);
     }
-  }, []);
+  }, [setNetwork]);
   
   // ウォレット切り替えイベントのリスナーを設定
   useEffect(() => {
@@ -44,14 +61,14 @@ export default function Home() {
       
       // 最新のウォレット情報を取得
       const updatedWallets = getWallets();
-      const updatedActiveWalletType = getActiveWalletType();
+      const updatedActiveWalletId = getActiveWalletId();
       
       if (updatedWallets) {
         setWallets(updatedWallets);
       }
       
-      if (updatedActiveWalletType) {
-        setActiveWalletType(updatedActiveWalletType);
+      if (updatedActiveWalletId) {
+        setActiveWalletId(updatedActiveWalletId);
       }
       
       // 接続エラーフラグを設定
@@ -73,6 +90,76 @@ export default function Home() {
     };
   }, []);
   
+  // ウォレットの追加・名前変更・削除を反映（コンポーネントの再マウントは行わない）
+  useEffect(() => {
+    const handleWalletsUpdated = () => {
+      setWallets(getWallets());
+      setActiveWalletId(getActiveWalletId());
+    };
+    
+    window.addEventListener('wallets-updated', handleWalletsUpdated);
+    
+    return () => {
+      window.removeEventListener('wallets-updated', handleWalletsUpdated);
+    };
+  }, []);
+  
+  // ネットワーク切り替え時に切り替え先のウォレットとNFTを読み込み直す
+  useEffect(() => {
+    const handleNetworkChanged = () => {
+      setWallets(getWallets());
+      setActiveWalletId(getActiveWalletId());
+      setWatchlist(getWatchlist());
+      setIsConnectionError(false);
+      setRefreshKey(prevKey => prevKey + 1);
+    };
+    
+    window.addEventListener('network-changed', handleNetworkChanged);
+    
+    return () => {
+      window.removeEventListener('network-changed', handleNetworkChanged);
+    };
+  }, []);
+  
+  // ウォッチリストの変更を購読に反映する
+  useEffect(() => {
+    const handleWatchlistUpdated = () => {
+      setWatchlist(getWatchlist());
+    };
+    
+    window.addEventListener('watchlist-updated', handleWatchlistUpdated);
+    
+    return () => {
+      window.removeEventListener('watchlist-updated', handleWatchlistUpdated);
+    };
+  }, []);
+  
+  // 共有されたURLで指定されたタブ（マーケットプレイスの検索条件など）を開く
+  useEffect(() => {
+    const tab = new URLSearchParams(window.location.search).get(TAB_QUERY_PARAM);
+    if (tab && TABS.includes(tab)) {
+      setActiveTab(tab);
+    }
+  }, []);
+
+  // タブを切り替えたらURLに反映する（履歴は増やさない）
+  const handleTabChange = (tab: string) => {
+    setActiveTab(tab);
+    const url = new URL(window.location.href);
+    url.searchParams.set(TAB_QUERY_PARAM, tab);
+    window.history.replaceState(window.history.state, "", url);
+  };
+  
+  // 購読したアカウントのNFT関連のトランザクションを共有ストアに流す
+  useEffect(() => startNFTEventStream(), []);
+  
+  // レジストリ内のウォレットとウォッチリストのトランザクションを購読（再接続後も自動で購読し直される）
+  useEffect(() => {
+    subscribeWalletAccounts(wallets, watchlist).catch(err => {
+      console.error("Account subscription failed:", err);
+    });
+  }, [wallets, watchlist]);
+  
   // 接続を強制的に再試行する
   const handleRetryConnection = async () => {
     try {
@@ -83,7 +170,7 @@ export default function Home() {
       
       // 接続回復を通知するためのイベントをディスパッチ
       window.dispatchEvent(new CustomEvent('wallet-reconnected', {
-        detail: { walletType: activeWalletType }
+        detail: { walletId: activeWalletId }
       }));
       
       // コンポーネントを更新
@@ -95,7 +182,7 @@ export default function Home() {
   };
   
   // 現在アクティブなウォレット情報を取得
-  const activeWallet = activeWalletType && wallets ? wallets[activeWalletType] : null;
+  const activeWallet = activeWalletId && wallets ? wallets[activeWalletId] || null : null;
 
   return (
     <main className="min-h-screen bg-gray-50">
@@ -120,7 +207,8 @@ export default function Home() {
         
         <div className="grid grid-cols-1 md:grid-cols-2 gap-8 mb-8">
           <div>
-            <WalletManager />
+            {/* ネットワークごとにウォレット情報が異なるため、切り替え時は再マウントする */}
+            <WalletManager key={`wallet-manager-${network.id}-${network.servers.join(",")}`} />
           </div>
           
           <div>
@@ -128,24 +216,40 @@ export default function Home() {
           </div>
         </div>
         
-        <Tabs defaultValue="my-nfts" className="mb-8">
-          <TabsList className="grid w-full grid-cols-3">
+        <Tabs value={activeTab} onValueChange={handleTabChange} className="mb-8">
+          <TabsList className="grid w-full grid-cols-6">
             <TabsTrigger value="my-nfts">保有NFT</TabsTrigger>
             <TabsTrigger value="marketplace">マーケットプレイス</TabsTrigger>
+            <TabsTrigger value="lookup">アカウント検索</TabsTrigger>
             <TabsTrigger value="offers">受信オファー</TabsTrigger>
+            <TabsTrigger value="broker">仲介</TabsTrigger>
+            <TabsTrigger value="history">取引履歴</TabsTrigger>
           </TabsList>
           
           <TabsContent value="my-nfts" className="mt-4">
             <NFTList key={`list-${refreshKey}`} wallet={activeWallet} />
           </TabsContent>
           
-          <TabsContent value="marketplace" className="mt-4">
+          <TabsContent value="marketplace" className="mt-4 space-y-4">
+            <Watchlist key={`watchlist-${refreshKey}`} />
             <NFTMarketplace key={`marketplace-${refreshKey}`} wallet={activeWallet} />
           </TabsContent>
           
+          <TabsContent value="lookup" className="mt-4">
+            <AccountLookup key={`lookup-${refreshKey}`} wallet={activeWallet} />
+          </TabsContent>
+          
           <TabsContent value="offers" className="mt-4">
             <NFTOffers key={`offers-${refreshKey}`} wallet={activeWallet} />
           </TabsContent>
+          
+          <TabsContent value="broker" className="mt-4">
+            <NFTBroker key={`broker-${refreshKey}`} wallet={activeWallet} />
+          </TabsContent>
+          
+          <TabsContent value="history" className="mt-4">
+            <NFTActivity key={`history-${refreshKey}`} wallet={activeWallet} />
+          </TabsContent>
         </Tabs>
       </div>
       
@@ -0,0 +1,245 @@
+"use client";
+
+import { useState, useEffect, useMemo } from "react";
+import { toast } from "sonner";
+import { isValidClassicAddress } from "xrpl";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Pagination, usePagination } from "@/components/ui/pagination";
+import { NFTItem } from "./NFTItem";
+import { OfferExpirationBadge } from "./OfferExpiration";
+import { useAppStore } from "@/lib/store";
+import { useIndexedAccountNFTs, useIndexedNFTOffers } from "@/lib/nft-index";
+import { getWatchlist } from "@/lib/storage";
+import { addToWatchlist } from "@/lib/watchlist";
+import { getExplorerUrl } from "@/lib/xrpl/networks";
+import { compareAmounts, formatAmount } from "@/lib/xrpl/amount";
+import { isOfferExpired } from "@/lib/xrpl/expiration";
+import { TAB_QUERY_PARAM } from "@/lib/marketplace-filter";
+import { ComponentWithWallet, NFTOffer } from "@/lib/types";
+
+// 表示するアカウントを示すクエリパラメーター
+const ADDRESS_QUERY_PARAM = "address";
+const LOOKUP_TAB = "lookup";
+
+// 任意のアカウントのアドレスを入力して所有NFTを表示し、購入・買いオファーの作成ができるコンポーネント
+export function AccountLookup({ wallet }: ComponentWithWallet) {
+  // 入力中のアドレス
+  const [input, setInput] = useState("");
+  // 表示中のアカウント
+  const [address, setAddress] = useState("");
+  const [isWatched, setIsWatched] = useState(false);
+
+  const { isLocked, network } = useAppStore();
+
+  // 共有されたURLで指定されたアカウントを表示する
+  useEffect(() => {
+    const sharedAddress = new URLSearchParams(window.location.search).get(ADDRESS_QUERY_PARAM);
+    if (sharedAddress && isValidClassicAddress(sharedAddress)) {
+      setInput(sharedAddress);
+      setAddress(sharedAddress);
+    }
+  }, []);
+
+  // 表示中のアカウントがウォッチリストにあるか
+  useEffect(() => {
+    const handleWatchlistUpdated = () => {
+      setIsWatched(getWatchlist().some(item => item.address === address && item.kind === "account"));
+    };
+    handleWatchlistUpdated();
+
+    window.addEventListener('watchlist-updated', handleWatchlistUpdated);
+
+    // クリーンアップ
+    return () => {
+      window.removeEventListener('watchlist-updated', handleWatchlistUpdated);
+    };
+  }, [address]);
+
+  // アカウントのNFTとオファーはインデックスから読み込む（ウォレットがなくても閲覧できる）
+  const addresses = useMemo(() => (address ? [address] : []), [address]);
+  const { nfts, isLoading, isRefreshing: isRefreshingNFTs, hasError, refresh: refreshNFTs } = useIndexedAccountNFTs(addresses);
+  const nftIDs = useMemo(() => nfts.map(nft => nft.NFTokenID), [nfts]);
+  const { offers, isRefreshing: isRefreshingOffers, refresh: refreshOffers } = useIndexedNFTOffers(nftIDs);
+  const isRefreshing = isRefreshingNFTs || isRefreshingOffers;
+  const isOwnAccount = !!wallet && wallet.classicAddress === address;
+
+  // NFTごとの最も安い有効な売りオファーと、自分の買いオファー
+  const { bestOffers, myBuyOffers } = useMemo(() => {
+    const best: {[key: string]: NFTOffer} = {};
+    const mine: {[key: string]: NFTOffer} = {};
+    for (const offer of offers) {
+      if (isOfferExpired(offer.expiration)) continue;
+      if (offer.isSellOffer) {
+        const current = best[offer.nftokenID];
+        if (!current || compareAmounts(offer.amount, current.amount) < 0) {
+          best[offer.nftokenID] = offer;
+        }
+      } else if (offer.owner === wallet?.classicAddress) {
+        mine[offer.nftokenID] ??= offer;
+      }
+    }
+    return { bestOffers: best, myBuyOffers: mine };
+  }, [offers, wallet]);
+
+  const listedCount = nfts.filter(nft => bestOffers[nft.NFTokenID]).length;
+  const { page, pageCount, pageItems, setPage } = usePagination(nfts);
+
+  // 入力したアドレスのアカウントを表示し、URLに反映する（履歴は増やさない）
+  const handleLookup = () => {
+    const trimmed = input.trim();
+    if (!isValidClassicAddress(trimmed)) {
+      toast.error("無効なアドレスです");
+      return;
+    }
+    setAddress(trimmed);
+    setPage(0);
+
+    const url = new URL(window.location.href);
+    url.searchParams.set(TAB_QUERY_PARAM, LOOKUP_TAB);
+    url.searchParams.set(ADDRESS_QUERY_PARAM, trimmed);
+    window.history.replaceState(window.history.state, "", url);
+  };
+
+  const handleRefresh = () => {
+    Promise.all([refreshNFTs(), refreshOffers()]).catch(() => {
+      toast.error("アカウントのNFT情報の取得に失敗しました");
+    });
+  };
+
+  const handleWatch = () => {
+    try {
+      addToWatchlist(address, "", "account");
+      toast.success("ウォッチリストに追加しました。マーケットプレイスに販売中のNFTが表示されます");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "ウォッチリストへの追加に失敗しました");
+    }
+  };
+
+  return (
+    <Card className="w-full">
+      <CardHeader>
+        <div>
+          <CardTitle>アカウント検索</CardTitle>
+          <CardDescription>任意のアカウントのアドレスを入力して、所有するNFTの閲覧・購入・買いオファーの作成ができます</CardDescription>
+        </div>
+      </CardHeader>
+
+      <CardContent>
+        <form
+          className="flex flex-col sm:flex-row gap-2 mb-6"
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleLookup();
+          }}
+        >
+          <Input
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            placeholder="rから始まるアドレスを貼り付け"
+          />
+          <Button type="submit" disabled={!input.trim()}>
+            表示
+          </Button>
+        </form>
+
+        {address && (
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 mb-6 p-4 border rounded-md bg-white">
+            <div className="min-w-0">
+              <a
+                href={getExplorerUrl(network, "accounts", address)}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-sm hover:underline text-blue-500 break-all"
+              >
+                {address}
+              </a>
+              <p className="text-xs text-gray-500 mt-1">
+                NFT: {nfts.length}件 / 販売中: {listedCount}件
+                {isOwnAccount && "（アクティブなウォレット）"}
+              </p>
+            </div>
+            <div className="flex gap-2 shrink-0">
+              {!isOwnAccount && (
+                <Button variant="outline" size="sm" onClick={handleWatch} disabled={isWatched}>
+                  {isWatched ? "ウォッチリスト登録済み" : "ウォッチリストに追加"}
+                </Button>
+              )}
+              <Button variant="outline" size="sm" onClick={handleRefresh} disabled={isLoading || isRefreshing}>
+                更新
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {!address ? (
+          <div className="text-center py-8">
+            <p>アドレスを入力してください</p>
+          </div>
+        ) : isLoading ? (
+          <div className="text-center py-8">
+            <p>NFTを取得中...</p>
+          </div>
+        ) : nfts.length > 0 ? (
+          <>
+            <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
+              {pageItems.map((nft) => {
+                const sellOffer = bestOffers[nft.NFTokenID];
+                const myBuyOffer = myBuyOffers[nft.NFTokenID];
+                return (
+                  <div key={nft.NFTokenID} className="w-full flex flex-col">
+                    <NFTItem
+                      nft={nft}
+                      wallet={wallet}
+                      onUpdate={handleRefresh}
+                      offerAmount={sellOffer?.amount}
+                      offerID={sellOffer?.offerID}
+                      offerExpiration={sellOffer?.expiration}
+                      myBuyOffer={myBuyOffer}
+                      isOwnedList={isOwnAccount}
+                      disabled={isLocked}
+                    />
+                    <div className="bg-white border-t border-gray-100 rounded-b-lg p-2 text-center">
+                      {myBuyOffer && (
+                        <p className="mb-1 text-xs text-blue-600">あなたの買いオファー: {formatAmount(myBuyOffer.amount)}</p>
+                      )}
+                      {sellOffer ? (
+                        <div className="flex items-center justify-center gap-2">
+                          <p className="text-sm font-medium text-green-600 line-clamp-1">
+                            価格: {formatAmount(sellOffer.amount)}
+                          </p>
+                          <OfferExpirationBadge expiration={sellOffer.expiration} />
+                        </div>
+                      ) : (
+                        <p className="text-sm font-medium text-gray-600 line-clamp-1">
+                          販売中ではありません
+                        </p>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+            <Pagination
+              className="mt-6"
+              page={page}
+              pageCount={pageCount}
+              totalCount={nfts.length}
+              onPageChange={setPage}
+            />
+          </>
+        ) : (
+          <div className="text-center py-8">
+            <p>{hasError ? "データの取得中にエラーが発生しました" : "このアカウントはNFTを所有していません"}</p>
+            {hasError && (
+              <p className="text-sm text-gray-500 mt-2">
+                アドレスが有効化されているか確認し、更新ボタンを押して再度試してください
+              </p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
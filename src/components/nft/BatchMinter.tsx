@@ -0,0 +1,468 @@
+"use client";
+
+import { useState, useEffect, useRef, useMemo } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { getClient } from "@/lib/xrpl/client";
+import { WalletState } from "@/lib/xrpl/wallet";
+import { Client } from "xrpl";
+import { buildMintTransaction, getMintedNFTokenID, mintNFT } from "@/lib/xrpl/nft";
+import { submitTransactionsInParallel } from "@/lib/xrpl/pipeline";
+import { NFTHistoryEvent, getIssuerMintEvents } from "@/lib/xrpl/history";
+import { DEFAULT_TAXON, getIssuerCollections } from "@/lib/xrpl/collection";
+import { getExplorerUrl } from "@/lib/xrpl/networks";
+import { ALLOWED_FILE_TYPES, getMediaMimeType, uploadNFTAsset, validateFile, validateMediaFile } from "@/lib/upload";
+import {
+  BatchItemStatus,
+  BatchManifestItem,
+  BatchRun,
+  createBatchReport,
+  createBatchRun,
+  findMintedNFT,
+  parseManifest,
+  prepareBatchResume,
+  updateBatchItem,
+} from "@/lib/batch";
+import { clearBatchRun, getBatchRun, saveBatchRun } from "@/lib/storage";
+import { useAppStore } from "@/lib/store";
+
+// 処理状態の表示名と色
+const STATUS_LABELS: Record<BatchItemStatus, { label: string; className: string }> = {
+  pending: { label: "待機中", className: "bg-gray-100 text-gray-700" },
+  uploading: { label: "アップロード中", className: "bg-blue-100 text-blue-800" },
+  minting: { label: "発行中", className: "bg-amber-100 text-amber-800" },
+  done: { label: "完了", className: "bg-green-100 text-green-800" },
+  failed: { label: "失敗", className: "bg-red-100 text-red-800" },
+};
+
+// マニフェストのファイル名からパスを除いた名前を取得する関数
+function getBaseName(path: string): string {
+  return path.split(/[\\/]/).pop() || path;
+}
+
+interface BatchMinterProps {
+  wallet: WalletState;
+}
+
+// マニフェストと画像フォルダからNFTを一括発行するパネル
+export function BatchMinter({ wallet }: BatchMinterProps) {
+  const { network } = useAppStore();
+  const [manifestItems, setManifestItems] = useState<BatchManifestItem[]>([]);
+  const [manifestName, setManifestName] = useState<string | null>(null);
+  const [imageFiles, setImageFiles] = useState<Map<string, File>>(new Map());
+  const [collectionValue, setCollectionValue] = useState(String(DEFAULT_TAXON));
+  const [run, setRun] = useState<BatchRun | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  // チケット（TicketSequence）を使って並列に発行するか
+  const [useTickets, setUseTickets] = useState(false);
+  // 一時停止の要求（次のアイテムの処理前に確認する）
+  const pauseRequestedRef = useRef(false);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+
+  // 発行者が作成済みのコレクション一覧
+  const collections = useMemo(() => getIssuerCollections(wallet.classicAddress), [wallet.classicAddress]);
+
+  // 前回の実行状態を読み込む（同じ発行者のもののみ）
+  useEffect(() => {
+    const storedRun = getBatchRun();
+    setRun(storedRun && storedRun.issuer === wallet.classicAddress ? storedRun : null);
+  }, [wallet.classicAddress]);
+
+  // フォルダ選択を有効にする（webkitdirectoryはReactの型定義に含まれないため属性で設定）
+  useEffect(() => {
+    folderInputRef.current?.setAttribute("webkitdirectory", "");
+  }, []);
+
+  // マニフェストの読み込み
+  const handleManifestChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    try {
+      const items = parseManifest(await file.text(), file.name);
+      setManifestItems(items);
+      setManifestName(file.name);
+      toast.success(`マニフェストから${items.length}件のアイテムを読み込みました`);
+    } catch (error) {
+      console.error("Failed to parse manifest:", error);
+      toast.error(error instanceof Error ? error.message : "マニフェストの読み込みに失敗しました");
+    }
+  };
+
+  // 画像フォルダの読み込み（ファイル名で対応付ける）
+  const handleImagesChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    // 画像と、音声・動画・3Dモデルのファイルを読み込む
+    const files = Array.from(e.target.files || []).filter(file =>
+      ALLOWED_FILE_TYPES.includes(file.type) || !!getMediaMimeType(file.name, file.type)
+    );
+    e.target.value = "";
+    setImageFiles(new Map(files.map(file => [file.name, file])));
+    toast.success(`${files.length}件のファイルを読み込みました`);
+  };
+
+  // マニフェストに対応する画像（またはメディアファイル）がないアイテム
+  const missingFiles = manifestItems.filter(item =>
+    !imageFiles.has(getBaseName(item.file)) || (!!item.animation && !imageFiles.has(getBaseName(item.animation)))
+  );
+
+  // 実行状態を更新して保存する処理
+  const commitRun = (nextRun: BatchRun) => {
+    saveBatchRun(nextRun);
+    setRun(nextRun);
+    return nextRun;
+  };
+
+  // アイテムを順番にアップロード・発行する処理
+  // 逐次発行ではsubmitAndWaitで1件ずつ検証済みになるまで待つため、Sequenceは毎回autofillで正しく取得される
+  // チケットを使う場合はアップロード後にまとめて並列発行する
+  const processRun = async (startRun: BatchRun) => {
+    let current = commitRun(prepareBatchResume(startRun));
+    pauseRequestedRef.current = false;
+    setIsRunning(true);
+    let mintedCount = 0;
+
+    const markFailed = (index: number, error: unknown) => {
+      console.error(`Failed to mint batch item ${current.items[index].file}:`, error);
+      current = commitRun(updateBatchItem(current, index, {
+        status: "failed",
+        error: error instanceof Error ? error.message : String(error),
+      }));
+    };
+
+    // 発行者の発行履歴（アップロード済みのアイテムがある場合に1回だけ取得する）
+    let mintEvents: NFTHistoryEvent[] | null = null;
+
+    // アイテムのメタデータURIを用意する処理（既に発行済みだった場合はnullを返す）
+    const prepareItem = async (client: Client, index: number): Promise<string | null> => {
+      const item = current.items[index];
+      let metadataUri = item.metadataUri;
+
+      // アップロード済みのアイテムは二重発行を防ぐため発行済みか確認
+      // （発行中に中断されたものに加え、送信後にタイムアウトや切断で失敗したものも発行されている場合がある）
+      if (metadataUri) {
+        mintEvents ??= await getIssuerMintEvents(client, current.issuer);
+        const existingID = findMintedNFT(mintEvents, metadataUri, current.taxon);
+        if (existingID) {
+          current = commitRun(updateBatchItem(current, index, { status: "done", nftokenID: existingID }));
+          mintedCount++;
+          return null;
+        }
+      }
+
+      if (!metadataUri) {
+        const file = imageFiles.get(getBaseName(item.file));
+        if (!file) {
+          throw new Error("画像ファイルが選択されていません");
+        }
+        const validation = validateFile(file);
+        if (!validation.valid) {
+          throw new Error(validation.message);
+        }
+
+        // メディアファイルがある場合は画像をカバー画像として使用
+        let animationFile: File | undefined;
+        if (item.animation) {
+          animationFile = imageFiles.get(getBaseName(item.animation));
+          if (!animationFile) {
+            throw new Error("メディアファイルが選択されていません");
+          }
+          const mediaValidation = validateMediaFile(animationFile);
+          if (!mediaValidation.valid) {
+            throw new Error(mediaValidation.message);
+          }
+        }
+
+        current = commitRun(updateBatchItem(current, index, { status: "uploading" }));
+        const collectionName = collections.find(collection => collection.taxon === current.taxon)?.name;
+        metadataUri = await uploadNFTAsset(file, item.name, item.description, item.attributes, collectionName, animationFile);
+        current = commitRun(updateBatchItem(current, index, { metadataUri }));
+      }
+
+      return metadataUri;
+    };
+
+    try {
+      // 並列発行するアイテム（チケットを使う場合のみ）
+      const readyIndexes: number[] = [];
+
+      for (let index = 0; index < current.items.length; index++) {
+        if (pauseRequestedRef.current) {
+          toast.info("一括発行を一時停止しました");
+          break;
+        }
+
+        const item = current.items[index];
+        if (item.status === "done") continue;
+
+        try {
+          // 接続が切り替わっている可能性があるため毎回クライアントを取得
+          const client = await getClient();
+          const metadataUri = await prepareItem(client, index);
+          if (!metadataUri) continue;
+
+          if (useTickets) {
+            readyIndexes.push(index);
+            continue;
+          }
+
+          current = commitRun(updateBatchItem(current, index, { status: "minting" }));
+          const nftokenID = await mintNFT(
+            client,
+            wallet,
+            metadataUri,
+            item.transferFee,
+            item.isBurnable,
+            item.isTransferable,
+            item.isOnlyXRP,
+            current.taxon
+          );
+          current = commitRun(updateBatchItem(current, index, { status: "done", nftokenID }));
+          mintedCount++;
+        } catch (error) {
+          markFailed(index, error);
+        }
+      }
+
+      if (readyIndexes.length > 0 && !pauseRequestedRef.current) {
+        const transactions = readyIndexes.map(index => {
+          const item = current.items[index];
+          current = updateBatchItem(current, index, { status: "minting" });
+          return buildMintTransaction(
+            wallet.classicAddress,
+            item.metadataUri as string,
+            item.transferFee,
+            item.isBurnable,
+            item.isTransferable,
+            item.isOnlyXRP,
+            current.taxon
+          );
+        });
+        commitRun(current);
+
+        try {
+          const client = await getClient();
+          await submitTransactionsInParallel(client, wallet, transactions, {
+            onResult: (result) => {
+              const index = readyIndexes[result.index];
+              const nftokenID = getMintedNFTokenID(result.meta);
+              if (result.status === "success" && nftokenID) {
+                current = commitRun(updateBatchItem(current, index, { status: "done", nftokenID }));
+                mintedCount++;
+              } else {
+                markFailed(index, result.error || "Failed to get NFToken ID");
+              }
+            },
+          });
+        } catch (error) {
+          // チケットを確保できなかった場合は残りのアイテムを失敗として記録
+          // 送信済みのものは再開時に発行済みかどうか確認される
+          toast.error("チケットの作成に失敗しました。XRPの残高（準備金）を確認してください");
+          readyIndexes
+            .filter(index => current.items[index].status === "minting")
+            .forEach(index => markFailed(index, error));
+        }
+      }
+    } finally {
+      setIsRunning(false);
+    }
+
+    if (mintedCount > 0) {
+      // NFT発行成功イベントを発行（マーケットプレイスとNFTリストの更新トリガー）
+      window.dispatchEvent(new CustomEvent('nft-minted', {
+        detail: { wallet: wallet.id }
+      }));
+    }
+
+    const failedCount = current.items.filter(item => item.status === "failed").length;
+    if (failedCount > 0) {
+      toast.warning(`${failedCount}件のアイテムの発行に失敗しました。再開すると失敗したアイテムを再試行します`);
+    } else if (current.items.every(item => item.status === "done")) {
+      toast.success(`${current.items.length}件のNFTを発行しました`);
+    }
+  };
+
+  // 新しく一括発行を開始する処理
+  const handleStart = () => {
+    if (missingFiles.length > 0) {
+      toast.error(`${missingFiles.length}件のアイテムに対応する画像がありません`);
+      return;
+    }
+    processRun(createBatchRun(manifestItems, wallet.classicAddress, Number(collectionValue)));
+  };
+
+  // レポートをダウンロードする処理
+  const handleDownloadReport = () => {
+    if (!run) return;
+    const blob = new Blob([createBatchReport(run)], { type: "text/csv" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `${run.id}-report.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  // 実行状態を破棄する処理
+  const handleClearRun = () => {
+    clearBatchRun();
+    setRun(null);
+  };
+
+  const doneCount = run ? run.items.filter(item => item.status === "done").length : 0;
+  const isComplete = !!run && doneCount === run.items.length;
+  // 再開時にアップロードが必要なアイテムの画像がそろっているか
+  const resumeMissingFiles = run
+    ? run.items.filter(item =>
+      !item.metadataUri && item.status !== "done" && (
+        !imageFiles.has(getBaseName(item.file)) ||
+        (!!item.animation && !imageFiles.has(getBaseName(item.animation)))
+      )
+    )
+    : [];
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <p className="text-sm font-medium">マニフェスト（CSV / JSON）</p>
+        <input
+          type="file"
+          accept=".csv,.json,text/csv,application/json"
+          onChange={handleManifestChange}
+          disabled={isRunning}
+          className="block w-full text-sm"
+        />
+        <p className="text-xs text-gray-500">
+          列: file, name, description, animation（音声・動画・GLB、任意）, attributes（「種類:値;種類:値」またはJSON配列）, transfer_fee, burnable, transferable, only_xrp
+        </p>
+        {manifestName && (
+          <p className="text-xs text-gray-500">{manifestName}: {manifestItems.length}件</p>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <p className="text-sm font-medium">画像フォルダ</p>
+        <input
+          ref={folderInputRef}
+          type="file"
+          multiple
+          onChange={handleImagesChange}
+          disabled={isRunning}
+          className="block w-full text-sm"
+        />
+        <p className="text-xs text-gray-500">
+          {imageFiles.size > 0 ? `${imageFiles.size}件のファイル` : "マニフェストのfile列（とanimation列）と同じ名前のファイルを含むフォルダを選択してください"}
+          {manifestItems.length > 0 && missingFiles.length > 0 && (
+            <span className="text-red-600">（{missingFiles.length}件のファイルが見つかりません）</span>
+          )}
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <p className="text-sm font-medium">コレクション</p>
+        <Select value={collectionValue} onValueChange={setCollectionValue} disabled={isRunning}>
+          <SelectTrigger className="w-full">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={String(DEFAULT_TAXON)}>未分類</SelectItem>
+            {collections.map((collection) => (
+              <SelectItem key={collection.taxon} value={String(collection.taxon)}>
+                {collection.name}（タクソン {collection.taxon}）
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <div>
+          <p className="text-sm font-medium">チケットで並列発行</p>
+          <p className="text-xs text-gray-500">
+            アップロード後にTicketCreateでチケットを作成し、まとめて並列に発行します（チケット1枚ごとに準備金が一時的に必要です）
+          </p>
+        </div>
+        <Switch checked={useTickets} onCheckedChange={setUseTickets} disabled={isRunning} />
+      </div>
+
+      <Button
+        className="w-full"
+        onClick={handleStart}
+        disabled={isRunning || manifestItems.length === 0 || (!!run && !isComplete)}
+      >
+        {manifestItems.length > 0 ? `${manifestItems.length}件のNFTを一括発行` : "一括発行"}
+      </Button>
+      {run && !isComplete && !isRunning && (
+        <p className="text-xs text-amber-600">
+          未完了の一括発行があります。再開するか、破棄してから新しく開始してください
+        </p>
+      )}
+
+      {run && (
+        <div className="space-y-3 border rounded-md p-3">
+          <div className="flex items-center justify-between">
+            <p className="text-sm font-medium">進捗: {doneCount} / {run.items.length}</p>
+            <div className="flex gap-2">
+              {isRunning ? (
+                <Button variant="outline" size="sm" onClick={() => { pauseRequestedRef.current = true; }}>
+                  一時停止
+                </Button>
+              ) : !isComplete && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => processRun(run)}
+                  disabled={resumeMissingFiles.length > 0}
+                >
+                  再開
+                </Button>
+              )}
+              <Button variant="outline" size="sm" onClick={handleDownloadReport}>
+                レポート
+              </Button>
+              <Button variant="ghost" size="sm" onClick={handleClearRun} disabled={isRunning}>
+                破棄
+              </Button>
+            </div>
+          </div>
+
+          <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+            <div
+              className="h-full bg-green-500 transition-all"
+              style={{ width: `${(doneCount / run.items.length) * 100}%` }}
+            />
+          </div>
+
+          {!isRunning && resumeMissingFiles.length > 0 && (
+            <p className="text-xs text-amber-600">
+              再開するには画像フォルダを選択し直してください（{resumeMissingFiles.length}件の画像が未アップロードです）
+            </p>
+          )}
+
+          <ul className="max-h-64 overflow-y-auto space-y-1">
+            {run.items.map((item, index) => (
+              <li key={`${item.file}-${index}`} className="flex items-center justify-between gap-2 text-xs">
+                <span className="truncate">{item.name}</span>
+                <span className="flex items-center gap-2 shrink-0">
+                  {item.nftokenID && (
+                    <a href={getExplorerUrl(network, "nft", item.nftokenID)} target="_blank" rel="noopener noreferrer" className="hover:underline text-blue-500">
+                      {item.nftokenID.substring(0, 8)}...
+                    </a>
+                  )}
+                  <span
+                    className={`px-2 py-0.5 rounded-full ${STATUS_LABELS[item.status].className}`}
+                    title={item.error}
+                  >
+                    {STATUS_LABELS[item.status].label}
+                  </span>
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,219 @@
+"use client";
+
+import { useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { getClient } from "@/lib/xrpl/client";
+import { WalletState } from "@/lib/xrpl/wallet";
+import {
+  buildCancelOfferTransaction,
+  buildCreateOfferTransaction,
+  getNFTOffers,
+} from "@/lib/xrpl/nft";
+import { PipelineResult, submitTransactionsInParallel } from "@/lib/xrpl/pipeline";
+import { XRP_CURRENCY, toAmount } from "@/lib/xrpl/amount";
+import { toOfferExpiration } from "@/lib/xrpl/expiration";
+import { NFT } from "@/lib/types";
+import { OfferDurationPicker } from "./OfferExpiration";
+
+interface BulkNFTActionsProps {
+  wallet: WalletState;
+  nfts: NFT[];
+  onUpdate?: () => void;
+  disabled?: boolean;
+}
+
+// トランザクションごとの実行結果（表示用）
+interface BulkActionResult {
+  nftokenID: string;
+  status: PipelineResult["status"];
+  error?: string;
+}
+
+// 保有NFTをまとめて出品・出品取り消しするパネル
+// チケットを使ってトランザクションを並列に送信する
+export function BulkNFTActions({ wallet, nfts, onUpdate, disabled = false }: BulkNFTActionsProps) {
+  const [selectedIDs, setSelectedIDs] = useState<Set<string>>(new Set());
+  const [price, setPrice] = useState("");
+  const [duration, setDuration] = useState(0);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [results, setResults] = useState<BulkActionResult[]>([]);
+
+  const isBusy = disabled || isProcessing;
+
+  // 選択の切り替え
+  const toggleSelected = (nftokenID: string, checked: boolean) => {
+    const next = new Set(selectedIDs);
+    if (checked) {
+      next.add(nftokenID);
+    } else {
+      next.delete(nftokenID);
+    }
+    setSelectedIDs(next);
+  };
+
+  // すべて選択・選択解除
+  const toggleAll = () => {
+    setSelectedIDs(selectedIDs.size === nfts.length ? new Set() : new Set(nfts.map(nft => nft.NFTokenID)));
+  };
+
+  // 対象のNFTごとにトランザクションを並列送信し、結果を表示する処理
+  const runBulkAction = async (
+    targetIDs: string[],
+    transactions: Parameters<typeof submitTransactionsInParallel>[2],
+    successMessage: string
+  ) => {
+    const client = await getClient();
+    let done = 0;
+    setProgress({ done, total: transactions.length });
+
+    const pipelineResults = await submitTransactionsInParallel(client, wallet, transactions, {
+      onResult: () => setProgress({ done: ++done, total: transactions.length }),
+    });
+
+    const actionResults = pipelineResults.map(result => ({
+      nftokenID: targetIDs[result.index],
+      status: result.status,
+      error: result.error,
+    }));
+    setResults(actionResults);
+
+    const failedCount = actionResults.filter(result => result.status === "failed").length;
+    if (failedCount > 0) {
+      toast.warning(`${actionResults.length - failedCount}件成功、${failedCount}件失敗しました`);
+    } else {
+      toast.success(successMessage);
+    }
+    onUpdate?.();
+  };
+
+  // 選択したNFTをまとめて出品する処理
+  const handleBulkList = async () => {
+    const numericPrice = parseFloat(price);
+    if (isNaN(numericPrice) || numericPrice <= 0) {
+      toast.error("有効な販売金額を入力してください");
+      return;
+    }
+
+    try {
+      setIsProcessing(true);
+      const targetIDs = Array.from(selectedIDs);
+      const amount = toAmount(price, XRP_CURRENCY);
+      const expiration = toOfferExpiration(duration);
+      const transactions = targetIDs.map(nftokenID =>
+        buildCreateOfferTransaction(wallet.classicAddress, nftokenID, amount, true, undefined, undefined, expiration)
+      );
+
+      await runBulkAction(targetIDs, transactions, `${targetIDs.length}件のNFTを売りに出しました`);
+    } catch (error) {
+      console.error("Failed to list NFTs:", error);
+      toast.error("NFTの一括出品に失敗しました");
+    } finally {
+      setIsProcessing(false);
+      setProgress(null);
+    }
+  };
+
+  // 選択したNFTの自分の売りオファーをまとめて取り消す処理
+  const handleBulkCancel = async () => {
+    try {
+      setIsProcessing(true);
+      const client = await getClient();
+
+      // NFTごとに自分の売りオファーを取得し、1NFTにつき1件のNFTokenCancelOfferを作成
+      const targets = await Promise.all(
+        Array.from(selectedIDs).map(async nftokenID => {
+          const offers = await getNFTOffers(client, nftokenID);
+          const offerIDs = offers
+            .filter(offer => offer.owner === wallet.classicAddress)
+            .map(offer => offer.nft_offer_index as string);
+          return { nftokenID, offerIDs };
+        })
+      );
+      const listedTargets = targets.filter(target => target.offerIDs.length > 0);
+
+      if (listedTargets.length === 0) {
+        toast.info("選択したNFTに取り消せる売りオファーはありません");
+        return;
+      }
+
+      await runBulkAction(
+        listedTargets.map(target => target.nftokenID),
+        listedTargets.map(target => buildCancelOfferTransaction(wallet.classicAddress, target.offerIDs)),
+        `${listedTargets.length}件のNFTの出品を取り消しました`
+      );
+    } catch (error) {
+      console.error("Failed to cancel NFT offers:", error);
+      toast.error("出品の一括取り消しに失敗しました");
+    } finally {
+      setIsProcessing(false);
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="space-y-3 border rounded-md p-3">
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-medium">まとめて操作（{selectedIDs.size}件選択中）</p>
+        <Button variant="ghost" size="sm" onClick={toggleAll} disabled={isBusy || nfts.length === 0}>
+          {selectedIDs.size === nfts.length ? "選択解除" : "すべて選択"}
+        </Button>
+      </div>
+
+      <ul className="max-h-48 overflow-y-auto space-y-1">
+        {nfts.map((nft) => (
+          <li key={nft.NFTokenID} className="flex items-center gap-2 text-xs">
+            <Checkbox
+              checked={selectedIDs.has(nft.NFTokenID)}
+              onCheckedChange={(checked) => toggleSelected(nft.NFTokenID, checked === true)}
+              disabled={isBusy}
+            />
+            <span className="font-mono truncate">{nft.NFTokenID}</span>
+          </li>
+        ))}
+      </ul>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-2">
+          <label className="text-sm font-medium">販売価格（XRP）</label>
+          <Input
+            type="number"
+            placeholder="例: 10"
+            value={price}
+            onChange={(e) => setPrice(e.target.value)}
+            disabled={isBusy}
+          />
+        </div>
+        <OfferDurationPicker value={duration} onChange={setDuration} disabled={isBusy} />
+      </div>
+
+      <div className="flex gap-2">
+        <Button className="flex-1" onClick={handleBulkList} disabled={isBusy || selectedIDs.size === 0}>
+          選択したNFTを出品
+        </Button>
+        <Button variant="outline" className="flex-1" onClick={handleBulkCancel} disabled={isBusy || selectedIDs.size === 0}>
+          出品を取り消し
+        </Button>
+      </div>
+
+      {progress && (
+        <p className="text-xs text-gray-500">
+          チケットで並列送信中... {progress.done} / {progress.total}
+        </p>
+      )}
+
+      {results.some(result => result.status === "failed") && (
+        <ul className="space-y-1">
+          {results.filter(result => result.status === "failed").map((result) => (
+            <li key={result.nftokenID} className="text-xs text-red-600 truncate">
+              {result.nftokenID.substring(0, 8)}...: {result.error}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+"use client";
+
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CollectionGroup, findCollection, getCollectionStats } from "@/lib/xrpl/collection";
+import { findWalletByAddress } from "@/lib/xrpl/wallet";
+import { formatAmount } from "@/lib/xrpl/amount";
+import { getExplorerUrl } from "@/lib/xrpl/networks";
+import { getWallets } from "@/lib/storage";
+import { useAppStore } from "@/lib/store";
+import { Amount, NFT } from "@/lib/types";
+
+// すべてのコレクションを表示する場合のフィルターの値
+export const ALL_COLLECTIONS = "all";
+
+// アドレスからアカウント名を取得するヘルパー関数
+function getAccountName(address: string): string {
+  const knownWallet = findWalletByAddress(getWallets(), address);
+  return knownWallet ? knownWallet.name : `${address.substring(0, 6)}...${address.substring(address.length - 4)}`;
+}
+
+interface CollectionFilterProps {
+  groups: CollectionGroup<NFT>[];
+  value: string;
+  onChange: (value: string) => void;
+  disabled?: boolean;
+}
+
+// 表示するコレクションを選択するフィルター
+export function CollectionFilter({ groups, value, onChange, disabled = false }: CollectionFilterProps) {
+  return (
+    <Select value={value} onValueChange={onChange} disabled={disabled}>
+      <SelectTrigger className="w-56">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={ALL_COLLECTIONS}>すべてのコレクション</SelectItem>
+        {groups.map((group) => (
+          <SelectItem key={group.key} value={group.key}>
+            {group.name}（{group.items.length}）
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+interface CollectionSummaryProps {
+  group: CollectionGroup<NFT & { offerAmount?: Amount }>;
+}
+
+// コレクションの概要（最安値・アイテム数・所有者）を表示するパネル
+export function CollectionSummary({ group }: CollectionSummaryProps) {
+  const { network } = useAppStore();
+  const collection = findCollection(group.issuer, group.taxon);
+  const stats = getCollectionStats(group.items);
+
+  return (
+    <div className="mb-6 p-4 border rounded-md bg-white space-y-3">
+      <div>
+        <h3 className="font-medium">{group.name}</h3>
+        {collection?.description && (
+          <p className="text-sm text-gray-500 mt-1">{collection.description}</p>
+        )}
+        <p className="text-xs text-gray-400 mt-1">
+          発行者: <a href={getExplorerUrl(network, "accounts", group.issuer)} target="_blank" rel="noopener noreferrer" className="hover:underline text-blue-500">{getAccountName(group.issuer)}</a>
+          {" "}/ タクソン: {group.taxon}
+        </p>
+      </div>
+
+      <div className="grid grid-cols-3 gap-4 text-center">
+        <div>
+          <p className="text-xs text-gray-500">最安値</p>
+          <p className="font-medium text-green-600">{stats.floorPrice ? formatAmount(stats.floorPrice) : "-"}</p>
+        </div>
+        <div>
+          <p className="text-xs text-gray-500">アイテム数</p>
+          <p className="font-medium">{stats.itemCount}</p>
+        </div>
+        <div>
+          <p className="text-xs text-gray-500">所有者数</p>
+          <p className="font-medium">{stats.ownerCount}</p>
+        </div>
+      </div>
+
+      {stats.owners.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {stats.owners.map((owner) => (
+            <span key={owner} className="text-xs bg-gray-100 text-gray-700 px-2 py-0.5 rounded-full">
+              {getAccountName(owner)}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
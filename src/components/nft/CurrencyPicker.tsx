@@ -0,0 +1,142 @@
+"use client";
+
+import { useState, useEffect, useMemo } from "react";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { getClient } from "@/lib/xrpl/client";
+import { findWalletByAddress } from "@/lib/xrpl/wallet";
+import { TrustLine, getTrustLines } from "@/lib/xrpl/trustline";
+import {
+  XRP_CURRENCY,
+  decodeCurrencyCode,
+  decodeCurrencyKey,
+  encodeCurrencyKey,
+  isXrpCurrency,
+} from "@/lib/xrpl/amount";
+import { getWallets } from "@/lib/storage";
+import { OfferCurrency } from "@/lib/types";
+
+// 一覧にない通貨を入力する場合のSelectの値
+const CUSTOM_CURRENCY_VALUE = "custom";
+
+interface CurrencyPickerProps {
+  // トラストラインを候補として表示するアカウント
+  address?: string;
+  value: OfferCurrency;
+  onChange: (currency: OfferCurrency) => void;
+  disabled?: boolean;
+}
+
+// アドレスを短縮表示する関数
+function shortenAddress(address: string): string {
+  return `${address.substring(0, 6)}...${address.substring(address.length - 4)}`;
+}
+
+// オファーに使用する通貨（XRPまたはIOU）を選択するピッカー
+export function CurrencyPicker({ address, value, onChange, disabled = false }: CurrencyPickerProps) {
+  const [trustLines, setTrustLines] = useState<TrustLine[]>([]);
+  const [isCustom, setIsCustom] = useState(false);
+  const [customCode, setCustomCode] = useState("");
+  const [customIssuer, setCustomIssuer] = useState("");
+
+  // レジストリ内のウォレット（発行者の候補と名前表示に使用）
+  const wallets = useMemo(() => getWallets(), []);
+
+  // 保有しているトラストラインを候補として取得
+  useEffect(() => {
+    if (!address) return;
+    let cancelled = false;
+
+    const fetchTrustLines = async () => {
+      try {
+        const client = await getClient();
+        const lines = await getTrustLines(client, address);
+        if (!cancelled) {
+          setTrustLines(lines);
+        }
+      } catch (error) {
+        console.error("トラストラインの取得に失敗しました:", error);
+      }
+    };
+    fetchTrustLines();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [address]);
+
+  // 発行者の表示名（レジストリ内のウォレットであれば名前を表示）
+  const getIssuerLabel = (issuer: string) => {
+    const issuerWallet = findWalletByAddress(wallets, issuer);
+    return issuerWallet ? issuerWallet.name : shortenAddress(issuer);
+  };
+
+  const handleSelect = (selected: string) => {
+    if (selected === CUSTOM_CURRENCY_VALUE) {
+      setIsCustom(true);
+      onChange({ currency: customCode, issuer: customIssuer });
+      return;
+    }
+    setIsCustom(false);
+    onChange(decodeCurrencyKey(selected));
+  };
+
+  const handleCustomChange = (code: string, issuer: string) => {
+    setCustomCode(code);
+    setCustomIssuer(issuer);
+    onChange({ currency: code, issuer });
+  };
+
+  // 入力途中の通貨コードはキーに変換できないため、カスタム入力中は固定値を使用
+  const selectedValue = isCustom
+    ? CUSTOM_CURRENCY_VALUE
+    : isXrpCurrency(value) ? "XRP" : encodeCurrencyKey(value);
+
+  return (
+    <div className="space-y-2">
+      <Select value={selectedValue} onValueChange={handleSelect} disabled={disabled}>
+        <SelectTrigger className="w-full">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={encodeCurrencyKey(XRP_CURRENCY)}>XRP</SelectItem>
+          {trustLines.map((line) => (
+            <SelectItem key={encodeCurrencyKey(line)} value={encodeCurrencyKey(line)}>
+              {decodeCurrencyCode(line.currency)}（発行者: {getIssuerLabel(line.issuer)}）
+            </SelectItem>
+          ))}
+          <SelectItem value={CUSTOM_CURRENCY_VALUE}>その他の通貨...</SelectItem>
+        </SelectContent>
+      </Select>
+
+      {isCustom && (
+        <div className="flex gap-2">
+          <Input
+            value={customCode}
+            onChange={(e) => handleCustomChange(e.target.value, customIssuer)}
+            placeholder="通貨コード (例: USD)"
+            className="w-32"
+            maxLength={40}
+            disabled={disabled}
+          />
+          <Select
+            value={customIssuer}
+            onValueChange={(issuer) => handleCustomChange(customCode, issuer)}
+            disabled={disabled}
+          >
+            <SelectTrigger className="flex-1">
+              <SelectValue placeholder="発行者を選択" />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.values(wallets || {}).map((issuerWallet) => (
+                <SelectItem key={issuerWallet.id} value={issuerWallet.classicAddress}>
+                  {issuerWallet.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+    </div>
+  );
+}
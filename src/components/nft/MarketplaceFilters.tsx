@@ -0,0 +1,236 @@
+"use client";
+
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  ALL_FILTER_VALUE,
+  FlagFilter,
+  MARKETPLACE_SORTS,
+  MARKETPLACE_SORT_LABELS,
+  MarketplaceFilters,
+  MarketplaceSort,
+} from "@/lib/marketplace-filter";
+import { decodeCurrencyKey, formatCurrency } from "@/lib/xrpl/amount";
+
+// Selectの選択肢
+export interface FilterOption {
+  value: string;
+  label: string;
+}
+
+interface MarketplaceFilterBarProps {
+  filters: MarketplaceFilters;
+  onChange: (changes: Partial<MarketplaceFilters>) => void;
+  onReset: () => void;
+  // 所有者の選択肢（表示中のNFTの所有者）
+  ownerOptions: FilterOption[];
+  // 価格の範囲を指定できる通貨（出品されている通貨）
+  currencyOptions: FilterOption[];
+  disabled?: boolean;
+}
+
+// フラグの条件の表示名
+const FLAG_FILTER_LABELS: Record<FlagFilter, string> = {
+  any: "指定なし",
+  yes: "あり",
+  no: "なし",
+};
+
+// フラグの条件を選ぶSelect
+function FlagSelect({
+  label,
+  value,
+  onChange,
+  disabled,
+}: {
+  label: string;
+  value: FlagFilter;
+  onChange: (value: FlagFilter) => void;
+  disabled: boolean;
+}) {
+  return (
+    <div className="space-y-1">
+      <p className="text-xs text-gray-500">{label}</p>
+      <Select value={value} onValueChange={(next) => onChange(next as FlagFilter)} disabled={disabled}>
+        <SelectTrigger className="w-full bg-white">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {(Object.keys(FLAG_FILTER_LABELS) as FlagFilter[]).map((option) => (
+            <SelectItem key={option} value={option}>
+              {FLAG_FILTER_LABELS[option]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
+
+// マーケットプレイスの検索・絞り込み・並べ替えの入力欄
+export function MarketplaceFilterBar({
+  filters,
+  onChange,
+  onReset,
+  ownerOptions,
+  currencyOptions,
+  disabled = false,
+}: MarketplaceFilterBarProps) {
+  // URLで指定された所有者・通貨が表示中のNFTにない場合も選択肢に残す
+  const owners = ownerOptions.some(option => option.value === filters.owner) || filters.owner === ALL_FILTER_VALUE
+    ? ownerOptions
+    : [...ownerOptions, { value: filters.owner, label: `${filters.owner.substring(0, 8)}...` }];
+  const currencies = currencyOptions.some(option => option.value === filters.currency)
+    ? currencyOptions
+    : [...currencyOptions, { value: filters.currency, label: formatCurrency(decodeCurrencyKey(filters.currency)) }];
+
+  return (
+    <div className="space-y-3 mb-6 p-4 border rounded-lg bg-gray-50">
+      <div className="flex flex-col sm:flex-row gap-2">
+        <Input
+          value={filters.query}
+          onChange={(e) => onChange({ query: e.target.value })}
+          placeholder="名前・説明・NFTokenIDで検索"
+          disabled={disabled}
+          className="bg-white"
+        />
+        <Select value={filters.sort} onValueChange={(sort) => onChange({ sort: sort as MarketplaceSort })} disabled={disabled}>
+          <SelectTrigger className="w-full sm:w-48 bg-white">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {MARKETPLACE_SORTS.map((sort) => (
+              <SelectItem key={sort} value={sort}>
+                {MARKETPLACE_SORT_LABELS[sort]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3">
+        <div className="space-y-1">
+          <p className="text-xs text-gray-500">価格</p>
+          <div className="flex gap-1">
+            <Select value={filters.currency} onValueChange={(currency) => onChange({ currency })} disabled={disabled}>
+              <SelectTrigger className="w-24 bg-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {currencies.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              type="number"
+              min="0"
+              value={filters.minPrice}
+              onChange={(e) => onChange({ minPrice: e.target.value })}
+              placeholder="下限"
+              disabled={disabled}
+              className="bg-white"
+            />
+            <Input
+              type="number"
+              min="0"
+              value={filters.maxPrice}
+              onChange={(e) => onChange({ maxPrice: e.target.value })}
+              placeholder="上限"
+              disabled={disabled}
+              className="bg-white"
+            />
+          </div>
+        </div>
+
+        <div className="space-y-1">
+          <p className="text-xs text-gray-500">送金手数料（%）</p>
+          <div className="flex gap-1">
+            <Input
+              type="number"
+              min="0"
+              max="50"
+              step="0.001"
+              value={filters.minTransferFee}
+              onChange={(e) => onChange({ minTransferFee: e.target.value })}
+              placeholder="下限"
+              disabled={disabled}
+              className="bg-white"
+            />
+            <Input
+              type="number"
+              min="0"
+              max="50"
+              step="0.001"
+              value={filters.maxTransferFee}
+              onChange={(e) => onChange({ maxTransferFee: e.target.value })}
+              placeholder="上限"
+              disabled={disabled}
+              className="bg-white"
+            />
+          </div>
+        </div>
+
+        <div className="space-y-1">
+          <p className="text-xs text-gray-500">発行者</p>
+          <Input
+            value={filters.issuer}
+            onChange={(e) => onChange({ issuer: e.target.value })}
+            placeholder="rから始まるアドレス"
+            disabled={disabled}
+            className="bg-white"
+          />
+        </div>
+
+        <div className="space-y-1">
+          <p className="text-xs text-gray-500">所有者</p>
+          <Select value={filters.owner} onValueChange={(owner) => onChange({ owner })} disabled={disabled}>
+            <SelectTrigger className="w-full bg-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_FILTER_VALUE}>すべての所有者</SelectItem>
+              {owners.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <FlagSelect
+          label="焼却可能"
+          value={filters.burnable}
+          onChange={(burnable) => onChange({ burnable })}
+          disabled={disabled}
+        />
+        <FlagSelect
+          label="譲渡可能"
+          value={filters.transferable}
+          onChange={(transferable) => onChange({ transferable })}
+          disabled={disabled}
+        />
+
+        <div className="flex items-center gap-2 pt-5">
+          <Switch
+            checked={filters.listedOnly}
+            onCheckedChange={(listedOnly) => onChange({ listedOnly })}
+            disabled={disabled}
+          />
+          <p className="text-sm">販売中のみ</p>
+        </div>
+
+        <div className="flex items-end justify-end">
+          <Button variant="outline" size="sm" onClick={onReset} disabled={disabled}>
+            条件をリセット
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,285 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { toast } from "sonner";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { getClient } from "@/lib/xrpl/client";
+import { WalletState, findWalletByAddress } from "@/lib/xrpl/wallet";
+import { getAccountNFTs, getAllNFTOffers, brokerNFTOffers, toNFTOffer, OFFER_EXPIRED_MESSAGE } from "@/lib/xrpl/nft";
+import { BrokerMatch, findBrokerMatches } from "@/lib/xrpl/broker";
+import { compareAmounts, formatAmount, formatAmountValue, formatCurrency, getAmountCurrency, isZeroAmount, toAmount } from "@/lib/xrpl/amount";
+import { ensureTrustLine } from "@/lib/xrpl/trustline";
+import { getExplorerUrl } from "@/lib/xrpl/networks";
+import { getWallets } from "@/lib/storage";
+import { useAppStore } from "@/lib/store";
+import { Loader } from "@/components/ui/loader";
+import { OfferExpirationBadge } from "./OfferExpiration";
+
+interface NFTBrokerProps {
+  wallet: WalletState | null;
+}
+
+// 組み合わせを一意に識別するキー
+function getMatchKey(match: BrokerMatch): string {
+  return `${match.sellOffer.offerID}:${match.buyOffer.offerID}`;
+}
+
+// アドレスからアカウント名を取得するヘルパー関数
+function getAccountName(address: string): string {
+  const knownWallet = findWalletByAddress(getWallets(), address);
+  return knownWallet ? knownWallet.name : `${address.substring(0, 6)}...${address.substring(address.length - 4)}`;
+}
+
+// 売りオファーと買いオファーを仲介して手数料を受け取るブローカー画面
+export function NFTBroker({ wallet }: NFTBrokerProps) {
+  const [matches, setMatches] = useState<BrokerMatch[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [hasError, setHasError] = useState(false);
+  // 組み合わせごとの手数料の入力値
+  const [feeInputs, setFeeInputs] = useState<{[key: string]: string}>({});
+  // 現在仲介処理中の組み合わせ
+  const [processingMatch, setProcessingMatch] = useState<string | null>(null);
+
+  // グローバルステートを使用
+  const { isLocked, isVaultLocked, network } = useAppStore();
+
+  // レジストリ内の全アカウントのNFTから仲介可能な組み合わせを取得する処理
+  const fetchMatches = useCallback(async () => {
+    if (!wallet || isLocked) return;
+
+    setIsLoading(true);
+    setHasError(false);
+
+    try {
+      const storedWallets = getWallets();
+      if (!storedWallets) {
+        setMatches([]);
+        return;
+      }
+
+      const client = await getClient();
+
+      // 仲介者自身のNFTは通常の売買になるため除外
+      const sellerWallets = Object.values(storedWallets).filter(
+        accountWallet => accountWallet.classicAddress !== wallet.classicAddress
+      );
+
+      const accountMatches = await Promise.all(
+        sellerWallets.map(async (accountWallet) => {
+          try {
+            const nfts = await getAccountNFTs(client, accountWallet.classicAddress);
+
+            const nftMatches = await Promise.all(
+              nfts.map(async (nft) => {
+                const { sellOffers, buyOffers } = await getAllNFTOffers(client, nft.NFTokenID);
+                return findBrokerMatches(
+                  nft.NFTokenID,
+                  accountWallet.classicAddress,
+                  sellOffers.map(offer => toNFTOffer(offer, nft.NFTokenID, true)),
+                  buyOffers.map(offer => toNFTOffer(offer, nft.NFTokenID, false)),
+                  wallet.classicAddress
+                );
+              })
+            );
+
+            return nftMatches.flat();
+          } catch (error) {
+            console.error(`Failed to fetch broker matches for ${accountWallet.name}:`, error);
+            return [];
+          }
+        })
+      );
+
+      const foundMatches = accountMatches
+        .flat()
+        .sort((a, b) => compareAmounts(b.maxBrokerFee, a.maxBrokerFee));
+
+      setMatches(foundMatches);
+      // 手数料の初期値は受け取れる最大額
+      setFeeInputs(Object.fromEntries(
+        foundMatches.map(match => [getMatchKey(match), formatAmountValue(match.maxBrokerFee)])
+      ));
+    } catch (error) {
+      console.error("Failed to fetch broker matches:", error);
+      toast.error("仲介可能なオファーの取得に失敗しました");
+      setMatches([]);
+      setHasError(true);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [wallet, isLocked]);
+
+  // ウォレットが変更されたら、組み合わせを再取得
+  useEffect(() => {
+    if (wallet && !isLocked) {
+      fetchMatches();
+    } else {
+      setMatches([]);
+      setHasError(false);
+    }
+  }, [wallet, isLocked, fetchMatches]);
+
+  // 仲介を実行する処理
+  const handleBroker = async (match: BrokerMatch) => {
+    if (!wallet) {
+      toast.error("ウォレットが選択されていません");
+      return;
+    }
+
+    const matchKey = getMatchKey(match);
+    const feeValue = (feeInputs[matchKey] || "0").trim();
+    const numericFee = parseFloat(feeValue);
+    if (isNaN(numericFee) || numericFee < 0) {
+      toast.error("有効な手数料を入力してください");
+      return;
+    }
+
+    try {
+      setProcessingMatch(matchKey);
+
+      // 手数料は買いオファーと同じ通貨で受け取る
+      const feeCurrency = getAmountCurrency(match.maxBrokerFee);
+      const brokerFee = toAmount(feeValue, feeCurrency);
+      if (compareAmounts(brokerFee, match.maxBrokerFee) > 0) {
+        toast.error(`手数料は最大${formatAmount(match.maxBrokerFee)}までです`);
+        return;
+      }
+
+      const client = await getClient();
+
+      // IOUで手数料を受け取る場合はトラストラインが必要
+      if (!isZeroAmount(brokerFee) && await ensureTrustLine(client, wallet, feeCurrency)) {
+        toast.info("手数料を受け取るためのトラストラインを設定しました");
+      }
+
+      await brokerNFTOffers(client, wallet, match.sellOffer.offerID, match.buyOffer.offerID, brokerFee);
+
+      toast.success(isZeroAmount(brokerFee)
+        ? "取引を仲介しました"
+        : `取引を仲介し、${formatAmount(brokerFee)}の手数料を受け取りました`);
+      fetchMatches();
+    } catch (error) {
+      console.error("Failed to broker offers:", error);
+      if (error instanceof Error && error.message === OFFER_EXPIRED_MESSAGE) {
+        toast.error(error.message);
+        fetchMatches();
+      } else if (error instanceof Error && error.message.includes("tecINSUFFICIENT_PAYMENT")) {
+        toast.error("手数料が大きすぎるため、売り手の希望価格を満たせません");
+      } else {
+        toast.error("取引の仲介に失敗しました");
+      }
+    } finally {
+      setProcessingMatch(null);
+    }
+  };
+
+  return (
+    <Card className="w-full">
+      <CardHeader>
+        <div className="flex justify-between items-center">
+          <div>
+            <CardTitle>NFT仲介</CardTitle>
+            <CardDescription>売りオファーと買いオファーを組み合わせて取引を成立させ、差額を手数料として受け取ります</CardDescription>
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={fetchMatches}
+            disabled={isLoading || !wallet || isLocked}
+          >
+            更新
+          </Button>
+        </div>
+      </CardHeader>
+
+      <CardContent>
+        {isLoading ? (
+          <div className="text-center py-8">
+            <p>仲介可能なオファーを検索中...</p>
+          </div>
+        ) : isLocked ? (
+          <div className="text-center py-8">
+            <p>{isVaultLocked ? "ウォレットがロックされています" : "ウォレット切り替え中..."}</p>
+            <p className="text-sm text-gray-500 mt-2">
+              {isVaultLocked ? "パスフレーズでロックを解除してください" : "処理が完了するまでお待ちください"}
+            </p>
+          </div>
+        ) : matches.length > 0 ? (
+          <div className="space-y-4">
+            {matches.map((match) => {
+              const matchKey = getMatchKey(match);
+              return (
+                <div key={matchKey} className="p-4 border rounded-md space-y-3">
+                  <p className="text-xs text-gray-400">
+                    NFT ID: <a href={getExplorerUrl(network, "nft", match.nftokenID)} target="_blank" rel="noopener noreferrer" className="hover:underline text-blue-500">{match.nftokenID.substring(0, 8)}...</a>
+                  </p>
+                  <div className="grid grid-cols-2 gap-4 text-sm">
+                    <div>
+                      <p className="text-xs text-gray-500">売りオファー（{getAccountName(match.sellOffer.owner)}）</p>
+                      <p className="font-medium">{formatAmount(match.sellOffer.amount)}</p>
+                      <OfferExpirationBadge expiration={match.sellOffer.expiration} />
+                    </div>
+                    <div>
+                      <p className="text-xs text-gray-500">買いオファー（{getAccountName(match.buyOffer.owner)}）</p>
+                      <p className="font-medium">{formatAmount(match.buyOffer.amount)}</p>
+                      <OfferExpirationBadge expiration={match.buyOffer.expiration} />
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <label className="text-xs text-gray-500 whitespace-nowrap">
+                      手数料（最大 {formatAmount(match.maxBrokerFee)}）
+                    </label>
+                    <Input
+                      type="number"
+                      min="0"
+                      value={feeInputs[matchKey] ?? ""}
+                      onChange={(e) => setFeeInputs(prev => ({ ...prev, [matchKey]: e.target.value }))}
+                      className="w-32"
+                      disabled={processingMatch !== null}
+                    />
+                    <span className="text-xs text-gray-500">{formatCurrency(getAmountCurrency(match.maxBrokerFee))}</span>
+                    <Button
+                      size="sm"
+                      className="ml-auto bg-green-600 hover:bg-green-700"
+                      onClick={() => handleBroker(match)}
+                      disabled={processingMatch !== null}
+                    >
+                      {processingMatch === matchKey ? (
+                        <span className="flex items-center gap-2">
+                          <Loader size="sm" color="white" />
+                          処理中
+                        </span>
+                      ) : (
+                        "仲介する"
+                      )}
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        ) : (
+          <div className="text-center py-8">
+            {hasError ? (
+              <>
+                <p>データの取得中にエラーが発生しました</p>
+                <p className="text-sm text-gray-500 mt-2">
+                  更新ボタンを押して再度試してください
+                </p>
+              </>
+            ) : (
+              <>
+                <p>仲介可能なオファーはありません</p>
+                <p className="text-sm text-gray-500 mt-2">
+                  同じNFTに対して、売値以上の買いオファーが出されるとここに表示されます
+                </p>
+              </>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,245 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { toast } from "sonner";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Loader } from "@/components/ui/loader";
+import { getClient } from "@/lib/xrpl/client";
+import { findWalletByAddress } from "@/lib/xrpl/wallet";
+import { NFTHistoryEvent, NFT_HISTORY_EVENT_LABELS, getAccountNFTHistory, getNFTHistory } from "@/lib/xrpl/history";
+import { getExplorerUrl } from "@/lib/xrpl/networks";
+import { formatAmount } from "@/lib/xrpl/amount";
+import { getWallets } from "@/lib/storage";
+import { useAppStore } from "@/lib/store";
+import { ComponentWithWallet } from "@/lib/types";
+
+// イベントの種類ごとのバッジの色
+const EVENT_BADGE_CLASSES: Record<NFTHistoryEvent["type"], string> = {
+  mint: "bg-blue-100 text-blue-800",
+  list: "bg-amber-100 text-amber-800",
+  bid: "bg-purple-100 text-purple-800",
+  sale: "bg-green-100 text-green-800",
+  transfer: "bg-teal-100 text-teal-800",
+  cancel: "bg-gray-100 text-gray-700",
+  burn: "bg-red-100 text-red-800",
+};
+
+// アドレスの表示名（レジストリ内のウォレットであれば名前を表示）
+function getAccountLabel(address: string): string {
+  const accountWallet = findWalletByAddress(getWallets(), address);
+  return accountWallet ? accountWallet.name : `${address.substring(0, 6)}...${address.substring(address.length - 4)}`;
+}
+
+// イベントの内容を説明する文章
+function describeEvent(event: NFTHistoryEvent): string {
+  const from = event.from ? getAccountLabel(event.from) : "";
+  const to = event.to ? getAccountLabel(event.to) : "";
+
+  switch (event.type) {
+    case "mint":
+      return event.from && event.from !== event.to ? `${to}が${from}の代理で発行` : `${to}が発行`;
+    case "list":
+      return event.to ? `${getAccountLabel(event.account)}が${to}宛てに出品` : `${getAccountLabel(event.account)}が出品`;
+    case "bid":
+      return `${getAccountLabel(event.account)}が買いオファーを作成`;
+    case "sale":
+    case "transfer": {
+      const broker = event.broker ? `（${getAccountLabel(event.broker)}が仲介）` : "";
+      return `${from} → ${to}${broker}`;
+    }
+    case "cancel":
+      return `${from}のオファーを${getAccountLabel(event.account)}が取り消し`;
+    case "burn":
+      return `${getAccountLabel(event.account)}が焼却`;
+  }
+}
+
+// 履歴の1行
+function HistoryEventRow({ event, showNFT = false }: { event: NFTHistoryEvent; showNFT?: boolean }) {
+  const { network } = useAppStore();
+
+  return (
+    <li className="flex items-start justify-between gap-3 py-2 border-b last:border-b-0">
+      <div className="min-w-0 space-y-1">
+        <div className="flex items-center gap-2">
+          <span className={`text-xs px-2 py-0.5 rounded-full ${EVENT_BADGE_CLASSES[event.type]}`}>
+            {NFT_HISTORY_EVENT_LABELS[event.type]}
+          </span>
+          {event.amount && <span className="text-sm font-medium">{formatAmount(event.amount)}</span>}
+        </div>
+        <p className="text-xs text-gray-600 truncate">{describeEvent(event)}</p>
+        {showNFT && (
+          <p className="text-xs text-gray-400 truncate">
+            NFT: <a href={getExplorerUrl(network, "nft", event.nftokenID)} target="_blank" rel="noopener noreferrer" className="hover:underline text-blue-500">{event.nftokenID.substring(0, 8)}...</a>
+          </p>
+        )}
+      </div>
+      <div className="text-right shrink-0">
+        <p className="text-xs text-gray-500">
+          {event.date ? new Date(event.date).toLocaleString("ja-JP") : `レジャー ${event.ledgerIndex}`}
+        </p>
+        <a href={getExplorerUrl(network, "transactions", event.hash)} target="_blank" rel="noopener noreferrer" className="text-xs hover:underline text-blue-500">
+          {event.hash.substring(0, 8)}...
+        </a>
+      </div>
+    </li>
+  );
+}
+
+interface NFTHistoryTimelineProps {
+  nftokenID: string;
+  // nft_historyに対応していないサーバーで履歴を集めるアカウント（現在の所有者など）
+  relatedAccounts?: string[];
+}
+
+// 1つのNFTの履歴（発行・出品・売買・譲渡・焼却）を古い順に表示するタイムライン
+export function NFTHistoryTimeline({ nftokenID, relatedAccounts = [] }: NFTHistoryTimelineProps) {
+  const [events, setEvents] = useState<NFTHistoryEvent[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [hasError, setHasError] = useState(false);
+  const relatedAccountsKey = relatedAccounts.join(",");
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchHistory = async () => {
+      try {
+        setIsLoading(true);
+        setHasError(false);
+        const client = await getClient();
+        const history = await getNFTHistory(client, nftokenID, relatedAccountsKey ? relatedAccountsKey.split(",") : []);
+        if (!cancelled) setEvents(history);
+      } catch (error) {
+        console.error("Failed to fetch NFT history:", error);
+        if (!cancelled) setHasError(true);
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+    fetchHistory();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [nftokenID, relatedAccountsKey]);
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-6">
+        <Loader size="sm" color="primary" />
+      </div>
+    );
+  }
+
+  if (hasError) {
+    return <p className="text-sm text-center text-gray-500 py-6">履歴を取得できませんでした</p>;
+  }
+
+  if (events.length === 0) {
+    return <p className="text-sm text-center text-gray-500 py-6">履歴はありません</p>;
+  }
+
+  return (
+    <ul className="max-h-96 overflow-y-auto">
+      {events.map((event) => (
+        <HistoryEventRow key={`${event.hash}:${event.offerID ?? ""}`} event={event} />
+      ))}
+    </ul>
+  );
+}
+
+// アクティブなウォレットのNFT関連の取引履歴を新しい順に表示するコンポーネント
+export function NFTActivity({ wallet }: ComponentWithWallet) {
+  const [events, setEvents] = useState<NFTHistoryEvent[]>([]);
+  const [marker, setMarker] = useState<unknown>(undefined);
+  const [isLoading, setIsLoading] = useState(false);
+  const [hasError, setHasError] = useState(false);
+
+  const { isLocked, isVaultLocked } = useAppStore();
+
+  // 履歴を取得する処理（nextMarkerを指定した場合は続きを追加で読み込む）
+  const fetchActivity = useCallback(async (nextMarker?: unknown) => {
+    if (!wallet || isLocked) return;
+
+    try {
+      setIsLoading(true);
+      setHasError(false);
+      const client = await getClient();
+      const page = await getAccountNFTHistory(client, wallet.classicAddress, nextMarker);
+      setEvents(prev => (nextMarker ? [...prev, ...page.events] : page.events));
+      setMarker(page.marker);
+    } catch (error) {
+      console.error("Failed to fetch NFT activity:", error);
+      toast.error("取引履歴の取得に失敗しました");
+      setHasError(true);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [wallet, isLocked]);
+
+  useEffect(() => {
+    if (wallet && !isLocked) {
+      fetchActivity();
+    } else {
+      setEvents([]);
+      setMarker(undefined);
+    }
+  }, [wallet, isLocked, fetchActivity]);
+
+  return (
+    <Card className="w-full">
+      <CardHeader>
+        <div className="flex justify-between items-center">
+          <div>
+            <CardTitle>取引履歴</CardTitle>
+            <CardDescription>アクティブなウォレットのNFTの発行・出品・売買・焼却の履歴</CardDescription>
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => fetchActivity()}
+            disabled={isLoading || !wallet || isLocked}
+          >
+            更新
+          </Button>
+        </div>
+      </CardHeader>
+
+      <CardContent>
+        {isLocked ? (
+          <div className="text-center py-8">
+            <p>{isVaultLocked ? "ウォレットがロックされています" : "ウォレット切り替え中..."}</p>
+          </div>
+        ) : !wallet ? (
+          <div className="text-center py-8">
+            <p>ウォレットを選択してください</p>
+          </div>
+        ) : events.length > 0 ? (
+          <ul>
+            {events.map((event) => (
+              <HistoryEventRow key={`${event.hash}:${event.offerID ?? ""}`} event={event} showNFT />
+            ))}
+          </ul>
+        ) : isLoading ? (
+          <div className="text-center py-8">
+            <p>履歴を取得中...</p>
+          </div>
+        ) : (
+          <div className="text-center py-8">
+            <p>{hasError ? "データの取得中にエラーが発生しました" : "NFTの取引履歴はありません"}</p>
+          </div>
+        )}
+
+        {/* 取得したページにNFT関連のトランザクションがなくても続きがあれば読み込めるようにする */}
+        {wallet && !isLocked && marker !== undefined && (
+          <div className="flex justify-center mt-4">
+            <Button variant="outline" size="sm" onClick={() => fetchActivity(marker)} disabled={isLoading}>
+              {isLoading ? "読み込み中..." : "さらに読み込む"}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,25 +1,38 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { toast } from "sonner";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardFooter } from "@/components/ui/card";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
 import { getClient } from "@/lib/xrpl/client";
-import { WalletState, WalletType } from "@/lib/xrpl/wallet";
-import { burnNFT, createNFTOffer, acceptNFTOffer } from "@/lib/xrpl/nft";
-import { xrpToDrops, dropsToXrp } from "xrpl";
-import { NFT, NFTMetadata, NFTOffer } from "@/lib/types";
+import { WalletState, findWalletByAddress } from "@/lib/xrpl/wallet";
+import { getWallets } from "@/lib/storage";
+import { burnNFT, createNFTOffer, acceptNFTOffer, OFFER_EXPIRED_MESSAGE } from "@/lib/xrpl/nft";
+import { getExplorerUrl } from "@/lib/xrpl/networks";
+import { XRP_CURRENCY, formatAmount, formatAmountValue, isXrpCurrency, toAmount } from "@/lib/xrpl/amount";
+import { ensureTrustLine } from "@/lib/xrpl/trustline";
+import { isOfferExpired, toOfferExpiration } from "@/lib/xrpl/expiration";
+import { useAppStore } from "@/lib/store";
+import { useIndexedMint } from "@/lib/nft-index";
+import { formatTraitValue, verifyImageIntegrity } from "@/lib/metadata";
+import { getDisplayMetadata, resolveNFTMetadata } from "@/lib/metadata-resolver";
+import { Amount, NFT, NFTMetadata, NFTOffer, OfferCurrency } from "@/lib/types";
 import { Loader } from "@/components/ui/loader";
+import { CurrencyPicker } from "./CurrencyPicker";
+import { OfferDurationPicker, OfferExpirationBadge } from "./OfferExpiration";
+import { NFTMediaPlayer } from "./NFTMediaPlayer";
+import { NFTHistoryTimeline } from "./NFTHistory";
 
 export interface NFTItemProps {
   nft: NFT;
   wallet: WalletState | null;
   onUpdate?: () => void;
   // 既存の売りオファー情報
-  offerAmount?: string;
+  offerAmount?: Amount;
   offerID?: string;
+  offerExpiration?: number;
   // またはNFTOffer型で渡すことも可能
   offer?: NFTOffer;
   // 自分の買いオファー情報
@@ -29,13 +42,23 @@ export interface NFTItemProps {
   disabled?: boolean;
 }
 
-export function NFTItem({ nft, wallet, onUpdate, offerAmount, offerID, offer, myBuyOffer, isOwnedList = false, disabled = false }: NFTItemProps) {
+export function NFTItem({ nft, wallet, onUpdate, offerAmount, offerID, offerExpiration, offer, myBuyOffer, isOwnedList = false, disabled = false }: NFTItemProps) {
   const [isLoading, setIsLoading] = useState(false);
+  const { network } = useAppStore();
   const [sellAmount, setSellAmount] = useState("");
+  const [sellCurrency, setSellCurrency] = useState<OfferCurrency>(XRP_CURRENCY);
+  const [buyCurrency, setBuyCurrency] = useState<OfferCurrency>(XRP_CURRENCY);
+  // オファーの有効期間（秒、0は無期限）
+  const [sellDuration, setSellDuration] = useState(0);
+  const [buyDuration, setBuyDuration] = useState(0);
   const [sellDialogOpen, setSellDialogOpen] = useState(false);
   const [metadata, setMetadata] = useState<NFTMetadata | null>(null);
   // 画像読み込みエラーを追跡する状態を追加
   const [imageError, setImageError] = useState(false);
+  // サムネイルの読み込みに失敗した場合は元画像を表示する
+  const [thumbnailError, setThumbnailError] = useState(false);
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [historyDialogOpen, setHistoryDialogOpen] = useState(false);
 
   // デバッグ出力
   useEffect(() => {
@@ -72,91 +95,27 @@ export function NFTItem({ nft, wallet, onUpdate, offerAmount, offerID, offer, my
   // offerオブジェクトから情報を抽出（優先的に使用）
   const effectiveOfferID = offer?.offerID || offerID;
   const effectiveOfferAmount = offer?.amount || offerAmount;
+  const effectiveOfferExpiration = offer?.expiration ?? offerExpiration;
   
-  // 売りオファーが存在するかどうかの判定
-  const hasSellOffer = !!effectiveOfferID && !!effectiveOfferAmount;
+  // 売りオファーが存在するかどうかの判定（期限切れのオファーは存在しないものとして扱う）
+  const hasSellOffer = !!effectiveOfferID && !!effectiveOfferAmount && !isOfferExpired(effectiveOfferExpiration);
+  const sellOfferAmount = hasSellOffer ? effectiveOfferAmount : undefined;
 
-  // XRPドロップス（6桁精度）から表示用のXRP金額に変換
-  const formatAmountFromDrops = (drops: string) => {
-    // xrpl.jsのdropsToXrp関数を使用して、文字列に変換してから不要な0を削除
-    return dropsToXrp(drops).toString().replace(/\.?0+$/, '');
-  };
-
-  const [buyAmount, setBuyAmount] = useState(effectiveOfferAmount ? formatAmountFromDrops(effectiveOfferAmount) : "");
+  const [buyAmount, setBuyAmount] = useState(sellOfferAmount ? formatAmountValue(sellOfferAmount) : "");
   const [buyDialogOpen, setBuyDialogOpen] = useState(false);
 
-  // URIからメタデータを解析
-  const getMetadata = () => {
-    try {
-      if (!nft.URI) return null;
-      
-      // 16進数URIをデコード
-      const hex = nft.URI;
-      let str = "";
-      for (let i = 0; i < hex.length; i += 2) {
-        str += String.fromCharCode(parseInt(hex.substr(i, 2), 16));
-      }
-      
-      // Vercel Blob URLの場合
-      if (str.includes('blob.vercel-storage.com')) {
-        return { url: str, isExternalUrl: true };
-      }
-      
-      // 相対パスURLかdata:URLかを確認
-      if (str.startsWith('/metadata/')) {
-        return { url: str, isLocalUrl: true };
-      }
-      
-      // data:URLからBase64部分を抽出
-      const base64Match = str.match(/^data:application\/json;base64,(.+)$/);
-      if (!base64Match) return null;
-      
-      // Base64デコード
-      const jsonStr = atob(base64Match[1]);
-      return JSON.parse(jsonStr);
-    } catch (error) {
-      console.error("Failed to parse NFT metadata:", error);
-      return null;
-    }
-  };
-
-  // メタデータの取得
+  // メタデータの取得（解決結果はキャッシュされ、マーケットプレイスやオファー一覧と共有する）
   useEffect(() => {
-    const metadata = getMetadata();
+    let cancelled = false;
     
-    // URLの場合、実際にフェッチする
-    if (metadata && (metadata.isLocalUrl || metadata.isExternalUrl)) {
-      const fetchData = async () => {
-        try {
-          const response = await fetch(metadata.url);
-          if (response.ok) {
-            const data = await response.json();
-            setMetadata(data);
-          } else {
-            console.error("メタデータの取得に失敗:", response.status);
-            setMetadata({
-              name: nft.NFTokenID.substring(0, 8) + '...',
-              description: 'メタデータを取得できませんでした',
-              image: null
-            });
-          }
-        } catch (error) {
-          console.error("メタデータのフェッチエラー:", error);
-          setMetadata({
-            name: nft.NFTokenID.substring(0, 8) + '...',
-            description: 'メタデータのフェッチエラー',
-            image: null
-          });
-        }
-      };
-      
-      fetchData();
-    } else {
-      // 直接パースされたメタデータの場合
-      setMetadata(metadata);
-    }
-    // nft.URIに依存し、nft.NFTokenIDは依存関係から除外
-  }, [nft.URI]);
+    resolveNFTMetadata(nft.URI).then((resolution) => {
+      if (!cancelled) setMetadata(getDisplayMetadata(nft.NFTokenID, resolution));
+    });
+    
+    return () => {
+      cancelled = true;
+    };
+  }, [nft.URI, nft.NFTokenID]);
 
   // NFTを売りに出す処理
   const handleSellNFT = async () => {
@@ -177,22 +136,35 @@ export function NFTItem({ nft, wallet, onUpdate, offerAmount, offerID, offer, my
       // 処理状態の保存は不要になったため削除
       setSellDialogOpen(false); // ダイアログを閉じる
       
+      // XRPはドロップスに、IOUは通貨コードをエンコードして金額を作成
+      const amount = toAmount(sellAmount, sellCurrency);
+      
       const client = await getClient();
       
+      // IOUで販売する場合は代金を受け取るためのトラストラインが必要
+      if (await ensureTrustLine(client, wallet, sellCurrency)) {
+        toast.info("代金を受け取るためのトラストラインを設定しました");
+      }
+      
       // オファー作成
       await createNFTOffer(
         client,
         wallet,
         nft.NFTokenID,
-        xrpToDrops(sellAmount), // XRPからドロップスに変換
-        true // 売りオファー
+        amount,
+        true, // 売りオファー
+        undefined, // destination
+        undefined, // owner
+        toOfferExpiration(sellDuration)
       );
       
       toast.success("NFTを売りに出しました");
       onUpdate?.(); // リストを更新して最新の売りオファー情報を反映
     } catch (error) {
       console.error("Failed to sell NFT:", error);
-      toast.error("NFTの出品に失敗しました");
+      toast.error(error instanceof Error && error.message.startsWith("通貨コード")
+        ? error.message
+        : "NFTの出品に失敗しました");
       // エラー時の処理状態解除も不要になったため削除
     } finally {
       setIsLoading(false);
@@ -264,14 +236,14 @@ export function NFTItem({ nft, wallet, onUpdate, offerAmount, offerID, offer, my
       });
       
       // 売りオファーが存在する場合
-      if (effectiveOfferID && effectiveOfferAmount) {
+      if (hasSellOffer && effectiveOfferID) {
         // オファーの承認（購入）
         const acceptResult = await acceptNFTOffer(client, wallet, effectiveOfferID);
         console.log("NFT購入結果:", acceptResult);
         toast.success("NFTを購入しました");
       } else {
         // 売りオファーがない場合は買いオファーを作成
-        const amount = xrpToDrops(buyAmount);
+        const amount = toAmount(buyAmount, buyCurrency);
         
         // 買いオファー作成
         const offerID = await createNFTOffer(
@@ -281,7 +253,8 @@ export function NFTItem({ nft, wallet, onUpdate, offerAmount, offerID, offer, my
           amount,
           false, // 買いオファー
           undefined, // destination
-          nft.Owner // 所有者アドレス
+          nft.Owner, // 所有者アドレス
+          toOfferExpiration(buyDuration)
         );
         
         console.log("買いオファー作成結果:", offerID);
@@ -308,17 +281,39 @@ export function NFTItem({ nft, wallet, onUpdate, offerAmount, offerID, offer, my
           errorMessage = "NFTの所有者情報が不足しています";
         } else if (error.message.includes("tecNO_ENTRY")) {
           errorMessage = "指定されたNFTが見つかりません";
-        } else if (error.message.includes("tecUNFUNDED")) {
+        } else if (error.message.includes("tecUNFUNDED") || error.message.includes("tecINSUFFICIENT_FUNDS")) {
           errorMessage = "残高が不足しています";
+        } else if (error.message.includes("tecNO_LINE") || error.message.includes("tecPATH_DRY")) {
+          errorMessage = "トークンのトラストラインまたは残高が不足しています";
+        } else if (error.message.startsWith("通貨コード")) {
+          errorMessage = error.message;
         }
       }
       
-      toast.error(effectiveOfferID ? "NFTの購入に失敗しました" : errorMessage);
+      if (error instanceof Error && error.message === OFFER_EXPIRED_MESSAGE) {
+        toast.error(error.message);
+        onUpdate?.(); // 期限切れのオファーを一覧から除外する
+      } else {
+        toast.error(hasSellOffer ? "NFTの購入に失敗しました" : errorMessage);
+      }
     } finally {
       setIsLoading(false);
     }
   };
 
+  // 発行者がレジストリ内のウォレットであればその情報を取得
+  const issuerWallet = useMemo(() => findWalletByAddress(getWallets(), nft.Issuer), [nft.Issuer]);
+  
+  // 代理発行されたNFTの場合は実際のミンターを取得（NFTokenMintの送信者が発行者と異なる場合）
+  const mint = useIndexedMint(nft.NFTokenID);
+  const minterAddress = mint && mint.minter !== nft.Issuer ? mint.minter : null;
+  
+  // アドレスの表示名（レジストリ内のウォレットであれば名前を表示）
+  const getAccountLabel = (address: string) => {
+    const accountWallet = findWalletByAddress(getWallets(), address);
+    return accountWallet ? accountWallet.name : `${address.substring(0, 6)}...${address.substring(address.length - 4)}`;
+  };
+
   // NFTの所有者がログイン中のウォレットかどうかを判定
   const isOwner = () => {
     if (!wallet) return false;
@@ -332,19 +327,59 @@ export function NFTItem({ nft, wallet, onUpdate, offerAmount, offerID, offer, my
     return nft.Issuer === wallet.classicAddress;
   };
 
+  // カードにはサムネイルを表示（サムネイルがない場合や読み込めない場合は元画像）
+  const isUsingThumbnail = !!metadata?.thumbnail && !thumbnailError;
+
+  // 元画像がメタデータに記録されたSHA-256と一致するか検証する処理
+  const handleVerifyImage = async () => {
+    if (!metadata?.image || !metadata.image_details) return;
+    
+    try {
+      setIsVerifying(true);
+      const isValid = await verifyImageIntegrity(metadata.image, metadata.image_details.sha256);
+      if (isValid) {
+        toast.success("画像はメタデータのハッシュと一致しています");
+      } else {
+        toast.error("画像がメタデータのハッシュと一致しません");
+      }
+    } catch (error) {
+      console.error("Failed to verify image:", error);
+      toast.error("画像の検証に失敗しました");
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
   return (
     <Card className="overflow-hidden h-full flex flex-col">
       <div className="aspect-square bg-gray-100 flex items-center justify-center overflow-hidden">
-        {metadata?.image && !imageError ? (
-          <img
-            src={metadata.image}
-            alt={metadata.name || "NFT"}
-            className="max-w-full max-h-full object-contain"
-            onError={() => {
-              console.error("Image loading error");
-              setImageError(true);
-            }}
+        {metadata?.animation ? (
+          <NFTMediaPlayer
+            metadata={metadata}
+            coverImage={isUsingThumbnail ? metadata.thumbnail : metadata.image}
           />
+        ) : metadata?.image && !imageError ? (
+          <a
+            href={metadata.preview || metadata.image}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="w-full h-full flex items-center justify-center"
+          >
+            <img
+              src={isUsingThumbnail ? metadata.thumbnail : metadata.image}
+              alt={metadata.name || "NFT"}
+              className="max-w-full max-h-full object-contain"
+              loading="lazy"
+              onError={() => {
+                console.error("Image loading error");
+                if (isUsingThumbnail) {
+                  setThumbnailError(true);
+                } else {
+                  setImageError(true);
+                }
+              }}
+            />
+          </a>
         ) : (
           <div className="text-gray-400 flex flex-col items-center justify-center">
             <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
@@ -365,12 +400,20 @@ export function NFTItem({ nft, wallet, onUpdate, offerAmount, offerID, offer, my
               発行者
             </span>
           )}
-          {wallet?.type === WalletType.CHARLIE && nft.Issuer === wallet.classicAddress && (
+          {issuerWallet && (
             <span className="ml-2 text-xs bg-purple-100 text-purple-800 px-2 py-0.5 rounded-full">
-              Charlie発行
+              {issuerWallet.name}発行
             </span>
           )}
         </h3>
+        {metadata?.collection?.name && (
+          <p className="text-xs text-gray-500 mt-1 truncate">{metadata.collection.name}</p>
+        )}
+        {minterAddress && (
+          <p className="text-xs text-gray-500 mt-1 truncate">
+            {getAccountLabel(minterAddress)}が{getAccountLabel(nft.Issuer)}の代理で発行
+          </p>
+        )}
         <p className="text-sm text-gray-500 line-clamp-2 mt-1 h-10">
           {metadata?.description || "説明なし"}
         </p>
@@ -391,9 +434,49 @@ export function NFTItem({ nft, wallet, onUpdate, offerAmount, offerID, offer, my
             </span>
           )}
         </div>
+        {metadata?.attributes && metadata.attributes.length > 0 && (
+          <div className="grid grid-cols-2 gap-1 mt-2">
+            {metadata.attributes.map((attribute) => (
+              <div key={attribute.trait_type} className="rounded border bg-gray-50 px-2 py-1 min-w-0">
+                <p className="text-[10px] text-gray-500 truncate">{attribute.trait_type}</p>
+                <p className="text-xs font-medium truncate">{formatTraitValue(attribute)}</p>
+              </div>
+            ))}
+          </div>
+        )}
         <p className="text-xs text-gray-400 mt-2 truncate">
-          ID: <a href={`https://testnet.xrpl.org/nft/${nft.NFTokenID}`} target="_blank" rel="noopener noreferrer" className="hover:underline text-blue-500">{nft.NFTokenID}</a>
+          ID: <a href={getExplorerUrl(network, "nft", nft.NFTokenID)} target="_blank" rel="noopener noreferrer" className="hover:underline text-blue-500">{nft.NFTokenID}</a>
         </p>
+        <Dialog open={historyDialogOpen} onOpenChange={setHistoryDialogOpen}>
+          <DialogTrigger asChild>
+            <button type="button" className="text-xs hover:underline text-blue-500 mt-1">
+              履歴を表示
+            </button>
+          </DialogTrigger>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>{metadata?.name || "NFT"}の履歴</DialogTitle>
+            </DialogHeader>
+            {historyDialogOpen && (
+              <NFTHistoryTimeline nftokenID={nft.NFTokenID} relatedAccounts={nft.Owner ? [nft.Owner] : []} />
+            )}
+          </DialogContent>
+        </Dialog>
+        {metadata?.image_details && (
+          <div className="flex items-center justify-between mt-1 text-xs text-gray-400">
+            <span>
+              {metadata.image_details.width}×{metadata.image_details.height} {metadata.image_details.mime_type}
+            </span>
+            <button
+              type="button"
+              className="hover:underline text-blue-500 disabled:opacity-50"
+              onClick={handleVerifyImage}
+              disabled={isVerifying}
+            >
+              {isVerifying ? "検証中..." : "画像を検証"}
+            </button>
+          </div>
+        )}
       </CardContent>
       
       <CardFooter className="p-4 pt-0 flex gap-2">
@@ -412,8 +495,16 @@ export function NFTItem({ nft, wallet, onUpdate, offerAmount, offerID, offer, my
               <div className="space-y-4 py-4">
                 <div className="space-y-2">
                   <label className="text-sm font-medium">
-                    販売価格 (XRP)
+                    販売価格
                   </label>
+                  {!isOnlyXRP && (
+                    <CurrencyPicker
+                      address={wallet?.classicAddress}
+                      value={sellCurrency}
+                      onChange={setSellCurrency}
+                      disabled={isLoading || disabled}
+                    />
+                  )}
                   <Input
                     type="number"
                     min="0.000001"
@@ -425,6 +516,7 @@ export function NFTItem({ nft, wallet, onUpdate, offerAmount, offerID, offer, my
                   />
                   <p className="text-xs text-gray-500 mt-1">
                     設定した価格でNFTが販売されます。
+                    {!isXrpCurrency(sellCurrency) && " トラストラインがない場合は自動的に設定されます。"}
                   </p>
                   {isOnlyXRP && (
                     <p className="text-xs text-amber-600 mt-1">
@@ -433,9 +525,11 @@ export function NFTItem({ nft, wallet, onUpdate, offerAmount, offerID, offer, my
                   )}
                 </div>
                 
+                <OfferDurationPicker value={sellDuration} onChange={setSellDuration} disabled={isLoading || disabled} />
+                
                 <Button 
                   onClick={handleSellNFT}
-                  disabled={isLoading || !sellAmount || disabled}
+                  disabled={isLoading || !sellAmount || disabled || (!isXrpCurrency(sellCurrency) && (!sellCurrency.currency || !sellCurrency.issuer))}
                   className="w-full bg-green-600 hover:bg-green-700"
                 >
                   {isLoading ? "処理中..." : "出品する"}
@@ -448,9 +542,12 @@ export function NFTItem({ nft, wallet, onUpdate, offerAmount, offerID, offer, my
         {/* 売却中の表示 - 実際の売りオファーの存在に基づいて表示 */}
         {isOwnedList && isOwner() && isTransferable && hasSellOffer && (
           <Button variant="outline" size="sm" className="flex-1 bg-amber-50 text-amber-800 border-amber-200" disabled={true}>
-            売却中... ({formatAmountFromDrops(effectiveOfferAmount)} XRP)
+            売却中... ({sellOfferAmount && formatAmount(sellOfferAmount)})
           </Button>
         )}
+        {isOwnedList && isOwner() && isTransferable && hasSellOffer && (
+          <OfferExpirationBadge expiration={effectiveOfferExpiration} />
+        )}
         
         {/* 転送不可のNFTの場合に表示 */}
         {isOwnedList && isOwner() && !isTransferable && (
@@ -477,7 +574,7 @@ export function NFTItem({ nft, wallet, onUpdate, offerAmount, offerID, offer, my
                     </span>
                   ) : myBuyOffer ? (
                     "オファー済み"
-                  ) : effectiveOfferAmount ? (
+                  ) : sellOfferAmount ? (
                     "購入する"
                   ) : (
                     "買いオファー"
@@ -486,28 +583,37 @@ export function NFTItem({ nft, wallet, onUpdate, offerAmount, offerID, offer, my
               </DialogTrigger>
               <DialogContent>
                 <DialogHeader>
-                  <DialogTitle>{effectiveOfferAmount ? "NFTを購入" : "NFTの買いオファーを作成"}</DialogTitle>
+                  <DialogTitle>{sellOfferAmount ? "NFTを購入" : "NFTの買いオファーを作成"}</DialogTitle>
                 </DialogHeader>
                 <div className="space-y-4 py-4">
                   {myBuyOffer ? (
                     // 既に自分の買いオファーが存在する場合
                     <div className="space-y-2 text-center">
                       <p className="font-medium">このNFTには既に買いオファーを出しています</p>
-                      <p className="text-sm text-gray-500">金額: {formatAmountFromDrops(myBuyOffer.amount)} XRP</p>
+                      <p className="text-sm text-gray-500">金額: {formatAmount(myBuyOffer.amount)}</p>
                       <p className="text-xs text-gray-400">オファーID: {myBuyOffer.offerID.substring(0, 8)}...</p>
                     </div>
-                  ) : effectiveOfferAmount ? (
+                  ) : sellOfferAmount ? (
                     // 既存の売りオファーがある場合
                     <div className="space-y-2 text-center">
-                      <p className="font-medium">このNFTは{formatAmountFromDrops(effectiveOfferAmount)} XRPで販売中です</p>
+                      <p className="font-medium">このNFTは{formatAmount(sellOfferAmount)}で販売中です</p>
                       <p className="text-sm text-gray-500">この価格で購入しますか？</p>
+                      <OfferExpirationBadge expiration={effectiveOfferExpiration} />
                     </div>
                   ) : (
                     // 売りオファーがない場合は価格を入力
                     <div className="space-y-2">
                       <label className="text-sm font-medium">
-                        希望購入価格 (XRP)
+                        希望購入価格
                       </label>
+                      {!isOnlyXRP && (
+                        <CurrencyPicker
+                          address={wallet?.classicAddress}
+                          value={buyCurrency}
+                          onChange={setBuyCurrency}
+                          disabled={isLoading || disabled}
+                        />
+                      )}
                       <Input
                         type="number"
                         min="0.000001"
@@ -527,25 +633,26 @@ export function NFTItem({ nft, wallet, onUpdate, offerAmount, offerID, offer, my
                       )}
                       <p className="text-xs text-amber-700 mt-1">
                         所有者: {nft.Owner ? (
-                          <a href={`https://testnet.xrpl.org/accounts/${nft.Owner}`} target="_blank" rel="noopener noreferrer" className="hover:underline text-blue-500">
+                          <a href={getExplorerUrl(network, "accounts", nft.Owner)} target="_blank" rel="noopener noreferrer" className="hover:underline text-blue-500">
                             {nft.Owner.substring(0, 6) + '...' + nft.Owner.substring(nft.Owner.length - 4)}
                           </a>
                         ) : '不明'}
                       </p>
+                      <OfferDurationPicker value={buyDuration} onChange={setBuyDuration} disabled={isLoading || disabled} />
                     </div>
                   )}
                   
                   <Button 
                     onClick={handleBuyNFT}
-                    disabled={isLoading || disabled || (!effectiveOfferAmount && (!buyAmount || parseFloat(buyAmount) <= 0)) || myBuyOffer !== undefined}
-                    className={`w-full ${effectiveOfferAmount ? "bg-green-600 hover:bg-green-700" : ""}`}
+                    disabled={isLoading || disabled || (!sellOfferAmount && (!buyAmount || parseFloat(buyAmount) <= 0 || (!isXrpCurrency(buyCurrency) && (!buyCurrency.currency || !buyCurrency.issuer)))) || myBuyOffer !== undefined}
+                    className={`w-full ${sellOfferAmount ? "bg-green-600 hover:bg-green-700" : ""}`}
                   >
                     {isLoading ? (
                       <span className="flex items-center justify-center gap-2">
                         <Loader size="sm" color="white" />
                         処理中...
                       </span>
-                    ) : myBuyOffer ? "オファー済み" : effectiveOfferAmount ? "購入する" : "買いオファーを作成"}
+                    ) : myBuyOffer ? "オファー済み" : sellOfferAmount ? "購入する" : "買いオファーを作成"}
                   </Button>
                 </div>
               </DialogContent>
@@ -1,120 +1,85 @@
 "use client";
 
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useMemo } from "react";
 import { toast } from "sonner";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { getClient } from "@/lib/xrpl/client";
-import { getAccountNFTs } from "@/lib/xrpl/nft";
+import { Pagination, usePagination } from "@/components/ui/pagination";
 import { NFTItem } from "./NFTItem";
-import { NFT, ComponentWithWallet } from "@/lib/types";
+import { ALL_COLLECTIONS, CollectionFilter } from "./Collection";
+import { BulkNFTActions } from "./BulkNFTActions";
+import { groupByCollection } from "@/lib/xrpl/collection";
+import { ComponentWithWallet } from "@/lib/types";
 import { useAppStore } from "@/lib/store";
+import { useIndexedAccountNFTs } from "@/lib/nft-index";
 
 interface NFTListProps extends ComponentWithWallet {}
 
 export function NFTList({ wallet }: NFTListProps) {
-  const [nfts, setNfts] = useState<NFT[]>([]);
-  const [isLoading, setIsLoading] = useState(false);
-  const [hasError, setHasError] = useState(false);
+  // 表示するコレクション
+  const [selectedCollection, setSelectedCollection] = useState(ALL_COLLECTIONS);
+  // まとめて出品・取り消しするパネルの表示
+  const [isBulkMode, setIsBulkMode] = useState(false);
   
   // グローバルステートを使用
-  const { isLocked } = useAppStore();
+  const { isLocked, isVaultLocked } = useAppStore();
 
-  // NFTを取得する処理 - useCallbackでメモ化
-  const fetchNFTs = useCallback(async () => {
-    if (!wallet || isLocked) return;
-    
-    setIsLoading(true);
-    setHasError(false);
-    
-    try {
-      const client = await getClient();
-      const accountNfts = await getAccountNFTs(client, wallet.classicAddress);
-      console.log(accountNfts);
-      
-      // 各NFTにオーナー情報を追加
-      const nftsWithOwner = accountNfts.map(nft => ({
-        ...nft,
-        Owner: wallet.classicAddress // 現在のウォレットが所有者
-      }));
-      
-      setNfts(nftsWithOwner);
-      setHasError(false);
-    } catch (error) {
-      console.error("Failed to fetch NFTs:", error);
-      toast.error("NFTの取得に失敗しました");
-      setNfts([]);
-      setHasError(true);
-    } finally {
-      setIsLoading(false);
-    }
-  }, [wallet, isLocked]); // 依存配列を追加
+  // 所有NFTはインデックスから読み込む（他のウォレットでの購入・譲渡なども購読により反映される）
+  const address = wallet?.classicAddress;
+  const { nfts, isLoading, isRefreshing, hasError, refresh } = useIndexedAccountNFTs(
+    address ? [address] : [],
+    !!wallet && !isLocked
+  );
 
-  // ウォレットが変更されたら、NFTを再取得
-  useEffect(() => {
-    if (wallet && !isLocked) {
-      fetchNFTs();
-    } else {
-      setNfts([]);
-      setHasError(false);
-    }
-  }, [wallet, isLocked, fetchNFTs]);
+  // NFTを取得し直す処理
+  const refreshNFTs = useCallback(() => {
+    refresh().catch(() => {
+      toast.error("NFTの取得に失敗しました");
+    });
+  }, [refresh]);
 
-  // ウォレットリセットイベントをリッスン
+  // ウォレットリセット・NFT発行イベントを監視して自動的にリスト更新
   useEffect(() => {
-    const handleWalletReset = () => {
-      console.log("ウォレットリセットイベントを受信: 所有NFTリストを更新します");
-      if (wallet && !isLocked) {
-        fetchNFTs();
-      }
+    const handleRefreshEvent = () => {
+      if (isLocked) return; // ロック中は更新しない
+      console.log("イベントを受信: 所有NFTリストを更新します");
+      refreshNFTs();
     };
 
-    window.addEventListener('wallet-reset', handleWalletReset);
+    window.addEventListener('wallet-reset', handleRefreshEvent);
+    window.addEventListener('nft-minted', handleRefreshEvent);
     
     // クリーンアップ
     return () => {
-      window.removeEventListener('wallet-reset', handleWalletReset);
-    };
-  }, [wallet, isLocked, fetchNFTs]);
-
-  // ウォレット変更イベントをリッスン
-  useEffect(() => {
-    const handleWalletChanged = () => {
-      console.log("ウォレット変更イベントを受信: 所有NFTリストを更新します");
-      if (wallet && !isLocked) {
-        // 少し遅延を入れてからフェッチを実行（他のコンポーネントの処理と衝突を避ける）
-        setTimeout(() => {
-          console.log("遅延後にNFTリストを更新します");
-          fetchNFTs();
-        }, 2000); // 2秒の遅延
-      }
+      window.removeEventListener('wallet-reset', handleRefreshEvent);
+      window.removeEventListener('nft-minted', handleRefreshEvent);
     };
+  }, [isLocked, refreshNFTs]);
 
-    window.addEventListener('wallet-changed', handleWalletChanged);
-    
-    // クリーンアップ
-    return () => {
-      window.removeEventListener('wallet-changed', handleWalletChanged);
-    };
-  }, [wallet, isLocked, fetchNFTs]);
+  // 発行者とタクソンでコレクションごとにグループ化
+  const collectionGroups = useMemo(() => groupByCollection(nfts), [nfts]);
+  
+  // 選択中のコレクションが存在しなくなった場合はすべて表示
+  const visibleGroups = selectedCollection === ALL_COLLECTIONS
+    ? collectionGroups
+    : collectionGroups.filter(group => group.key === selectedCollection);
+  const displayedGroups = visibleGroups.length > 0 ? visibleGroups : collectionGroups;
+  const displayedNFTs = useMemo(() => displayedGroups.flatMap(group => group.items), [displayedGroups]);
 
-  // NFT発行イベントを監視して自動的にリスト更新
-  useEffect(() => {
-    // NFT発行完了イベントをリッスン
-    const handleNFTMinted = () => {
-      if (isLocked) return; // ロック中は更新しない
-      
-      console.log("NFT発行イベントを受信: 所有NFTリストを更新します");
-      fetchNFTs();
-    };
+  // 数千件のNFTを所有するウォレットでも表示が重くならないようにページに分けて表示
+  const { page, pageCount, pageItems, setPage } = usePagination(displayedNFTs);
+  const pageGroups = useMemo(() => {
+    const pageIDs = new Set(pageItems.map(nft => nft.NFTokenID));
+    return displayedGroups
+      .map(group => ({ ...group, pageItems: group.items.filter(nft => pageIDs.has(nft.NFTokenID)) }))
+      .filter(group => group.pageItems.length > 0);
+  }, [displayedGroups, pageItems]);
 
-    window.addEventListener('nft-minted', handleNFTMinted);
-    
-    // クリーンアップ
-    return () => {
-      window.removeEventListener('nft-minted', handleNFTMinted);
-    };
-  }, [wallet, isLocked, fetchNFTs]); // walletが変わったらリスナーを再設定
+  // コレクションを切り替えたら最初のページに戻る
+  const handleCollectionChange = (collection: string) => {
+    setSelectedCollection(collection);
+    setPage(0);
+  };
 
   return (
     <Card className="w-full">
@@ -124,14 +89,32 @@ export function NFTList({ wallet }: NFTListProps) {
             <CardTitle>保有NFT</CardTitle>
             <CardDescription>所有するNFTを販売することができます</CardDescription>
           </div>
-          <Button
-            variant="outline"
-            size="sm"
-            onClick={fetchNFTs}
-            disabled={isLoading || !wallet || isLocked}
-          >
-            更新
-          </Button>
+          <div className="flex items-center gap-2">
+            {collectionGroups.length > 1 && (
+              <CollectionFilter
+                groups={collectionGroups}
+                value={selectedCollection}
+                onChange={handleCollectionChange}
+                disabled={isLoading || isLocked}
+              />
+            )}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setIsBulkMode(!isBulkMode)}
+              disabled={isLoading || !wallet || isLocked || nfts.length === 0}
+            >
+              {isBulkMode ? "まとめて操作を閉じる" : "まとめて操作"}
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={refreshNFTs}
+              disabled={isLoading || isRefreshing || !wallet || isLocked}
+            >
+              更新
+            </Button>
+          </div>
         </div>
       </CardHeader>
       
@@ -142,23 +125,47 @@ export function NFTList({ wallet }: NFTListProps) {
           </div>
         ) : isLocked ? (
           <div className="text-center py-8">
-            <p>ウォレット切り替え中...</p>
+            <p>{isVaultLocked ? "ウォレットがロックされています" : "ウォレット切り替え中..."}</p>
             <p className="text-sm text-gray-500 mt-2">
-              処理が完了するまでお待ちください
+              {isVaultLocked ? "パスフレーズでロックを解除してください" : "処理が完了するまでお待ちください"}
             </p>
           </div>
         ) : nfts.length > 0 ? (
-          <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
-            {nfts.map((nft) => (
-              <NFTItem 
-                key={nft.NFTokenID} 
-                nft={nft} 
-                wallet={wallet} 
-                onUpdate={fetchNFTs} 
-                isOwnedList={true}
-                disabled={isLocked} 
+          <div className="space-y-6">
+            {isBulkMode && wallet && (
+              <BulkNFTActions
+                wallet={wallet}
+                nfts={displayedNFTs}
+                onUpdate={refreshNFTs}
+                disabled={isLocked}
               />
+            )}
+            {pageGroups.map((group) => (
+              <div key={group.key}>
+                <h3 className="text-sm font-medium text-gray-700 mb-2">
+                  {group.name}
+                  <span className="ml-2 text-xs text-gray-400">{group.items.length}件</span>
+                </h3>
+                <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
+                  {group.pageItems.map((nft) => (
+                    <NFTItem 
+                      key={nft.NFTokenID} 
+                      nft={nft} 
+                      wallet={wallet} 
+                      onUpdate={refreshNFTs} 
+                      isOwnedList={true}
+                      disabled={isLocked} 
+                    />
+                  ))}
+                </div>
+              </div>
             ))}
+            <Pagination
+              page={page}
+              pageCount={pageCount}
+              totalCount={displayedNFTs.length}
+              onPageChange={setPage}
+            />
           </div>
         ) : (
           <div className="text-center py-8">
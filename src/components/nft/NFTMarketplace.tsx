@@ -1,17 +1,41 @@
 "use client";
 
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useMemo } from "react";
 import { toast } from "sonner";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { getClient } from "@/lib/xrpl/client";
-import { WalletState, WalletType } from "@/lib/xrpl/wallet";
-import { getAccountNFTs, getAllNFTOffers } from "@/lib/xrpl/nft";
-import { getWallets } from "@/lib/storage";
+import { Pagination, usePagination } from "@/components/ui/pagination";
+import { WalletRegistry, WalletState, findWalletByAddress } from "@/lib/xrpl/wallet";
+import { getWallets, getWatchlist } from "@/lib/storage";
+import { getWatchedAddresses } from "@/lib/watchlist";
 import { NFTItem } from "./NFTItem";
 import { useAppStore } from "@/lib/store";
-import { NFTOffer } from "@/lib/types";
-import { dropsToXrp } from "xrpl";
+import {
+  useIndexedAccountNFTs,
+  useIndexedIssuerNFTs,
+  useIndexedMetadata,
+  useIndexedMintLedgers,
+  useIndexedNFTOffers,
+  useIndexedOfferLedgers,
+} from "@/lib/nft-index";
+import { getExplorerUrl } from "@/lib/xrpl/networks";
+import { XRP_CURRENCY, compareAmounts, encodeCurrencyKey, formatAmount, formatCurrency, getAmountCurrency } from "@/lib/xrpl/amount";
+import { isOfferExpired } from "@/lib/xrpl/expiration";
+import { OfferExpirationBadge } from "./OfferExpiration";
+import { ALL_COLLECTIONS, CollectionFilter, CollectionSummary } from "./Collection";
+import { groupByCollection } from "@/lib/xrpl/collection";
+import { ALL_TRAITS, TraitFilter } from "./TraitFilter";
+import { getTraitOptions } from "@/lib/metadata";
+import { MarketplaceFilterBar } from "./MarketplaceFilters";
+import {
+  DEFAULT_MARKETPLACE_FILTERS,
+  MarketplaceFilters,
+  filterMarketItems,
+  readMarketplaceFilters,
+  sortMarketItems,
+  writeMarketplaceFilters,
+} from "@/lib/marketplace-filter";
+import { Amount, NFT, NFTOffer, WatchedAccount } from "@/lib/types";
 
 interface NFTMarketplaceProps {
   wallet: WalletState | null;
@@ -23,194 +47,156 @@ interface NFTForSale {
   Owner: string;
   URI?: string;
   Flags?: number;
-  offerAmount: string;
+  TransferFee?: number;
+  NFTokenTaxon?: number;
+  offerAmount?: Amount;
   offerID: string;
-  walletType?: WalletType;
-  metadata?: {
-    name: string;
-    description: string;
-    image: string;
-    [key: string]: any;
-  };
+  offerExpiration?: number;
+  walletName?: string;
 }
 
 export function NFTMarketplace({ wallet }: NFTMarketplaceProps) {
-  const [marketItems, setMarketItems] = useState<NFTForSale[]>([]);
-  const [isLoading, setIsLoading] = useState(false);
-  const [hasError, setHasError] = useState(false);
-  // 自分の買いオファーを保持する状態
-  const [myBuyOffers, setMyBuyOffers] = useState<{[key: string]: NFTOffer}>({});
+  // 検索・絞り込み・並べ替えの条件（URLのクエリパラメーターと同期する）
+  const [filters, setFilters] = useState<MarketplaceFilters>(DEFAULT_MARKETPLACE_FILTERS);
+  // レジストリ内のウォレット（ウォレットの追加・削除を反映する）
+  const [registry, setRegistry] = useState<WalletRegistry | null>(null);
+  // ウォッチリストのアカウント・発行者（アプリ外のアカウントのNFTも表示する）
+  const [watchlist, setWatchlist] = useState<WatchedAccount[]>([]);
   
   // グローバルステートを使用
-  const { isLocked } = useAppStore();
+  const { isLocked, isVaultLocked, network } = useAppStore();
 
-  // 販売中のNFTを取得する処理
-  // useCallbackを使用して関数をメモ化
-  const fetchMarketItems = useCallback(async () => {
-    if (!wallet || isLocked) return;
-    
-    setIsLoading(true);
-    setHasError(false);
+  useEffect(() => {
+    const handleWalletsUpdated = () => {
+      setRegistry(getWallets());
+    };
+    handleWalletsUpdated();
+
+    window.addEventListener('wallets-updated', handleWalletsUpdated);
     
-    try {
-      // ローカルストレージからすべてのウォレット情報を取得
-      const storedWallets = getWallets();
-      if (!storedWallets) {
-        toast.error("ウォレット情報が見つかりません");
-        setIsLoading(false);
-        setHasError(true);
-        return;
-      }
-      
-      // XRPLクライアントを取得
-      const client = await getClient();
-      
-      // すべてのテストアカウント（自分以外）のNFTを取得
-      const allWalletTypes = Object.values(WalletType).filter(type => type !== wallet.type);
-      
-      // 各アカウントのNFTを取得（並列処理）
-      const otherAccountsNfts = await Promise.all(
-        allWalletTypes.map(async (walletType) => {
-          const accountWallet = storedWallets[walletType];
-          if (!accountWallet) return [];
-          
-          try {
-            console.log(`Fetching NFTs for ${walletType} (${accountWallet.classicAddress})`);
-            const nfts = await getAccountNFTs(client, accountWallet.classicAddress);
+    // クリーンアップ
+    return () => {
+      window.removeEventListener('wallets-updated', handleWalletsUpdated);
+    };
+  }, [wallet]);
 
-            console.log(nfts);
-            
-            // 各NFTに対して実際のオファー情報とメタデータを取得
-            const nftsWithOffers = await Promise.all(
-              nfts.map(async (nft) => {
-                try {
-                  // オファー情報を取得
-                  const { sellOffers } = await getAllNFTOffers(client, nft.NFTokenID);
-                  
-                  // メタデータを解析
-                  const metadata = parseMetadata(nft.URI);
+  useEffect(() => {
+    const handleWatchlistUpdated = () => {
+      setWatchlist(getWatchlist());
+    };
+    handleWatchlistUpdated();
 
-                  console.log(metadata);
-                  
-                  // 最も安い有効なオファーを検索
-                  const validOffer = sellOffers && sellOffers.length > 0 
-                    ? sellOffers.sort((a, b) => parseInt(a.amount) - parseInt(b.amount))[0] 
-                    : null;
-                  
-                  return {
-                    ...nft,
-                    walletType,
-                    ownerAddress: accountWallet.classicAddress,
-                    offerAmount: validOffer ? validOffer.amount : "",
-                    offerID: validOffer ? validOffer.nft_offer_index : "",
-                    hasValidOffer: !!validOffer,
-                    metadata
-                  };
-                } catch (error) {
-                  console.error(`Failed to get offer info for NFT ${nft.NFTokenID}:`, error);
-                  return null;
-                }
-              })
-            );
-            
-            // nullを除外
-            return nftsWithOffers.filter(nft => nft !== null);
-          } catch (error) {
-            console.error(`Failed to fetch NFTs for ${walletType}:`, error);
-            return [];
-          }
-        })
-      );
-      
-      // 結果を平坦化して1つの配列にする
-      const combinedNfts = otherAccountsNfts.flat();
-      console.log(`合計 ${combinedNfts.length} 個のNFTを取得しました`);
-      
-      // NFTForSale形式に変換
-      const marketItems: NFTForSale[] = combinedNfts.map(nft => ({
+    window.addEventListener('watchlist-updated', handleWatchlistUpdated);
+
+    // クリーンアップ
+    return () => {
+      window.removeEventListener('watchlist-updated', handleWatchlistUpdated);
+    };
+  }, []);
+
+  // レジストリ内とウォッチリストのすべてのアカウント（自分以外）
+  const otherAddresses = useMemo(() => {
+    const registryAddresses = registry ? Object.values(registry).map(accountWallet => accountWallet.classicAddress) : [];
+    return Array.from(new Set([...registryAddresses, ...getWatchedAddresses(watchlist, "account")]))
+      .filter(address => address !== wallet?.classicAddress);
+  }, [registry, watchlist, wallet]);
+  const watchedIssuers = useMemo(() => getWatchedAddresses(watchlist, "issuer"), [watchlist]);
+
+  // NFT・オファー・メタデータはインデックスから読み込む（他のウォレットでの出品・購入なども購読により反映される）
+  const enabled = !!wallet && !isLocked;
+  const {
+    nfts: accountNFTs,
+    isLoading: isLoadingAccounts,
+    isRefreshing: isRefreshingAccounts,
+    hasError: hasAccountError,
+    refresh: refreshAccountNFTs,
+  } = useIndexedAccountNFTs(otherAddresses, enabled);
+  const {
+    nfts: issuerNFTs,
+    isLoading: isLoadingIssuers,
+    isRefreshing: isRefreshingIssuers,
+    hasError: hasIssuerError,
+    refresh: refreshIssuerNFTs,
+  } = useIndexedIssuerNFTs(watchedIssuers, enabled);
+  const isLoading = isLoadingAccounts || isLoadingIssuers;
+  const hasError = hasAccountError || hasIssuerError;
+
+  // アカウントと発行者の両方から取得したNFTは1つにまとめ、自分が所有するNFTは除く
+  const nfts = useMemo(() => {
+    const merged = new Map<string, NFT>();
+    for (const nft of [...accountNFTs, ...issuerNFTs]) {
+      if (nft.Owner !== wallet?.classicAddress) merged.set(nft.NFTokenID, nft);
+    }
+    return Array.from(merged.values());
+  }, [accountNFTs, issuerNFTs, wallet]);
+  const nftIDs = useMemo(() => nfts.map(nft => nft.NFTokenID), [nfts]);
+  const { offers, isRefreshing: isRefreshingOffers, refresh: refreshOffers } = useIndexedNFTOffers(nftIDs, enabled);
+  const metadataByNFT = useIndexedMetadata(nftIDs);
+  // 出品が新しい順の並べ替えに使用するオファーの作成レジャー（出品者ごとに取得）
+  const sellerAddresses = useMemo(
+    () => Array.from(new Set(offers.filter(offer => offer.isSellOffer).map(offer => offer.owner))),
+    [offers]
+  );
+  const offerLedgers = useIndexedOfferLedgers(sellerAddresses, enabled);
+  // 発行が新しい順の並べ替えに使用する発行レジャー（発行者の履歴から取得するため、並べ替えを選んだ場合のみ取得する）
+  const issuerAddresses = useMemo(() => Array.from(new Set(nfts.map(nft => nft.Issuer))), [nfts]);
+  const mintLedgers = useIndexedMintLedgers(issuerAddresses, enabled && filters.sort === "recently_minted");
+
+  // NFTごとに最も安い有効な売りオファーを組み合わせて販売アイテムにする
+  const marketItems = useMemo<NFTForSale[]>(() => {
+    const bestOffers = new Map<string, NFTOffer>();
+    for (const offer of offers) {
+      // 期限切れのオファーは除外
+      if (!offer.isSellOffer || isOfferExpired(offer.expiration)) continue;
+      const current = bestOffers.get(offer.nftokenID);
+      if (!current || compareAmounts(offer.amount, current.amount) < 0) {
+        bestOffers.set(offer.nftokenID, offer);
+      }
+    }
+
+    return nfts.map((nft) => {
+      const validOffer = bestOffers.get(nft.NFTokenID);
+      return {
         NFTokenID: nft.NFTokenID,
         Issuer: nft.Issuer,
-        Owner: nft.ownerAddress,
+        Owner: nft.Owner ?? "",
         URI: nft.URI,
         Flags: nft.Flags,
-        offerAmount: nft.offerAmount,
-        offerID: nft.offerID,
-        walletType: nft.walletType,
-        metadata: nft.metadata
-      }));
-      
-      // 自分の買いオファー情報を取得
-      try {
-        // 現在のウォレットの買いオファーを取得
-        const myOffers = await client.request({
-          command: "account_nfts",
-          account: wallet.classicAddress,
-          ledger_index: "validated"
-        });
-        
-        console.log("自分のNFT情報:", myOffers);
-        
-        // 各NFTの買いオファー情報を取得
-        const myBuyOffersMap: {[key: string]: NFTOffer} = {};
-        
-        // マーケットプレイスの各NFTに対して自分の買いオファーを確認
-        await Promise.all(marketItems.map(async (nft) => {
-          try {
-            const { buyOffers } = await getAllNFTOffers(client, nft.NFTokenID);
-            
-            // 自分が作成した買いオファーを検索
-            const myOffer = buyOffers.find(offer => offer.owner === wallet.classicAddress);
-            
-            if (myOffer) {
-              console.log(`NFT ${nft.NFTokenID} に対する自分の買いオファーを発見:`, myOffer);
-              myBuyOffersMap[nft.NFTokenID] = {
-                offerID: myOffer.nft_offer_index,
-                amount: myOffer.amount,
-                owner: myOffer.owner,
-                isSellOffer: false,
-                nftokenID: nft.NFTokenID
-              };
-            }
-          } catch (error) {
-            console.error(`NFT ${nft.NFTokenID} の買いオファー取得エラー:`, error);
-          }
-        }));
-        
-        // 買いオファー情報を更新
-        setMyBuyOffers(myBuyOffersMap);
-        console.log("自分の買いオファー情報を更新:", myBuyOffersMap);
-      } catch (error) {
-        console.error("自分の買いオファー情報の取得に失敗:", error);
-      }
-      
-      setMarketItems(marketItems);
-      setHasError(false);
-    } catch (error) {
-      console.error("マーケットアイテムの取得に失敗:", error);
-      toast.error("販売中のNFT情報の取得に失敗しました");
-      setMarketItems([]);
-      setHasError(true);
-    } finally {
-      setIsLoading(false);
-    }
-  }, [wallet, isLocked]); // 依存配列を追加
+        TransferFee: nft.TransferFee,
+        NFTokenTaxon: nft.NFTokenTaxon,
+        offerAmount: validOffer ? validOffer.amount : undefined,
+        offerID: validOffer ? validOffer.offerID : "",
+        offerExpiration: validOffer ? validOffer.expiration : undefined,
+        walletName: findWalletByAddress(registry, nft.Owner)?.name
+          ?? watchlist.find(item => item.address === nft.Owner && item.label)?.label,
+      };
+    });
+  }, [nfts, offers, registry, watchlist]);
 
-  // ウォレットが変更されたら、マーケットアイテムを再取得
-  useEffect(() => {
-    if (wallet && !isLocked) {
-      fetchMarketItems();
-    } else {
-      setMarketItems([]);
-      setHasError(false);
+  // 自分が作成した期限切れでない買いオファー（NFTごと）
+  const myBuyOffers = useMemo(() => {
+    const offersByNFT: {[key: string]: NFTOffer} = {};
+    for (const offer of offers) {
+      if (offer.isSellOffer || offer.owner !== wallet?.classicAddress || isOfferExpired(offer.expiration)) continue;
+      offersByNFT[offer.nftokenID] ??= offer;
     }
-  }, [wallet, isLocked, fetchMarketItems]);
+    return offersByNFT;
+  }, [offers, wallet]);
+
+  // 販売中のNFTとオファーを取得し直す処理
+  const refreshMarketItems = useCallback(() => {
+    Promise.all([refreshAccountNFTs(), refreshIssuerNFTs(), refreshOffers()]).catch(() => {
+      toast.error("販売中のNFT情報の取得に失敗しました");
+    });
+  }, [refreshAccountNFTs, refreshIssuerNFTs, refreshOffers]);
+  const isRefreshing = isRefreshingAccounts || isRefreshingIssuers || isRefreshingOffers;
 
   // ウォレットリセットイベントをリッスン
   useEffect(() => {
     const handleWalletReset = () => {
       console.log("ウォレットリセットイベントを受信: マーケットリストを更新します");
       if (wallet && !isLocked) {
-        fetchMarketItems();
+        refreshMarketItems();
       }
     };
 
@@ -220,111 +206,68 @@ export function NFTMarketplace({ wallet }: NFTMarketplaceProps) {
     return () => {
       window.removeEventListener('wallet-reset', handleWalletReset);
     };
-  }, [wallet, isLocked, fetchMarketItems]);
+  }, [wallet, isLocked, refreshMarketItems]);
 
-  // ウォレット変更イベントをリッスン
+  // 共有されたURLの条件を読み込む（サーバーでの描画と一致させるためマウント後に読み込む）
   useEffect(() => {
-    const handleWalletChanged = () => {
-      console.log("ウォレット変更イベントを受信: マーケットリストを更新します");
-      if (wallet && !isLocked) {
-        fetchMarketItems();
-      }
-    };
+    setFilters(readMarketplaceFilters());
+  }, []);
 
-    window.addEventListener('wallet-changed', handleWalletChanged);
-    
-    // クリーンアップ
-    return () => {
-      window.removeEventListener('wallet-changed', handleWalletChanged);
-    };
-  }, [wallet, isLocked, fetchMarketItems]);
+  // 発行者とタクソンでコレクションごとにグループ化
+  const collectionGroups = useMemo(() => groupByCollection(marketItems), [marketItems]);
+  const selectedGroup = collectionGroups.find(group => group.key === filters.collection);
+  const collectionItems = selectedGroup ? selectedGroup.items : marketItems;
 
-  // NFT発行イベントを監視して自動的にリスト更新
-  useEffect(() => {
-    // NFT発行完了イベントをリッスン
-    const handleNFTMinted = () => {
-      if (isLocked) return; // ロック中は更新しない
-      
-      console.log("NFT発行イベントを受信: マーケットリストを更新します");
-      fetchMarketItems();
-    };
+  // 表示中のコレクションに含まれる属性の選択肢
+  const traitOptions = useMemo(
+    () => getTraitOptions(collectionItems.map(item => metadataByNFT[item.NFTokenID]?.metadata?.attributes ?? [])),
+    [collectionItems, metadataByNFT]
+  );
+  // 選択中のコレクション・属性が存在しなくなった場合は絞り込まない
+  const activeCollection = selectedGroup ? selectedGroup.key : ALL_COLLECTIONS;
+  const activeTrait = traitOptions.some(option => option.key === filters.trait) ? filters.trait : ALL_TRAITS;
 
-    window.addEventListener('nft-minted', handleNFTMinted);
-    
-    // クリーンアップ
-    return () => {
-      window.removeEventListener('nft-minted', handleNFTMinted);
-    };
-  }, [wallet, isLocked, fetchMarketItems]); // walletが変わったらリスナーを再設定
+  const displayedItems = useMemo(() => {
+    const context = { metadata: metadataByNFT, offerLedgers, mintLedgers };
+    const filtered = filterMarketItems(
+      marketItems,
+      { ...filters, collection: activeCollection, trait: activeTrait },
+      context
+    );
+    return sortMarketItems(filtered, filters.sort, context);
+  }, [marketItems, filters, activeCollection, activeTrait, metadataByNFT, offerLedgers, mintLedgers]);
 
-  // URIからメタデータを解析する関数
-  const parseMetadata = (uri?: string) => {
-    if (!uri) return { name: "Unknown NFT", description: "No description", image: "" };
-    
-    try {
-      // 16進数URIをデコード
-      const hex = uri;
-      let str = "";
-      for (let i = 0; i < hex.length; i += 2) {
-        str += String.fromCharCode(parseInt(hex.substr(i, 2), 16));
-      }
-      
-      // Vercel Blob URLの場合、実際にフェッチして取得する
-      if (str.includes('blob.vercel-storage.com')) {
-        try {
-          // 非同期処理はここでは行わず、URLをそのまま返してNFTItemコンポーネントに委ねる
-          return { 
-            name: "Vercel Blob NFT", 
-            description: "Metadata stored on Vercel Blob",
-            image: "" // 画像URLはメタデータから取得する
-          };
-        } catch (error) {
-          console.error("Failed to handle Vercel Blob metadata:", error);
-        }
-      }
-      
-      // 相対パスURLかdata:URLかを確認
-      if (str.startsWith('/metadata/')) {
-        try {
-          // 実際にメタデータをフェッチする（通常はサーバーサイドで行うべき操作）
-          // ここでは簡易的なデータを返す
-          return { 
-            name: "Local NFT", 
-            description: "This NFT is stored locally",
-            image: str.replace('/metadata/', '/images/').replace('.json', '.jpg')
-          };
-        } catch (error) {
-          console.error("Failed to fetch local metadata:", error);
-        }
-      }
-      
-      // data:URLからBase64部分を抽出
-      const base64Match = str.match(/^data:application\/json;base64,(.+)$/);
-      if (base64Match) {
-        const jsonStr = atob(base64Match[1]);
-        return JSON.parse(jsonStr);
-      }
-      
-      // その他のケース
-      return { 
-        name: "NFT", 
-        description: "No readable metadata",
-        image: "" 
-      };
-    } catch (error) {
-      console.error("Failed to parse metadata:", error);
-      return { 
-        name: "NFT", 
-        description: "Error parsing metadata",
-        image: "" 
-      };
+  // 所有者の選択肢（レジストリ内のウォレットとウォッチリストのアカウントは名前を表示）
+  const ownerOptions = useMemo(() => {
+    const owners = new Map<string, string>();
+    for (const item of marketItems) {
+      owners.set(item.Owner, item.walletName ?? getAccountName(item.Owner));
     }
-  };
+    return Array.from(owners, ([value, label]) => ({ value, label }));
+  }, [marketItems]);
+  // 価格の範囲を指定できる通貨（XRPと出品されている通貨）
+  const currencyOptions = useMemo(() => {
+    const currencies = new Map([[encodeCurrencyKey(XRP_CURRENCY), formatCurrency(XRP_CURRENCY)]]);
+    for (const item of marketItems) {
+      if (!item.offerAmount) continue;
+      const currency = getAmountCurrency(item.offerAmount);
+      currencies.set(encodeCurrencyKey(currency), formatCurrency(currency));
+    }
+    return Array.from(currencies, ([value, label]) => ({ value, label }));
+  }, [marketItems]);
+
+  // 数千件のNFTがあっても表示が重くならないようにページに分けて表示
+  const { page, pageCount, pageItems, setPage } = usePagination(displayedItems);
 
-  // 金額をフォーマット（XRPの6桁精度を考慮）
-  const formatAmount = (amount: string) => {
-    const num = parseInt(amount, 10) / 1000000;
-    return num.toString();
+  // 条件を変更したらURLに反映して最初のページに戻る
+  const handleFiltersChange = (changes: Partial<MarketplaceFilters>) => {
+    const next = { ...filters, ...changes };
+    setFilters(next);
+    writeMarketplaceFilters(next);
+    setPage(0);
+  };
+  const handleFiltersReset = () => {
+    handleFiltersChange(DEFAULT_MARKETPLACE_FILTERS);
   };
 
   return (
@@ -335,14 +278,32 @@ export function NFTMarketplace({ wallet }: NFTMarketplaceProps) {
             <CardTitle>NFTマーケットプレイス</CardTitle>
             <CardDescription>販売中のNFT一覧</CardDescription>
           </div>
-          <Button
-            variant="outline"
-            size="sm"
-            onClick={fetchMarketItems}
-            disabled={isLoading || !wallet || isLocked}
-          >
-            更新
-          </Button>
+          <div className="flex items-center gap-2">
+            {collectionGroups.length > 0 && (
+              <CollectionFilter
+                groups={collectionGroups}
+                value={activeCollection}
+                onChange={(collection) => handleFiltersChange({ collection, trait: ALL_TRAITS })}
+                disabled={isLoading || isLocked}
+              />
+            )}
+            {traitOptions.length > 0 && (
+              <TraitFilter
+                options={traitOptions}
+                value={activeTrait}
+                onChange={(trait) => handleFiltersChange({ trait })}
+                disabled={isLoading || isLocked}
+              />
+            )}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={refreshMarketItems}
+              disabled={isLoading || isRefreshing || !wallet || isLocked}
+            >
+              更新
+            </Button>
+          </div>
         </div>
       </CardHeader>
       
@@ -353,54 +314,85 @@ export function NFTMarketplace({ wallet }: NFTMarketplaceProps) {
           </div>
         ) : isLocked ? (
           <div className="text-center py-8">
-            <p>ウォレット切り替え中...</p>
+            <p>{isVaultLocked ? "ウォレットがロックされています" : "ウォレット切り替え中..."}</p>
             <p className="text-sm text-gray-500 mt-2">
-              処理が完了するまでお待ちください
+              {isVaultLocked ? "パスフレーズでロックを解除してください" : "処理が完了するまでお待ちください"}
             </p>
           </div>
         ) : marketItems.length > 0 ? (
-          <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
-            {marketItems.map((item) => (
-              <div key={item.NFTokenID} className="w-full flex flex-col">
-                <NFTItem
-                  nft={item}
-                  wallet={wallet}
-                  onUpdate={fetchMarketItems}
-                  offerAmount={item.offerAmount}
-                  offerID={item.offerID}
-                  myBuyOffer={myBuyOffers[item.NFTokenID]}
-                  disabled={isLocked}
-                />
-                {/* 価格表示を追加 */}
-                <div className="bg-white border-t border-gray-100 rounded-b-lg p-2 text-center">
-                  {/* 自分の買いオファーがある場合に表示 */}
-                  {myBuyOffers[item.NFTokenID] && (
-                    <div className="mb-2 text-xs bg-blue-50 p-2 rounded-md flex flex-col">
-                      <p className="font-medium text-blue-600">あなたの買いオファー</p>
-                      <p className="text-blue-600">{dropsToXrp(myBuyOffers[item.NFTokenID].amount).toString().replace(/\.?0+$/, '')} XRP</p>
-                      <p className="text-gray-500 text-xs mt-1">オファーID: {myBuyOffers[item.NFTokenID].offerID.substring(0, 8)}...</p>
-                    </div>
-                  )}
-                  {item.offerAmount ? (
-                    <p className="text-sm font-medium text-green-600 line-clamp-1">
-                      価格: {formatAmount(item.offerAmount)} XRP
-                    </p>
-                  ) : (
-                    <p className="text-sm font-medium text-gray-600 line-clamp-1">
-                      販売中ではありません
-                    </p>
-                  )}
-                  <p className="text-xs text-gray-400 truncate">
-                    所有者: {item.walletType ? item.walletType : (
-                      <a href={`https://testnet.xrpl.org/accounts/${item.Owner}`} target="_blank" rel="noopener noreferrer" className="hover:underline text-blue-500">
-                        {getAccountName(item.Owner)}
-                      </a>
+          <>
+            <MarketplaceFilterBar
+              filters={filters}
+              onChange={handleFiltersChange}
+              onReset={handleFiltersReset}
+              ownerOptions={ownerOptions}
+              currencyOptions={currencyOptions}
+              disabled={isLocked}
+            />
+            {selectedGroup && <CollectionSummary group={selectedGroup} />}
+            {displayedItems.length === 0 && (
+              <div className="text-center py-8">
+                <p>条件に一致するNFTはありません</p>
+                <p className="text-sm text-gray-500 mt-2">検索語や絞り込みの条件を変更してください</p>
+              </div>
+            )}
+            <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
+              {pageItems.map((item) => (
+                <div key={item.NFTokenID} className="w-full flex flex-col">
+                  <NFTItem
+                    nft={item}
+                    wallet={wallet}
+                    onUpdate={refreshMarketItems}
+                    offerAmount={item.offerAmount}
+                    offerID={item.offerID}
+                    offerExpiration={item.offerExpiration}
+                    myBuyOffer={myBuyOffers[item.NFTokenID]}
+                    disabled={isLocked}
+                  />
+                  {/* 価格表示を追加 */}
+                  <div className="bg-white border-t border-gray-100 rounded-b-lg p-2 text-center">
+                    {/* 自分の買いオファーがある場合に表示 */}
+                    {myBuyOffers[item.NFTokenID] && (
+                      <div className="mb-2 text-xs bg-blue-50 p-2 rounded-md flex flex-col">
+                        <p className="font-medium text-blue-600">あなたの買いオファー</p>
+                        <p className="text-blue-600">{formatAmount(myBuyOffers[item.NFTokenID].amount)}</p>
+                        <div className="mt-1">
+                          <OfferExpirationBadge expiration={myBuyOffers[item.NFTokenID].expiration} />
+                        </div>
+                        <p className="text-gray-500 text-xs mt-1">オファーID: {myBuyOffers[item.NFTokenID].offerID.substring(0, 8)}...</p>
+                      </div>
                     )}
-                  </p>
+                    {item.offerAmount ? (
+                      <div className="flex items-center justify-center gap-2">
+                        <p className="text-sm font-medium text-green-600 line-clamp-1">
+                          価格: {formatAmount(item.offerAmount)}
+                        </p>
+                        <OfferExpirationBadge expiration={item.offerExpiration} />
+                      </div>
+                    ) : (
+                      <p className="text-sm font-medium text-gray-600 line-clamp-1">
+                        販売中ではありません
+                      </p>
+                    )}
+                    <p className="text-xs text-gray-400 truncate">
+                      所有者: {item.walletName ? item.walletName : (
+                        <a href={getExplorerUrl(network, "accounts", item.Owner)} target="_blank" rel="noopener noreferrer" className="hover:underline text-blue-500">
+                          {getAccountName(item.Owner)}
+                        </a>
+                      )}
+                    </p>
+                  </div>
                 </div>
-              </div>
-            ))}
-          </div>
+              ))}
+            </div>
+            <Pagination
+              className="mt-6"
+              page={page}
+              pageCount={pageCount}
+              totalCount={displayedItems.length}
+              onPageChange={setPage}
+            />
+          </>
         ) : (
           <div className="text-center py-8">
             {hasError ? (
@@ -429,13 +421,9 @@ export function NFTMarketplace({ wallet }: NFTMarketplaceProps) {
 
 // アドレスからアカウント名を取得するヘルパー関数
 function getAccountName(address: string): string {
-  const wallets = getWallets();
-  if (!wallets) return address.substring(0, 8) + '...';
-  
-  for (const type of Object.values(WalletType)) {
-    if (wallets[type].classicAddress === address) {
-      return type;
-    }
+  const knownWallet = findWalletByAddress(getWallets(), address);
+  if (knownWallet) {
+    return knownWallet.name;
   }
   
   return address.substring(0, 8) + '...';
@@ -0,0 +1,97 @@
+"use client";
+
+import { createElement, useEffect } from "react";
+import { MediaKind, getMediaKind } from "@/lib/upload";
+import { NFTMetadata } from "@/lib/types";
+
+// GLBを表示するmodel-viewer（Webコンポーネント）のスクリプト
+const MODEL_VIEWER_SCRIPT_URL = "https://ajax.googleapis.com/ajax/libs/model-viewer/4.0.0/model-viewer.min.js";
+
+// 拡張子からメディアの種類を推定するための対応表（他のツールで発行されたNFT向け）
+const EXTENSION_KINDS: Record<string, MediaKind> = {
+  mp3: "audio",
+  wav: "audio",
+  ogg: "audio",
+  m4a: "audio",
+  mp4: "video",
+  webm: "video",
+  mov: "video",
+  glb: "model",
+  gltf: "model",
+};
+
+// メタデータからanimationの種類を判定する関数
+// animation_detailsがあればMIME Type、なければURLの拡張子で判定し、不明な場合は動画として扱う
+export function getAnimationKind(metadata: NFTMetadata): MediaKind | null {
+  if (!metadata.animation) return null;
+
+  const detailsKind = getMediaKind(metadata.animation_details?.mime_type);
+  if (detailsKind) return detailsKind;
+
+  const extension = metadata.animation.split(/[?#]/)[0].split(".").pop()?.toLowerCase() ?? "";
+  return EXTENSION_KINDS[extension] ?? "video";
+}
+
+// model-viewerのスクリプトを一度だけ読み込む関数
+function loadModelViewer() {
+  if (typeof window === "undefined" || customElements.get("model-viewer")) return;
+  if (document.querySelector(`script[src="${MODEL_VIEWER_SCRIPT_URL}"]`)) return;
+
+  const script = document.createElement("script");
+  script.type = "module";
+  script.src = MODEL_VIEWER_SCRIPT_URL;
+  document.head.appendChild(script);
+}
+
+interface NFTMediaPlayerProps {
+  metadata: NFTMetadata;
+  // カバー画像（サムネイルがあればサムネイル）
+  coverImage?: string | null;
+}
+
+// 音声・動画・3DモデルのNFTを種類に応じたプレーヤーで表示するコンポーネント
+export function NFTMediaPlayer({ metadata, coverImage }: NFTMediaPlayerProps) {
+  const kind = getAnimationKind(metadata);
+
+  useEffect(() => {
+    if (kind === "model") {
+      loadModelViewer();
+    }
+  }, [kind]);
+
+  if (!metadata.animation || !kind) return null;
+
+  if (kind === "audio") {
+    return (
+      <div className="relative w-full h-full flex items-center justify-center">
+        {coverImage && (
+          <img src={coverImage} alt={metadata.name || "NFT"} className="max-w-full max-h-full object-contain" />
+        )}
+        <audio src={metadata.animation} controls preload="none" className="absolute bottom-2 left-2 right-2 w-[calc(100%-1rem)]" />
+      </div>
+    );
+  }
+
+  if (kind === "model") {
+    // Reactの型定義にないカスタム要素のためcreateElementで描画
+    return createElement("model-viewer", {
+      src: metadata.animation,
+      poster: coverImage ?? undefined,
+      alt: metadata.name || "NFT",
+      "camera-controls": "",
+      "auto-rotate": "",
+      loading: "lazy",
+      style: { width: "100%", height: "100%" },
+    });
+  }
+
+  return (
+    <video
+      src={metadata.animation}
+      poster={coverImage ?? undefined}
+      controls
+      preload="none"
+      className="max-w-full max-h-full object-contain"
+    />
+  );
+}
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect, useRef, useCallback } from "react";
+import { useState, useEffect, useRef, useCallback, useMemo } from "react";
 import { z } from "zod";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
@@ -10,22 +10,42 @@ import { Button } from "@/components/ui/button";
 import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
 import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { getClient, reconnectClient } from "@/lib/xrpl/client";
-import { WalletState, WalletType } from "@/lib/xrpl/wallet";
+import { WalletState } from "@/lib/xrpl/wallet";
 import { mintNFT } from "@/lib/xrpl/nft";
 import { 
   convertFileToBase64, 
   validateFile, 
+  validateMediaFile,
   ALLOWED_FILE_TYPES,
+  MEDIA_FILE_ACCEPT,
   createAndSaveMetadataFile,
-  generateMetadataContent
+  generateMetadataContent,
+  resolveMetadataUri,
+  requestUpload,
+  UploadError,
+  MAX_NAME_LENGTH,
+  MAX_DESCRIPTION_LENGTH
 } from "@/lib/upload";
 import { useAppStore } from "@/lib/store";
+import { getExplorerUrl } from "@/lib/xrpl/networks";
+import { DEFAULT_TAXON, createCollection, getIssuerCollections } from "@/lib/xrpl/collection";
+import { getDelegatingIssuers } from "@/lib/xrpl/minter";
+import { getWallets } from "@/lib/storage";
+import { BatchMinter } from "./BatchMinter";
+import { TraitEditor } from "./TraitEditor";
+import { NFTAttribute, TraitDraft, toNFTAttributes } from "@/lib/metadata";
+
+// 新しいコレクションを作成する場合のSelectの値
+const NEW_COLLECTION_VALUE = "new";
+// 自分を発行者として発行する場合のSelectの値
+const SELF_ISSUER_VALUE = "self";
 
 // フォームのバリデーションスキーマ
 const formSchema = z.object({
-  name: z.string().min(1, { message: "NFT名を入力してください" }),
-  description: z.string().min(1, { message: "説明を入力してください" }),
+  name: z.string().trim().min(1, { message: "NFT名を入力してください" }).max(MAX_NAME_LENGTH, { message: `NFT名は${MAX_NAME_LENGTH}文字以内で入力してください` }),
+  description: z.string().min(1, { message: "説明を入力してください" }).max(MAX_DESCRIPTION_LENGTH, { message: `説明は${MAX_DESCRIPTION_LENGTH}文字以内で入力してください` }),
   transferFee: z.coerce.number().min(0).max(50, { message: "転送手数料は0%〜50%の間で指定してください" }),
   isBurnable: z.boolean().optional().default(true),
   isTransferable: z.boolean().optional().default(true),
@@ -52,10 +72,67 @@ export function NFTMinter({ wallet }: NFTMinterProps) {
   const [isLoading, setIsLoading] = useState(false);
   const [mintedNFTId, setMintedNFTId] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  // 音声・動画・3Dモデルのファイル（選択した場合は画像がカバー画像になる）
+  const [mediaFile, setMediaFile] = useState<File | null>(null);
   const [flagsOpen, setFlagsOpen] = useState(false);
+  // 発行先のコレクション（タクソン、または新規作成）
+  const [collectionValue, setCollectionValue] = useState(String(DEFAULT_TAXON));
+  const [newCollectionName, setNewCollectionName] = useState("");
+  const [newCollectionDescription, setNewCollectionDescription] = useState("");
+  // コレクション作成後に一覧を再取得するためのキー
+  const [collectionsVersion, setCollectionsVersion] = useState(0);
+  // 代理発行を許可しているアカウントと、選択中の発行者
+  const [delegatingIssuers, setDelegatingIssuers] = useState<WalletState[]>([]);
+  const [issuerValue, setIssuerValue] = useState(SELF_ISSUER_VALUE);
+  // 編集中の属性（トレイト）
+  const [traits, setTraits] = useState<TraitDraft[]>([]);
+  // マニフェストから一括発行するモード
+  const [isBatchMode, setIsBatchMode] = useState(false);
   
   // グローバルステートを使用
-  const { isLocked } = useAppStore();
+  const { isLocked, isVaultLocked, network } = useAppStore();
+
+  // 発行者のアドレス（代理発行の場合は選択したアカウント）
+  const issuerAddress = issuerValue === SELF_ISSUER_VALUE ? wallet?.classicAddress : issuerValue;
+
+  // 発行者が作成済みのコレクション一覧
+  const collections = useMemo(
+    () => (issuerAddress ? getIssuerCollections(issuerAddress) : []),
+    [issuerAddress, collectionsVersion]
+  );
+
+  // このウォレットに代理発行を許可しているアカウントを取得
+  useEffect(() => {
+    const storedWallets = getWallets();
+    if (!wallet || isLocked || !storedWallets) {
+      setDelegatingIssuers([]);
+      return;
+    }
+    let cancelled = false;
+
+    const fetchDelegatingIssuers = async () => {
+      try {
+        const client = await getClient();
+        const issuers = await getDelegatingIssuers(client, wallet.classicAddress, storedWallets);
+        if (!cancelled) {
+          setDelegatingIssuers(issuers);
+        }
+      } catch (error) {
+        console.error("代理発行の許可情報の取得に失敗しました:", error);
+      }
+    };
+    fetchDelegatingIssuers();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [wallet, isLocked]);
+
+  // 発行者を切り替えたらコレクションの選択をリセット
+  const handleIssuerChange = (value: string) => {
+    setIssuerValue(value);
+    setCollectionValue(String(DEFAULT_TAXON));
+  };
 
   // フォーム初期化
   const form = useForm<FormValues>({
@@ -91,7 +168,7 @@ export function NFTMinter({ wallet }: NFTMinterProps) {
     // 現在のウォレット情報をログ出力
     console.log("NFTMinter: ウォレット変更検出", {
       wallet: wallet ? {
-        type: wallet.type,
+        name: wallet.name,
         address: wallet.classicAddress
       } : null
     });
@@ -107,6 +184,14 @@ export function NFTMinter({ wallet }: NFTMinterProps) {
     // ミント状態をリセット
     setMintedNFTId(null);
     
+    // 発行者とコレクションの選択をリセット
+    setIssuerValue(SELF_ISSUER_VALUE);
+    setCollectionValue(String(DEFAULT_TAXON));
+    setNewCollectionName("");
+    setNewCollectionDescription("");
+    setTraits([]);
+    setMediaFile(null);
+    
   }, [wallet, form]);
 
   // wallet-changedイベントのリスナーを追加
@@ -197,6 +282,22 @@ export function NFTMinter({ wallet }: NFTMinterProps) {
     }
   };
 
+  // メディアファイル選択時の処理
+  const handleMediaFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0] || null;
+    e.target.value = "";
+    if (!file) return;
+    
+    const validation = validateMediaFile(file);
+    if (!validation.valid) {
+      toast.error(validation.message);
+      return;
+    }
+    
+    setMediaFile(file);
+    toast.success("メディアファイルを選択しました");
+  };
+
   // 画像ファイルを手動で選択
   const handleSelectFile = () => {
     if (isLocked) return;
@@ -222,29 +323,57 @@ export function NFTMinter({ wallet }: NFTMinterProps) {
       return;
     }
     
+    if (collectionValue === NEW_COLLECTION_VALUE && newCollectionName.trim() === "") {
+      toast.error("コレクション名を入力してください");
+      return;
+    }
+    
+    // 属性をメタデータの形式に変換して検証
+    let attributes: NFTAttribute[];
+    try {
+      attributes = toNFTAttributes(traits);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "属性の形式が正しくありません");
+      return;
+    }
+    
     try {
       setIsLoading(true);
       
+      // 発行先のコレクションのタクソンを決定（新規の場合はコレクションを作成）
+      let taxon = Number(collectionValue);
+      let collectionName = collections.find(collection => collection.taxon === taxon)?.name;
+      if (collectionValue === NEW_COLLECTION_VALUE) {
+        const collection = createCollection(issuerAddress || wallet.classicAddress, newCollectionName, newCollectionDescription);
+        taxon = collection.taxon;
+        collectionName = collection.name;
+        setCollectionValue(String(taxon));
+        setNewCollectionName("");
+        setNewCollectionDescription("");
+        setCollectionsVersion(prev => prev + 1);
+        toast.info(`コレクション「${collection.name}」を作成しました`);
+      }
+      
       // FormDataオブジェクトの作成
       const formData = new FormData();
       formData.append('file', selectedFile);
       formData.append('name', values.name);
       formData.append('description', values.description);
+      if (mediaFile) {
+        formData.append('animation', mediaFile);
+      }
+      if (attributes.length > 0) {
+        formData.append('attributes', JSON.stringify(attributes));
+      }
+      // メタデータのcollectionにコレクション名を設定（XLS-24d）
+      if (collectionName) {
+        formData.append('collection', collectionName);
+      }
       
       console.log("APIにファイルをアップロード中...");
       
       // APIエンドポイントにファイルとメタデータを送信
-      const response = await fetch('/api/upload', {
-        method: 'POST',
-        body: formData,
-      });
-      
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || 'ファイルのアップロードに失敗しました');
-      }
-      
-      const data = await response.json();
+      const data = await requestUpload(formData);
       console.log("ファイルアップロード成功", data);
       
       // Vercel環境でのデバッグ情報を表示
@@ -274,26 +403,13 @@ export function NFTMinter({ wallet }: NFTMinterProps) {
       }
       
       console.log("NFTミント処理を開始します。ウォレット:", {
-        type: wallet.type,
+        name: wallet.name,
         address: wallet.classicAddress
       });
       
       try {
         // メタデータURIを決定
-        let metadataUri;
-        
-        if (data.isVercelProduction) {
-          if (data.usingBlob) {
-            // Vercel Blobを使用している場合はメタデータURLを使用
-            metadataUri = data.metadataUrl;
-          } else {
-            // 直接JSONメタデータを使用
-            metadataUri = data.metadataJson;
-          }
-        } else {
-          // 開発環境ではメタデータURLを使用
-          metadataUri = data.metadataUrl;
-        }
+        const metadataUri = resolveMetadataUri(data);
         
         console.log("使用するメタデータ:", metadataUri);
         
@@ -305,7 +421,9 @@ export function NFTMinter({ wallet }: NFTMinterProps) {
           values.transferFee,
           values.isBurnable,    // フォームから取得したフラグを使用
           values.isTransferable, // フォームから取得したフラグを使用
-          values.isOnlyXRP       // フォームから取得したフラグを使用
+          values.isOnlyXRP,      // フォームから取得したフラグを使用
+          taxon,
+          issuerAddress           // 代理発行の場合は発行者を指定
         );
         
         console.log("NFTミント成功!", { nftokenID });
@@ -317,7 +435,7 @@ export function NFTMinter({ wallet }: NFTMinterProps) {
         window.dispatchEvent(new CustomEvent('nft-minted', { 
           detail: { 
             nftokenID,
-            wallet: wallet.type 
+            wallet: wallet.id 
           } 
         }));
         
@@ -330,6 +448,8 @@ export function NFTMinter({ wallet }: NFTMinterProps) {
         setSelectedFile(null);
         setPreviewUrl(null);
         setFileBase64(null);
+        setTraits([]);
+        setMediaFile(null);
       } catch (mintError: any) {
         console.error("NFTミント処理エラー:", mintError);
         
@@ -346,20 +466,7 @@ export function NFTMinter({ wallet }: NFTMinterProps) {
             toast.info("再接続しました。NFTミントを再試行しています...");
             
             // メタデータURIを決定
-            let metadataUri;
-            
-            if (data.isVercelProduction) {
-              if (data.usingBlob) {
-                // Vercel Blobを使用している場合はメタデータURLを使用
-                metadataUri = data.metadataUrl;
-              } else {
-                // 直接JSONメタデータを使用
-                metadataUri = data.metadataJson;
-              }
-            } else {
-              // 開発環境ではメタデータURLを使用
-              metadataUri = data.metadataUrl;
-            }
+            const metadataUri = resolveMetadataUri(data);
             
             const nftokenID = await mintNFT(
               client,
@@ -368,7 +475,9 @@ export function NFTMinter({ wallet }: NFTMinterProps) {
               values.transferFee,
               values.isBurnable,
               values.isTransferable,
-              values.isOnlyXRP
+              values.isOnlyXRP,
+              taxon,
+              issuerAddress
             );
             
             console.log("NFTミント成功! (再試行後)", { nftokenID });
@@ -380,7 +489,7 @@ export function NFTMinter({ wallet }: NFTMinterProps) {
             window.dispatchEvent(new CustomEvent('nft-minted', { 
               detail: { 
                 nftokenID,
-                wallet: wallet.type 
+                wallet: wallet.id 
               } 
             }));
             
@@ -393,6 +502,8 @@ export function NFTMinter({ wallet }: NFTMinterProps) {
             setSelectedFile(null);
             setPreviewUrl(null);
             setFileBase64(null);
+            setTraits([]);
+            setMediaFile(null);
             
             return;
           } catch (retryError) {
@@ -405,7 +516,17 @@ export function NFTMinter({ wallet }: NFTMinterProps) {
       }
     } catch (error) {
       console.error("NFTミント処理エラー:", error);
-      toast.error("NFTの発行に失敗しました");
+      if (error instanceof UploadError) {
+        // 入力欄に関するエラーはその欄に表示する
+        if (error.code === "MISSING_NAME" || error.code === "NAME_TOO_LONG") {
+          form.setError("name", { message: error.message });
+        } else if (error.code === "DESCRIPTION_TOO_LONG") {
+          form.setError("description", { message: error.message });
+        }
+        toast.error(error.message);
+      } else {
+        toast.error("NFTの発行に失敗しました");
+      }
     } finally {
       setIsLoading(false);
     }
@@ -421,7 +542,7 @@ export function NFTMinter({ wallet }: NFTMinterProps) {
 
   // デバッグ情報
   console.log("NFTMinter: レンダリング", {
-    wallet: wallet ? wallet.type : null,
+    wallet: wallet ? wallet.name : null,
     isWalletSelected,
     selectedFile: selectedFile ? { name: selectedFile.name, type: selectedFile.type } : null,
     hasPreview: !!previewUrl,
@@ -435,27 +556,41 @@ export function NFTMinter({ wallet }: NFTMinterProps) {
   return (
     <Card className="w-full">
       <CardHeader>
-        <CardTitle>NFT発行</CardTitle>
-        <CardDescription>
-          XRPLテストネット上でNFTを発行します
-          {!isWalletSelected && " (ウォレットを選択してください)"}
-          {isLocked && " (ウォレット切り替え中...)"}
-        </CardDescription>
+        <div className="flex justify-between items-center">
+          <div>
+            <CardTitle>NFT発行</CardTitle>
+            <CardDescription>
+              XRPL {network.name} 上でNFTを発行します
+              {!isWalletSelected && " (ウォレットを選択してください)"}
+              {isLocked && (isVaultLocked ? " (ウォレットがロックされています)" : " (ウォレット切り替え中...)")}
+            </CardDescription>
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setIsBatchMode(!isBatchMode)}
+            disabled={!isWalletSelected || isLoading || isLocked}
+          >
+            {isBatchMode ? "1件ずつ発行" : "一括発行"}
+          </Button>
+        </div>
       </CardHeader>
       
       <CardContent>
         {isLocked ? (
           <div className="text-center py-8">
-            <p>ウォレット切り替え中...</p>
+            <p>{isVaultLocked ? "ウォレットがロックされています" : "ウォレット切り替え中..."}</p>
             <p className="text-sm text-gray-500 mt-2">
-              処理が完了するまでお待ちください
+              {isVaultLocked ? "パスフレーズでロックを解除してください" : "処理が完了するまでお待ちください"}
             </p>
           </div>
+        ) : isBatchMode && wallet ? (
+          <BatchMinter wallet={wallet} />
         ) : mintedNFTId ? (
           <div className="space-y-4">
             <div className="p-4 bg-green-50 border border-green-100 rounded-md">
               <h3 className="font-medium text-green-800">NFTが発行されました！</h3>
-              <p className="text-sm text-green-600 break-all mt-1">NFT ID: <a href={`https://testnet.xrpl.org/nft/${mintedNFTId}`} target="_blank" rel="noopener noreferrer" className="hover:underline text-blue-500">{mintedNFTId}</a></p>
+              <p className="text-sm text-green-600 break-all mt-1">NFT ID: <a href={getExplorerUrl(network, "nft", mintedNFTId)} target="_blank" rel="noopener noreferrer" className="hover:underline text-blue-500">{mintedNFTId}</a></p>
             </div>
             
             <Button
@@ -547,6 +682,82 @@ export function NFTMinter({ wallet }: NFTMinterProps) {
                 )}
               />
 
+              {delegatingIssuers.length > 0 && (
+                <FormItem>
+                  <FormLabel>発行者</FormLabel>
+                  <Select
+                    value={issuerValue}
+                    onValueChange={handleIssuerChange}
+                    disabled={!isWalletSelected || isLoading || isLocked}
+                  >
+                    <SelectTrigger className="w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={SELF_ISSUER_VALUE}>{wallet?.name}（自分）</SelectItem>
+                      {delegatingIssuers.map((issuerWallet) => (
+                        <SelectItem key={issuerWallet.id} value={issuerWallet.classicAddress}>
+                          {issuerWallet.name}の代理で発行
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormDescription>
+                    代理発行を許可されたアカウントの名義でNFTを発行できます
+                  </FormDescription>
+                </FormItem>
+              )}
+
+              <FormItem>
+                <FormLabel>コレクション</FormLabel>
+                <div className="space-y-2">
+                  <Select
+                    value={collectionValue}
+                    onValueChange={setCollectionValue}
+                    disabled={!isWalletSelected || isLoading || isLocked}
+                  >
+                    <SelectTrigger className="w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={String(DEFAULT_TAXON)}>未分類</SelectItem>
+                      {collections.map((collection) => (
+                        <SelectItem key={collection.taxon} value={String(collection.taxon)}>
+                          {collection.name}（タクソン {collection.taxon}）
+                        </SelectItem>
+                      ))}
+                      <SelectItem value={NEW_COLLECTION_VALUE}>新しいコレクションを作成...</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  
+                  {collectionValue === NEW_COLLECTION_VALUE && (
+                    <>
+                      <Input
+                        placeholder="コレクション名"
+                        value={newCollectionName}
+                        onChange={(e) => setNewCollectionName(e.target.value)}
+                        disabled={!isWalletSelected || isLoading || isLocked}
+                      />
+                      <Input
+                        placeholder="コレクションの説明（任意）"
+                        value={newCollectionDescription}
+                        onChange={(e) => setNewCollectionDescription(e.target.value)}
+                        disabled={!isWalletSelected || isLoading || isLocked}
+                      />
+                    </>
+                  )}
+                </div>
+                <FormDescription>
+                  同じコレクションのNFTには同じタクソン（NFTokenTaxon）が設定されます
+                </FormDescription>
+              </FormItem>
+
+              <TraitEditor
+                traits={traits}
+                onChange={setTraits}
+                disabled={!isWalletSelected || isLoading || isLocked}
+              />
+
               <div className="space-y-4 border p-4 rounded-md">
                 <div className="flex items-center justify-between cursor-pointer" onClick={() => setFlagsOpen(!flagsOpen)}>
                   <h3 className="font-medium">NFTフラグ設定</h3>
@@ -635,7 +846,7 @@ export function NFTMinter({ wallet }: NFTMinterProps) {
               </div>
               
               <FormItem>
-                <FormLabel>画像</FormLabel>
+                <FormLabel>{mediaFile ? "カバー画像" : "画像"}</FormLabel>
                 <div className="space-y-2">
                   <input
                     ref={fileInputRef}
@@ -666,6 +877,37 @@ export function NFTMinter({ wallet }: NFTMinterProps) {
                 </FormDescription>
               </FormItem>
               
+              <FormItem>
+                <FormLabel>メディアファイル（任意）</FormLabel>
+                <div className="flex items-center gap-2">
+                  <Input
+                    type="file"
+                    accept={MEDIA_FILE_ACCEPT}
+                    onChange={handleMediaFileChange}
+                    disabled={!isWalletSelected || isLoading || isLocked}
+                  />
+                  {mediaFile && (
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setMediaFile(null)}
+                      disabled={isLoading || isLocked}
+                    >
+                      解除
+                    </Button>
+                  )}
+                </div>
+                {mediaFile && (
+                  <p className="text-sm text-gray-500">
+                    選択中: {mediaFile.name} ({Math.round(mediaFile.size / 1024)} KB)
+                  </p>
+                )}
+                <FormDescription>
+                  音楽・動画・3DモデルのNFTを発行する場合は50MB以下のMP3、WAV、MP4、WebM、またはGLBファイルを選択します。画像はカバー画像として使用されます
+                </FormDescription>
+              </FormItem>
+              
               {previewUrl && (
                 <div className="mt-4">
                   <p className="text-sm font-medium mb-2">プレビュー</p>
@@ -0,0 +1,74 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { OFFER_DURATION_OPTIONS, formatRemainingTime, getRemainingSeconds } from "@/lib/xrpl/expiration";
+
+// 残り時間がこの秒数を下回ったら1秒ごとに表示を更新する
+const SECOND_TICK_THRESHOLD = 60 * 60;
+// 残り時間がこの秒数を下回ったら警告色で表示する
+const WARNING_THRESHOLD = 24 * 60 * 60;
+
+interface OfferDurationPickerProps {
+  // 有効期間（秒、0は無期限）
+  value: number;
+  onChange: (seconds: number) => void;
+  disabled?: boolean;
+}
+
+// オファーの有効期間を選択するピッカー
+export function OfferDurationPicker({ value, onChange, disabled = false }: OfferDurationPickerProps) {
+  return (
+    <div className="space-y-2">
+      <label className="text-sm font-medium">有効期間</label>
+      <Select value={String(value)} onValueChange={(selected) => onChange(Number(selected))} disabled={disabled}>
+        <SelectTrigger className="w-full">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {OFFER_DURATION_OPTIONS.map((option) => (
+            <SelectItem key={option.seconds} value={String(option.seconds)}>
+              {option.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
+
+interface OfferExpirationBadgeProps {
+  // オファーの有効期限（Rippleエポック秒）
+  expiration?: number;
+}
+
+// オファーの残り時間をカウントダウン表示するバッジ（期限なしの場合は何も表示しない）
+export function OfferExpirationBadge({ expiration }: OfferExpirationBadgeProps) {
+  const [now, setNow] = useState(() => Date.now());
+  const remaining = getRemainingSeconds(expiration, now);
+  const hasExpiration = remaining !== null;
+  const isExpired = remaining !== null && remaining <= 0;
+  const isFinalHour = remaining !== null && remaining <= SECOND_TICK_THRESHOLD;
+
+  // 残り時間に応じて更新間隔を変える（期限切れ後は更新不要）
+  useEffect(() => {
+    if (!hasExpiration || isExpired) return;
+
+    const timer = setInterval(() => setNow(Date.now()), isFinalHour ? 1000 : 60 * 1000);
+    return () => clearInterval(timer);
+  }, [hasExpiration, isExpired, isFinalHour]);
+
+  if (remaining === null) return null;
+
+  const colorClass = isExpired
+    ? "bg-red-100 text-red-800"
+    : remaining <= WARNING_THRESHOLD
+      ? "bg-amber-100 text-amber-800"
+      : "bg-gray-100 text-gray-700";
+
+  return (
+    <span className={`text-xs px-2 py-0.5 rounded-full whitespace-nowrap ${colorClass}`}>
+      {formatRemainingTime(remaining)}
+    </span>
+  );
+}
@@ -0,0 +1,104 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  MAX_ATTRIBUTES,
+  TRAIT_DISPLAY_TYPES,
+  TRAIT_DISPLAY_TYPE_LABELS,
+  TraitDisplayType,
+  TraitDraft,
+} from "@/lib/metadata";
+
+interface TraitEditorProps {
+  traits: TraitDraft[];
+  onChange: (traits: TraitDraft[]) => void;
+  disabled?: boolean;
+}
+
+// 表示形式ごとの値の入力欄の種類
+function getValueInputType(displayType: TraitDisplayType): string {
+  if (displayType === "string") return "text";
+  if (displayType === "date") return "date";
+  return "number";
+}
+
+// NFTの属性（トレイト）を追加・編集するエディタ
+export function TraitEditor({ traits, onChange, disabled = false }: TraitEditorProps) {
+  // 指定した行を更新する処理
+  const updateTrait = (index: number, update: Partial<TraitDraft>) => {
+    onChange(traits.map((trait, traitIndex) => (traitIndex === index ? { ...trait, ...update } : trait)));
+  };
+
+  // 表示形式を変更する処理（入力形式が変わるため値はリセット）
+  const changeDisplayType = (index: number, displayType: TraitDisplayType) => {
+    const current = traits[index];
+    const keepsValue = getValueInputType(current.display_type) === getValueInputType(displayType);
+    updateTrait(index, { display_type: displayType, value: keepsValue ? current.value : "" });
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-medium">属性（トレイト）</p>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => onChange([...traits, { trait_type: "", display_type: "string", value: "" }])}
+          disabled={disabled || traits.length >= MAX_ATTRIBUTES}
+        >
+          属性を追加
+        </Button>
+      </div>
+
+      {traits.length === 0 ? (
+        <p className="text-xs text-gray-500">属性は任意です。色やレア度などを設定するとマーケットプレイスで絞り込めます</p>
+      ) : (
+        traits.map((trait, index) => (
+          <div key={index} className="flex gap-2">
+            <Input
+              placeholder="属性名（例: 色）"
+              value={trait.trait_type}
+              onChange={(e) => updateTrait(index, { trait_type: e.target.value })}
+              disabled={disabled}
+            />
+            <Select
+              value={trait.display_type}
+              onValueChange={(value) => changeDisplayType(index, value as TraitDisplayType)}
+              disabled={disabled}
+            >
+              <SelectTrigger className="w-40 shrink-0">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {TRAIT_DISPLAY_TYPES.map((displayType) => (
+                  <SelectItem key={displayType} value={displayType}>
+                    {TRAIT_DISPLAY_TYPE_LABELS[displayType]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              type={getValueInputType(trait.display_type)}
+              placeholder="値"
+              value={trait.value}
+              onChange={(e) => updateTrait(index, { value: e.target.value })}
+              disabled={disabled}
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => onChange(traits.filter((_, traitIndex) => traitIndex !== index))}
+              disabled={disabled}
+            >
+              削除
+            </Button>
+          </div>
+        ))
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,33 @@
+"use client";
+
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { TraitOption } from "@/lib/metadata";
+
+// すべての属性を表示する場合のフィルターの値
+export const ALL_TRAITS = "all";
+
+interface TraitFilterProps {
+  options: TraitOption[];
+  value: string;
+  onChange: (value: string) => void;
+  disabled?: boolean;
+}
+
+// 属性（トレイト）で絞り込むフィルター
+export function TraitFilter({ options, value, onChange, disabled = false }: TraitFilterProps) {
+  return (
+    <Select value={value} onValueChange={onChange} disabled={disabled}>
+      <SelectTrigger className="w-48">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={ALL_TRAITS}>すべての属性</SelectItem>
+        {options.map((option) => (
+          <SelectItem key={option.key} value={option.key}>
+            {option.traitType}: {option.value}（{option.count}）
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,129 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { toast } from "sonner";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { getWatchlist } from "@/lib/storage";
+import { WATCHED_ACCOUNT_KIND_LABELS, addToWatchlist, removeFromWatchlist } from "@/lib/watchlist";
+import { getExplorerUrl } from "@/lib/xrpl/networks";
+import { useAppStore } from "@/lib/store";
+import { WatchedAccount } from "@/lib/types";
+
+// アプリ外のアカウント・発行者を登録し、そのNFTと売りオファーをマーケットプレイスに表示するウォッチリスト
+export function Watchlist() {
+  const [watchlist, setWatchlist] = useState<WatchedAccount[]>([]);
+  const [address, setAddress] = useState("");
+  const [label, setLabel] = useState("");
+  const [kind, setKind] = useState<WatchedAccount["kind"]>("account");
+
+  const { network } = useAppStore();
+
+  useEffect(() => {
+    const handleWatchlistUpdated = () => {
+      setWatchlist(getWatchlist());
+    };
+    handleWatchlistUpdated();
+
+    // アカウント検索から追加された場合も反映する
+    window.addEventListener('watchlist-updated', handleWatchlistUpdated);
+
+    // クリーンアップ
+    return () => {
+      window.removeEventListener('watchlist-updated', handleWatchlistUpdated);
+    };
+  }, []);
+
+  const handleAdd = () => {
+    try {
+      addToWatchlist(address, label, kind);
+      setAddress("");
+      setLabel("");
+      toast.success(`${WATCHED_ACCOUNT_KIND_LABELS[kind]}をウォッチリストに追加しました`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "ウォッチリストへの追加に失敗しました");
+    }
+  };
+
+  const handleRemove = (item: WatchedAccount) => {
+    removeFromWatchlist(item.address, item.kind);
+    toast.success("ウォッチリストから削除しました");
+  };
+
+  return (
+    <Card className="w-full">
+      <CardHeader>
+        <CardTitle>ウォッチリスト</CardTitle>
+        <CardDescription>
+          アプリ外のアカウントが所有するNFT、または発行者が発行したNFTと売りオファーをマーケットプレイスに表示します
+        </CardDescription>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        <div className="flex flex-col md:flex-row gap-2">
+          <Input
+            value={address}
+            onChange={(e) => setAddress(e.target.value)}
+            placeholder="rから始まるアドレス"
+          />
+          <Input
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            placeholder="表示名（任意）"
+            className="md:w-48"
+          />
+          <Select value={kind} onValueChange={(value) => setKind(value as WatchedAccount["kind"])}>
+            <SelectTrigger className="md:w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(WATCHED_ACCOUNT_KIND_LABELS) as WatchedAccount["kind"][]).map((option) => (
+                <SelectItem key={option} value={option}>
+                  {WATCHED_ACCOUNT_KIND_LABELS[option]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button onClick={handleAdd} disabled={!address.trim()}>
+            追加
+          </Button>
+        </div>
+
+        {watchlist.length > 0 ? (
+          <ul>
+            {watchlist.map((item) => (
+              <li key={`${item.kind}:${item.address}`} className="flex items-center justify-between gap-3 py-2 border-b last:border-b-0">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="text-xs px-2 py-0.5 rounded-full bg-gray-100 text-gray-700">
+                      {WATCHED_ACCOUNT_KIND_LABELS[item.kind]}
+                    </span>
+                    {item.label && <span className="text-sm font-medium truncate">{item.label}</span>}
+                  </div>
+                  <a
+                    href={getExplorerUrl(network, "accounts", item.address)}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-xs hover:underline text-blue-500 break-all"
+                  >
+                    {item.address}
+                  </a>
+                </div>
+                <Button variant="outline" size="sm" onClick={() => handleRemove(item)}>
+                  削除
+                </Button>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-center text-gray-500 py-2">ウォッチリストは空です</p>
+        )}
+        <p className="text-xs text-gray-500">
+          発行者のNFTはnfts_by_issuer（Clioサーバー）で取得します。非対応のサーバーでは発行者が所有しているNFTのみ表示されます
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
@@ -3,12 +3,13 @@
 import { useState, useEffect, useCallback, useRef } from "react";
 import { Wifi, WifiOff } from "lucide-react";
 import { Button } from "./button";
-import { checkConnection, reconnectClient } from "@/lib/xrpl/client";
+import { checkConnection, reconnectClient, getActiveServer } from "@/lib/xrpl/client";
 
 export function ConnectionStatus() {
   // 状態の更新を最小限に抑える
   const [isConnected, setIsConnected] = useState(false);
   const [isReconnecting, setIsReconnecting] = useState(false);
+  const [activeServer, setActiveServer] = useState<string | null>(null);
   
   // 最新の接続状態を保存するref（レンダリングをトリガーせずに値を保持）
   const connectedRef = useRef(false);
@@ -19,9 +20,11 @@ export function ConnectionStatus() {
     const initialStatus = checkConnection();
     connectedRef.current = initialStatus;
     setIsConnected(initialStatus);
+    setActiveServer(getActiveServer());
     
     // イベントハンドラー（クロージャーの問題を避けるためにrefを使用）
     function handleConnected() {
+      setActiveServer(getActiveServer());
       if (!connectedRef.current) {
         connectedRef.current = true;
         setIsConnected(true);
@@ -35,6 +38,12 @@ export function ConnectionStatus() {
       }
     }
     
+    // 接続先サーバーが切り替わったときのハンドラー
+    function handleServerChanged(event: Event) {
+      const customEvent = event as CustomEvent<{ server: string }>;
+      setActiveServer(customEvent.detail.server);
+    }
+    
     // フォーカス時のハンドラー
     function handleFocus() {
       const currentStatus = checkConnection();
@@ -48,12 +57,14 @@ export function ConnectionStatus() {
     // イベントリスナーを登録
     window.addEventListener("xrpl-connected", handleConnected);
     window.addEventListener("xrpl-disconnected", handleDisconnected);
+    window.addEventListener("xrpl-server-changed", handleServerChanged);
     window.addEventListener("focus", handleFocus);
     
     // クリーンアップ
     return () => {
       window.removeEventListener("xrpl-connected", handleConnected);
       window.removeEventListener("xrpl-disconnected", handleDisconnected);
+      window.removeEventListener("xrpl-server-changed", handleServerChanged);
       window.removeEventListener("focus", handleFocus);
     };
   }, []); // 依存配列を空に保つ（初回マウント時のみ実行）
@@ -73,12 +84,20 @@ export function ConnectionStatus() {
     }
   }, [isReconnecting]);
   
+  // 接続先サーバーのホスト名（表示用）
+  const serverHost = activeServer ? activeServer.replace(/^wss?:\/\//, "").replace(/\/+$/, "") : null;
+  
   // 接続中の表示
   if (isConnected) {
     return (
-      <div className="flex items-center space-x-2 text-green-500">
-        <Wifi className="h-4 w-4" />
-        <span className="text-xs">Connected to XRPL</span>
+      <div className="flex flex-col items-end">
+        <div className="flex items-center space-x-2 text-green-500">
+          <Wifi className="h-4 w-4" />
+          <span className="text-xs">Connected to XRPL</span>
+        </div>
+        {serverHost && (
+          <span className="text-xs text-gray-500" title={activeServer || undefined}>{serverHost}</span>
+        )}
       </div>
     );
   }
@@ -8,7 +8,7 @@ export function Footer() {
         <div className="flex flex-col md:flex-row justify-between items-center">
           <div className="mb-4 md:mb-0 text-center md:text-left">
             <p className="text-sm text-gray-600">XRPL NFT マーケットプレイス</p>
-            <p className="text-xs text-gray-500 mt-1">このアプリケーションはXRPLのテストネットを使用しています</p>
+            <p className="text-xs text-gray-500 mt-1">このアプリケーションはXRPLのテスト用ネットワークを使用しています</p>
           </div>
           
           <div className="flex flex-col items-center md:items-end">
@@ -1,5 +1,6 @@
 import Link from "next/link";
 import { Button } from "./button";
+import { NetworkSelector } from "./network-selector";
 
 export function Header() {
   return (
@@ -7,10 +8,12 @@ export function Header() {
       <div className="container mx-auto px-4 flex justify-between items-center">
         <div>
           <h1 className="text-xl font-bold">XRPL NFT マーケットプレイス</h1>
-          <p className="text-sm text-gray-600">XRPLのテストネットでNFTを発行・取引</p>
+          <p className="text-sm text-gray-600">XRPLのテストネットやローカル環境でNFTを発行・取引</p>
         </div>
         
         <div className="flex items-center gap-4">
+          <NetworkSelector />
+          
           <Link href="https://github.com/nabe3_m" target="_blank" rel="noopener noreferrer">
             <Button variant="ghost" size="icon" aria-label="GitHub">
               <svg width="24" height="24" viewBox="0 0 98 96" xmlns="http://www.w3.org/2000/svg">
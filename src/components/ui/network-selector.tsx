@@ -0,0 +1,120 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { toast } from "sonner";
+import { Globe } from "lucide-react";
+import { Button } from "./button";
+import { Input } from "./input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./select";
+import { switchNetwork } from "@/lib/xrpl/client";
+import { NETWORK_NAMES, NetworkId, isValidServerList, parseServerList } from "@/lib/xrpl/networks";
+import { getCustomNetworkSettings } from "@/lib/storage";
+import { useAppStore } from "@/lib/store";
+
+// 接続先のネットワークを切り替えるセレクター
+export function NetworkSelector() {
+  const { network, isWalletSwitching } = useAppStore();
+  const [selectedId, setSelectedId] = useState<NetworkId>(network.id);
+  const [customServer, setCustomServer] = useState("");
+  const [customFaucetHost, setCustomFaucetHost] = useState("");
+  const [isSwitching, setIsSwitching] = useState(false);
+
+  // 保存済みのカスタムネットワーク設定を入力欄に反映
+  useEffect(() => {
+    const settings = getCustomNetworkSettings();
+    if (settings) {
+      setCustomServer(settings.server);
+      setCustomFaucetHost(settings.faucetHost);
+    }
+  }, []);
+
+  // 外部で切り替わった場合も選択状態を同期
+  useEffect(() => {
+    setSelectedId(network.id);
+  }, [network.id]);
+
+  // ネットワークを切り替える処理
+  const handleSwitch = async (networkId: NetworkId) => {
+    try {
+      setIsSwitching(true);
+      if (networkId === "custom") {
+        await switchNetwork(networkId, {
+          server: customServer.trim(),
+          faucetHost: customFaucetHost.trim(),
+        });
+      } else {
+        await switchNetwork(networkId);
+      }
+      toast.success(`${NETWORK_NAMES[networkId]}に切り替えました`);
+    } catch (error) {
+      console.error("Failed to switch network:", error);
+      toast.error("ネットワークの切り替えに失敗しました");
+    } finally {
+      setIsSwitching(false);
+    }
+  };
+
+  // セレクターの変更（カスタムは接続先を入力してから切り替える）
+  const handleSelect = (value: string) => {
+    const networkId = value as NetworkId;
+    setSelectedId(networkId);
+    if (networkId !== "custom") {
+      handleSwitch(networkId);
+    }
+  };
+
+  // カスタムネットワークに接続する処理
+  const handleConnectCustom = () => {
+    if (!isValidServerList(customServer)) {
+      toast.error("接続先はws://またはwss://で始まるURLを入力してください（カンマ区切りで複数指定可）");
+      return;
+    }
+    handleSwitch("custom");
+  };
+
+  const disabled = isWalletSwitching || isSwitching;
+  const isCustomChanged = network.id !== "custom" ||
+    network.servers.join(",") !== parseServerList(customServer).join(",");
+
+  return (
+    <div className="flex flex-col items-end gap-2">
+      <div className="flex items-center gap-2">
+        <Globe className="h-4 w-4 text-gray-500" />
+        <Select value={selectedId} onValueChange={handleSelect} disabled={disabled}>
+          <SelectTrigger className="w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(NETWORK_NAMES) as NetworkId[]).map((networkId) => (
+              <SelectItem key={networkId} value={networkId}>{NETWORK_NAMES[networkId]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {selectedId === "custom" && (
+        <div className="flex flex-col gap-2 w-72">
+          <Input
+            value={customServer}
+            onChange={(e) => setCustomServer(e.target.value)}
+            placeholder="wss://a.example.com, wss://b.example.com"
+            disabled={disabled}
+          />
+          <Input
+            value={customFaucetHost}
+            onChange={(e) => setCustomFaucetHost(e.target.value)}
+            placeholder="フォーセットのホスト（任意）"
+            disabled={disabled}
+          />
+          <Button
+            size="sm"
+            onClick={handleConnectCustom}
+            disabled={disabled || customServer.trim() === "" || !isCustomChanged}
+          >
+            {isSwitching ? "切り替え中..." : "接続"}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
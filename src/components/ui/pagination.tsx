@@ -0,0 +1,81 @@
+import React, { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+
+// 1ページに表示する件数の既定値（グリッドの列数4の倍数）
+export const DEFAULT_PAGE_SIZE = 24;
+
+// 配列をページに分けて現在のページの要素を返すフック
+// 要素が減って現在のページがなくなった場合は最後のページを表示する
+export function usePagination<T>(items: T[], pageSize: number = DEFAULT_PAGE_SIZE) {
+  const [page, setPage] = useState(0);
+  const pageCount = Math.max(1, Math.ceil(items.length / pageSize));
+  const currentPage = Math.min(page, pageCount - 1);
+
+  const pageItems = useMemo(
+    () => items.slice(currentPage * pageSize, (currentPage + 1) * pageSize),
+    [items, currentPage, pageSize]
+  );
+
+  return { page: currentPage, pageCount, pageItems, setPage };
+}
+
+interface PaginationProps extends React.HTMLAttributes<HTMLDivElement> {
+  page: number;
+  pageCount: number;
+  totalCount: number;
+  onPageChange: (page: number) => void;
+  disabled?: boolean;
+}
+
+export function Pagination({
+  page,
+  pageCount,
+  totalCount,
+  onPageChange,
+  disabled = false,
+  className,
+  ...props
+}: PaginationProps) {
+  if (pageCount <= 1) return null;
+
+  return (
+    <div className={cn("flex items-center justify-center gap-2", className)} {...props}>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => onPageChange(0)}
+        disabled={disabled || page === 0}
+      >
+        最初
+      </Button>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => onPageChange(page - 1)}
+        disabled={disabled || page === 0}
+      >
+        前へ
+      </Button>
+      <span className="text-sm text-gray-600 px-2">
+        {page + 1} / {pageCount}ページ（全{totalCount}件）
+      </span>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => onPageChange(page + 1)}
+        disabled={disabled || page >= pageCount - 1}
+      >
+        次へ
+      </Button>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => onPageChange(pageCount - 1)}
+        disabled={disabled || page >= pageCount - 1}
+      >
+        最後
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,135 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { getClient } from "@/lib/xrpl/client";
+import { WalletRegistry, WalletState, findWalletByAddress } from "@/lib/xrpl/wallet";
+import { clearAuthorizedMinter, getAuthorizedMinter, setAuthorizedMinter } from "@/lib/xrpl/minter";
+
+interface AuthorizedMinterPanelProps {
+  wallet: WalletState;
+  wallets: WalletRegistry;
+  disabled?: boolean;
+}
+
+// このウォレットの代理でNFTを発行できるミンターを設定するパネル
+export function AuthorizedMinterPanel({ wallet, wallets, disabled = false }: AuthorizedMinterPanelProps) {
+  const [currentMinter, setCurrentMinter] = useState<string | null>(null);
+  const [selectedMinter, setSelectedMinter] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const [isProcessing, setIsProcessing] = useState(false);
+
+  // 自分以外のウォレット（ミンターの候補）
+  const otherWallets = Object.values(wallets).filter(
+    (registryWallet) => registryWallet.classicAddress !== wallet.classicAddress
+  );
+
+  // 現在のミンター設定を取得する処理
+  const fetchMinter = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const client = await getClient();
+      setCurrentMinter(await getAuthorizedMinter(client, wallet.classicAddress));
+    } catch (error) {
+      console.error("Failed to fetch authorized minter:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [wallet.classicAddress]);
+
+  useEffect(() => {
+    fetchMinter();
+  }, [fetchMinter]);
+
+  // ミンターの表示名（レジストリ内のウォレットであれば名前を表示）
+  const getAccountLabel = (address: string) => {
+    const accountWallet = findWalletByAddress(wallets, address);
+    return accountWallet ? accountWallet.name : `${address.substring(0, 6)}...${address.substring(address.length - 4)}`;
+  };
+
+  // ミンターを設定する処理
+  const handleSetMinter = async () => {
+    try {
+      setIsProcessing(true);
+      const client = await getClient();
+      await setAuthorizedMinter(client, wallet, selectedMinter);
+      toast.success(`${getAccountLabel(selectedMinter)}に代理発行を許可しました`);
+      setSelectedMinter("");
+      await fetchMinter();
+    } catch (error) {
+      console.error("Failed to set authorized minter:", error);
+      toast.error("ミンターの設定に失敗しました");
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  // ミンターの設定を解除する処理
+  const handleClearMinter = async () => {
+    try {
+      setIsProcessing(true);
+      const client = await getClient();
+      await clearAuthorizedMinter(client, wallet);
+      toast.success("代理発行の許可を解除しました");
+      await fetchMinter();
+    } catch (error) {
+      console.error("Failed to clear authorized minter:", error);
+      toast.error("ミンターの解除に失敗しました");
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const isBusy = disabled || isProcessing;
+
+  return (
+    <div className="space-y-3 border rounded-md p-3">
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-medium">代理発行（ミンター）</p>
+        <Button variant="ghost" size="sm" onClick={fetchMinter} disabled={isBusy || isLoading}>
+          更新
+        </Button>
+      </div>
+
+      <div className="flex items-center justify-between text-xs">
+        <span className="text-gray-500">
+          {isLoading
+            ? "取得中..."
+            : currentMinter
+              ? `${getAccountLabel(currentMinter)}がこのウォレットの代理でNFTを発行できます`
+              : "代理発行を許可しているアカウントはありません"}
+        </span>
+        {currentMinter && (
+          <Button variant="outline" size="sm" onClick={handleClearMinter} disabled={isBusy}>
+            解除
+          </Button>
+        )}
+      </div>
+
+      <div className="flex gap-2">
+        <Select value={selectedMinter} onValueChange={setSelectedMinter} disabled={isBusy}>
+          <SelectTrigger className="flex-1">
+            <SelectValue placeholder="ミンターを選択" />
+          </SelectTrigger>
+          <SelectContent>
+            {otherWallets.map((registryWallet) => (
+              <SelectItem key={registryWallet.id} value={registryWallet.classicAddress}>
+                {registryWallet.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={handleSetMinter}
+          disabled={isBusy || selectedMinter === "" || selectedMinter === currentMinter}
+        >
+          {isProcessing ? "処理中..." : "許可"}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,219 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { getClient } from "@/lib/xrpl/client";
+import { WalletRegistry, WalletState, findWalletByAddress } from "@/lib/xrpl/wallet";
+import { TrustLine, getTrustLines, issueToken, setTrustLine } from "@/lib/xrpl/trustline";
+import { decodeCurrencyCode, encodeCurrencyCode, encodeCurrencyKey } from "@/lib/xrpl/amount";
+
+interface TrustLinePanelProps {
+  wallet: WalletState;
+  wallets: WalletRegistry;
+  disabled?: boolean;
+}
+
+// 通貨コードの入力が正しいかを判定する関数
+function isValidCurrencyCode(code: string): boolean {
+  try {
+    encodeCurrencyCode(code);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// トラストラインの一覧・設定と、トークンの発行を行うパネル
+export function TrustLinePanel({ wallet, wallets, disabled = false }: TrustLinePanelProps) {
+  const [trustLines, setTrustLines] = useState<TrustLine[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isProcessing, setIsProcessing] = useState(false);
+  // トラストライン設定フォーム
+  const [trustCode, setTrustCode] = useState("");
+  const [trustIssuer, setTrustIssuer] = useState("");
+  // トークン発行フォーム
+  const [issueCode, setIssueCode] = useState("");
+  const [issueDestination, setIssueDestination] = useState("");
+  const [issueValue, setIssueValue] = useState("");
+
+  // 自分以外のウォレット（発行者・送金先の候補）
+  const otherWallets = Object.values(wallets).filter(
+    (registryWallet) => registryWallet.classicAddress !== wallet.classicAddress
+  );
+
+  // トラストラインを取得する処理
+  const fetchTrustLines = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const client = await getClient();
+      setTrustLines(await getTrustLines(client, wallet.classicAddress));
+    } catch (error) {
+      console.error("Failed to fetch trust lines:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [wallet.classicAddress]);
+
+  useEffect(() => {
+    fetchTrustLines();
+  }, [fetchTrustLines]);
+
+  // 発行者の表示名（レジストリ内のウォレットであれば名前を表示）
+  const getAccountLabel = (address: string) => {
+    const accountWallet = findWalletByAddress(wallets, address);
+    return accountWallet ? accountWallet.name : `${address.substring(0, 6)}...${address.substring(address.length - 4)}`;
+  };
+
+  // トラストラインを設定する処理
+  const handleSetTrustLine = async () => {
+    try {
+      setIsProcessing(true);
+      const client = await getClient();
+      await setTrustLine(client, wallet, { currency: trustCode.trim(), issuer: trustIssuer });
+      toast.success(`${trustCode.trim()}のトラストラインを設定しました`);
+      setTrustCode("");
+      await fetchTrustLines();
+    } catch (error) {
+      console.error("Failed to set trust line:", error);
+      toast.error("トラストラインの設定に失敗しました");
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  // 自分が発行者となってトークンを送金する処理
+  const handleIssueToken = async () => {
+    const numericValue = parseFloat(issueValue);
+    if (isNaN(numericValue) || numericValue <= 0) {
+      toast.error("有効な数量を入力してください");
+      return;
+    }
+
+    try {
+      setIsProcessing(true);
+      const client = await getClient();
+      await issueToken(client, wallet, issueDestination, issueCode.trim(), issueValue);
+      toast.success(`${getAccountLabel(issueDestination)}に${issueValue} ${issueCode.trim()}を発行しました`);
+      setIssueValue("");
+    } catch (error) {
+      console.error("Failed to issue token:", error);
+      if (error instanceof Error && (error.message.includes("tecPATH_DRY") || error.message.includes("tecNO_LINE"))) {
+        toast.error("送金先にこの通貨のトラストラインが設定されていません");
+      } else {
+        toast.error("トークンの発行に失敗しました");
+      }
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const isBusy = disabled || isProcessing;
+
+  return (
+    <div className="space-y-3 border rounded-md p-3">
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-medium">トラストライン</p>
+        <Button variant="ghost" size="sm" onClick={fetchTrustLines} disabled={isBusy || isLoading}>
+          更新
+        </Button>
+      </div>
+
+      {trustLines.length > 0 ? (
+        <ul className="space-y-1">
+          {trustLines.map((line) => (
+            <li key={encodeCurrencyKey(line)} className="flex justify-between text-xs">
+              <span>
+                {decodeCurrencyCode(line.currency)}
+                <span className="text-gray-500">（発行者: {getAccountLabel(line.issuer)}）</span>
+              </span>
+              <span className="text-gray-700">{line.balance}</span>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-xs text-gray-500">{isLoading ? "取得中..." : "トラストラインはありません"}</p>
+      )}
+
+      <div className="flex gap-2">
+        <Input
+          value={trustCode}
+          onChange={(e) => setTrustCode(e.target.value)}
+          placeholder="通貨コード"
+          className="w-28"
+          maxLength={40}
+          disabled={isBusy}
+        />
+        <Select value={trustIssuer} onValueChange={setTrustIssuer} disabled={isBusy}>
+          <SelectTrigger className="flex-1">
+            <SelectValue placeholder="発行者" />
+          </SelectTrigger>
+          <SelectContent>
+            {otherWallets.map((registryWallet) => (
+              <SelectItem key={registryWallet.id} value={registryWallet.classicAddress}>
+                {registryWallet.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={handleSetTrustLine}
+          disabled={isBusy || !isValidCurrencyCode(trustCode) || trustIssuer === ""}
+        >
+          設定
+        </Button>
+      </div>
+
+      <div className="space-y-2 pt-2 border-t">
+        <p className="text-sm font-medium">トークンを発行</p>
+        <p className="text-xs text-gray-500">
+          このウォレットを発行者としてトークンを送金します。送金先は事前にトラストラインを設定してください。
+        </p>
+        <div className="flex gap-2">
+          <Input
+            value={issueCode}
+            onChange={(e) => setIssueCode(e.target.value)}
+            placeholder="通貨コード"
+            className="w-28"
+            maxLength={40}
+            disabled={isBusy}
+          />
+          <Input
+            type="number"
+            min="0"
+            value={issueValue}
+            onChange={(e) => setIssueValue(e.target.value)}
+            placeholder="数量"
+            className="w-24"
+            disabled={isBusy}
+          />
+          <Select value={issueDestination} onValueChange={setIssueDestination} disabled={isBusy}>
+            <SelectTrigger className="flex-1">
+              <SelectValue placeholder="送金先" />
+            </SelectTrigger>
+            <SelectContent>
+              {otherWallets.map((registryWallet) => (
+                <SelectItem key={registryWallet.id} value={registryWallet.classicAddress}>
+                  {registryWallet.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          className="w-full"
+          onClick={handleIssueToken}
+          disabled={isBusy || !isValidCurrencyCode(issueCode) || issueDestination === "" || issueValue === ""}
+        >
+          {isProcessing ? "処理中..." : "発行"}
+        </Button>
+      </div>
+    </div>
+  );
+}
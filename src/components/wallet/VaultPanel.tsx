@@ -0,0 +1,269 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { toast } from "sonner";
+import { Lock, LockOpen } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  enableVault,
+  disableVault,
+  unlockVault,
+  lockVault,
+  isVaultEnabled,
+  getAutoLockMinutes,
+  saveAutoLockMinutes,
+} from "@/lib/storage";
+import { VaultPassphraseError } from "@/lib/vault";
+import { WalletRegistry } from "@/lib/xrpl/wallet";
+import { useAppStore } from "@/lib/store";
+
+// パスフレーズの最小文字数
+const MIN_PASSPHRASE_LENGTH = 8;
+
+// 自動ロック時間の選択肢（分、0は無効）
+const AUTO_LOCK_OPTIONS = [1, 5, 15, 30, 60, 0];
+
+// 自動ロックタイマーをリセットするユーザー操作
+const ACTIVITY_EVENTS = ["mousedown", "keydown", "touchstart", "scroll"] as const;
+
+interface VaultPanelProps {
+  onUnlocked: (wallets: WalletRegistry) => void;
+  onLocked: () => void;
+  disabled?: boolean;
+}
+
+// 暗号化ボールトの有効化・ロック解除・自動ロックを管理するパネル
+export function VaultPanel({ onUnlocked, onLocked, disabled = false }: VaultPanelProps) {
+  const [vaultEnabled, setVaultEnabled] = useState(false);
+  const [passphrase, setPassphrase] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+  const [autoLockMinutes, setAutoLockMinutes] = useState(getAutoLockMinutes());
+  const [isProcessing, setIsProcessing] = useState(false);
+
+  const { isVaultLocked, setVaultLocked } = useAppStore();
+
+  // 初回マウント時とウォレットのリセット時にボールトの状態を取得
+  useEffect(() => {
+    const handleWalletsUpdated = () => {
+      setVaultEnabled(isVaultEnabled());
+    };
+    handleWalletsUpdated();
+
+    window.addEventListener("wallets-updated", handleWalletsUpdated);
+    return () => {
+      window.removeEventListener("wallets-updated", handleWalletsUpdated);
+    };
+  }, []);
+
+  // ボールトをロックする処理
+  const handleLock = useCallback(() => {
+    lockVault();
+    setVaultLocked(true);
+    onLocked();
+  }, [setVaultLocked, onLocked]);
+
+  // 一定時間操作がなければ自動的にロック
+  useEffect(() => {
+    if (!vaultEnabled || isVaultLocked || autoLockMinutes <= 0) return;
+
+    let timeoutId = setTimeout(handleLock, autoLockMinutes * 60 * 1000);
+    const resetTimer = () => {
+      clearTimeout(timeoutId);
+      timeoutId = setTimeout(handleLock, autoLockMinutes * 60 * 1000);
+    };
+
+    for (const eventName of ACTIVITY_EVENTS) {
+      window.addEventListener(eventName, resetTimer, { passive: true });
+    }
+
+    return () => {
+      clearTimeout(timeoutId);
+      for (const eventName of ACTIVITY_EVENTS) {
+        window.removeEventListener(eventName, resetTimer);
+      }
+    };
+  }, [vaultEnabled, isVaultLocked, autoLockMinutes, handleLock]);
+
+  // パスフレーズでロックを解除する処理
+  const handleUnlock = async () => {
+    if (passphrase === "") return;
+
+    try {
+      setIsProcessing(true);
+      const wallets = await unlockVault(passphrase);
+      setPassphrase("");
+      setVaultLocked(false);
+      onUnlocked(wallets);
+      toast.success("ウォレットのロックを解除しました");
+    } catch (error) {
+      console.error("Failed to unlock vault:", error);
+      toast.error(error instanceof VaultPassphraseError ? error.message : "ロックの解除に失敗しました");
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  // 暗号化を有効にする処理
+  const handleEnable = async () => {
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      toast.error(`パスフレーズは${MIN_PASSPHRASE_LENGTH}文字以上で入力してください`);
+      return;
+    }
+    if (passphrase !== confirmation) {
+      toast.error("確認用のパスフレーズが一致しません");
+      return;
+    }
+
+    try {
+      setIsProcessing(true);
+      await enableVault(passphrase);
+      setPassphrase("");
+      setConfirmation("");
+      setVaultEnabled(true);
+      toast.success("ウォレットの暗号化を有効にしました");
+    } catch (error) {
+      console.error("Failed to enable vault:", error);
+      toast.error("暗号化の有効化に失敗しました");
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  // 暗号化を無効にする処理（ロック解除中のみ）
+  const handleDisable = async () => {
+    if (!window.confirm("暗号化を無効にすると、シードが平文で保存されます。よろしいですか？")) {
+      return;
+    }
+
+    try {
+      setIsProcessing(true);
+      await disableVault();
+      setVaultEnabled(false);
+      toast.success("ウォレットの暗号化を無効にしました");
+    } catch (error) {
+      console.error("Failed to disable vault:", error);
+      toast.error("暗号化の無効化に失敗しました");
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  // 自動ロック時間を変更する処理
+  const handleAutoLockChange = (value: string) => {
+    const minutes = Number(value);
+    setAutoLockMinutes(minutes);
+    saveAutoLockMinutes(minutes);
+  };
+
+  // ロック中はパスフレーズ入力のみ表示
+  if (vaultEnabled && isVaultLocked) {
+    return (
+      <div className="space-y-3 border border-amber-200 bg-amber-50 rounded-md p-3">
+        <div className="flex items-center gap-2 text-amber-800">
+          <Lock className="h-4 w-4" />
+          <p className="text-sm font-medium">ウォレットはロックされています</p>
+        </div>
+        <form
+          className="flex gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleUnlock();
+          }}
+        >
+          <Input
+            type="password"
+            autoComplete="current-password"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            placeholder="パスフレーズ"
+            disabled={isProcessing}
+          />
+          <Button type="submit" size="sm" disabled={isProcessing || passphrase === ""}>
+            {isProcessing ? "解除中..." : "ロック解除"}
+          </Button>
+        </form>
+      </div>
+    );
+  }
+
+  // 暗号化が有効でロック解除中の場合
+  if (vaultEnabled) {
+    return (
+      <div className="space-y-3 border rounded-md p-3">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2 text-green-700">
+            <LockOpen className="h-4 w-4" />
+            <p className="text-sm font-medium">暗号化ボールト: ロック解除中</p>
+          </div>
+          <Button variant="outline" size="sm" onClick={handleLock} disabled={disabled || isProcessing}>
+            今すぐロック
+          </Button>
+        </div>
+        <div className="flex items-center gap-2">
+          <p className="text-sm text-gray-600 whitespace-nowrap">自動ロック</p>
+          <Select
+            value={String(autoLockMinutes)}
+            onValueChange={handleAutoLockChange}
+            disabled={disabled || isProcessing}
+          >
+            <SelectTrigger className="flex-1">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {AUTO_LOCK_OPTIONS.map((minutes) => (
+                <SelectItem key={minutes} value={String(minutes)}>
+                  {minutes === 0 ? "なし" : `${minutes}分間操作がない場合`}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="w-full text-gray-500"
+          onClick={handleDisable}
+          disabled={disabled || isProcessing}
+        >
+          暗号化を無効にする
+        </Button>
+      </div>
+    );
+  }
+
+  // 暗号化が無効の場合は有効化フォームを表示
+  return (
+    <div className="space-y-3 border rounded-md p-3">
+      <p className="text-sm font-medium">ウォレットを暗号化して保存</p>
+      <p className="text-xs text-gray-500">
+        シードと秘密鍵をパスフレーズで暗号化（PBKDF2 / AES-GCM）します。パスフレーズを忘れると復元できません。
+      </p>
+      <Input
+        type="password"
+        autoComplete="new-password"
+        value={passphrase}
+        onChange={(e) => setPassphrase(e.target.value)}
+        placeholder={`パスフレーズ（${MIN_PASSPHRASE_LENGTH}文字以上）`}
+        disabled={disabled || isProcessing}
+      />
+      <Input
+        type="password"
+        autoComplete="new-password"
+        value={confirmation}
+        onChange={(e) => setConfirmation(e.target.value)}
+        placeholder="パスフレーズ（確認）"
+        disabled={disabled || isProcessing}
+      />
+      <Button
+        size="sm"
+        className="w-full"
+        onClick={handleEnable}
+        disabled={disabled || isProcessing || passphrase === "" || confirmation === ""}
+      >
+        {isProcessing ? "暗号化中..." : "暗号化を有効にする"}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,139 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { WALLET_COLORS, WalletProfile, WalletState } from "@/lib/xrpl/wallet";
+
+interface ColorPickerProps {
+  value: string;
+  onChange: (color: string) => void;
+  disabled?: boolean;
+}
+
+// 表示色を選択するスウォッチ
+function ColorPicker({ value, onChange, disabled = false }: ColorPickerProps) {
+  return (
+    <div className="flex flex-wrap gap-1.5">
+      {WALLET_COLORS.map((color) => (
+        <button
+          key={color}
+          type="button"
+          aria-label={color}
+          onClick={() => onChange(color)}
+          disabled={disabled}
+          className={`h-5 w-5 rounded-full ${color} ${value === color ? "ring-2 ring-offset-2 ring-gray-700" : ""} disabled:opacity-50`}
+        />
+      ))}
+    </div>
+  );
+}
+
+interface WalletEditorProps {
+  wallet: WalletState;
+  onRename: (name: string) => void;
+  onColorChange: (color: string) => void;
+  onRemove: () => void;
+  disabled?: boolean;
+}
+
+// アクティブなウォレットの名前・表示色の編集と削除
+export function WalletEditor({ wallet, onRename, onColorChange, onRemove, disabled = false }: WalletEditorProps) {
+  const [name, setName] = useState(wallet.name);
+
+  // 別のウォレットに切り替わったら入力欄を更新
+  useEffect(() => {
+    setName(wallet.name);
+  }, [wallet.name]);
+
+  const canRename = name.trim() !== "" && name.trim() !== wallet.name;
+
+  return (
+    <div className="space-y-3 border rounded-md p-3">
+      <div className="space-y-1">
+        <label className="text-sm font-medium">ウォレット名</label>
+        <div className="flex gap-2">
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            disabled={disabled}
+            maxLength={32}
+          />
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => onRename(name)}
+            disabled={disabled || !canRename}
+          >
+            変更
+          </Button>
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <label className="text-sm font-medium">表示色</label>
+        <ColorPicker value={wallet.color} onChange={onColorChange} disabled={disabled} />
+      </div>
+
+      <Button
+        variant="outline"
+        size="sm"
+        className="w-full text-red-600 border-red-200 hover:bg-red-50"
+        onClick={onRemove}
+        disabled={disabled}
+      >
+        このウォレットを削除
+      </Button>
+    </div>
+  );
+}
+
+interface WalletAddFormProps {
+  defaultColor: string;
+  onAdd: (profile: WalletProfile) => void;
+  isLoading?: boolean;
+  disabled?: boolean;
+}
+
+// 新しいウォレットをレジストリに追加するフォーム
+export function WalletAddForm({ defaultColor, onAdd, isLoading = false, disabled = false }: WalletAddFormProps) {
+  const [name, setName] = useState("");
+  const [color, setColor] = useState(defaultColor);
+
+  // 追加後に次の未使用色を初期値にする
+  useEffect(() => {
+    setColor(defaultColor);
+  }, [defaultColor]);
+
+  const handleAdd = () => {
+    const trimmed = name.trim();
+    if (trimmed === "") return;
+    onAdd({ name: trimmed, color });
+    setName("");
+  };
+
+  return (
+    <div className="space-y-3 border rounded-md p-3">
+      <div className="space-y-1">
+        <label className="text-sm font-medium">ウォレットを追加</label>
+        <div className="flex gap-2">
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="例: Creator 1, Collector A, Broker"
+            disabled={disabled || isLoading}
+            maxLength={32}
+          />
+          <Button
+            size="sm"
+            onClick={handleAdd}
+            disabled={disabled || isLoading || name.trim() === ""}
+          >
+            {isLoading ? "作成中..." : "追加"}
+          </Button>
+        </div>
+      </div>
+      <ColorPicker value={color} onChange={setColor} disabled={disabled || isLoading} />
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  KeyAlgorithm,
+  WalletProfile,
+  WalletSecretKind,
+  detectSecretKind,
+} from "@/lib/xrpl/wallet";
+
+// 秘密情報の種類ごとの表示名
+const SECRET_KIND_LABELS: Record<WalletSecretKind, string> = {
+  seed: "ファミリーシード (s...)",
+  mnemonic: "ニーモニック (BIP39)",
+  privateKey: "秘密鍵 (16進数)",
+};
+
+export interface WalletImportRequest {
+  secret: string;
+  kind: WalletSecretKind;
+  algorithm: KeyAlgorithm;
+  profile: WalletProfile;
+}
+
+interface WalletImportFormProps {
+  defaultColor: string;
+  onImport: (request: WalletImportRequest) => void;
+  isLoading?: boolean;
+  disabled?: boolean;
+}
+
+// シード・ニーモニック・秘密鍵から既存のウォレットをインポートするフォーム
+export function WalletImportForm({ defaultColor, onImport, isLoading = false, disabled = false }: WalletImportFormProps) {
+  const [name, setName] = useState("");
+  const [secret, setSecret] = useState("");
+  const [kind, setKind] = useState<WalletSecretKind>("seed");
+  const [algorithm, setAlgorithm] = useState<KeyAlgorithm>("secp256k1");
+
+  // 入力内容から種類を自動判定
+  useEffect(() => {
+    const detected = detectSecretKind(secret);
+    if (detected) {
+      setKind(detected);
+    }
+  }, [secret]);
+
+  // シードのアルゴリズムはシード自体に含まれ、プレフィックス付きの秘密鍵も判定できる
+  const needsAlgorithm = kind === "mnemonic" ||
+    (kind === "privateKey" && secret.trim().length === 64);
+
+  const handleImport = () => {
+    const trimmedName = name.trim();
+    if (trimmedName === "" || secret.trim() === "") return;
+    onImport({
+      secret: secret.trim(),
+      kind,
+      algorithm,
+      profile: { name: trimmedName, color: defaultColor },
+    });
+    setName("");
+    setSecret("");
+  };
+
+  return (
+    <div className="space-y-3 border rounded-md p-3">
+      <p className="text-sm font-medium">既存のウォレットをインポート</p>
+      <Input
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        placeholder="ウォレット名"
+        disabled={disabled || isLoading}
+        maxLength={32}
+      />
+      <Input
+        type="password"
+        autoComplete="off"
+        value={secret}
+        onChange={(e) => setSecret(e.target.value)}
+        placeholder="シード、ニーモニック、または秘密鍵"
+        disabled={disabled || isLoading}
+      />
+      <div className="flex gap-2">
+        <Select
+          value={kind}
+          onValueChange={(value) => setKind(value as WalletSecretKind)}
+          disabled={disabled || isLoading}
+        >
+          <SelectTrigger className="flex-1">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(SECRET_KIND_LABELS) as WalletSecretKind[]).map((value) => (
+              <SelectItem key={value} value={value}>{SECRET_KIND_LABELS[value]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {needsAlgorithm && (
+          <Select
+            value={algorithm}
+            onValueChange={(value) => setAlgorithm(value as KeyAlgorithm)}
+            disabled={disabled || isLoading}
+          >
+            <SelectTrigger className="w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="secp256k1">secp256k1</SelectItem>
+              <SelectItem value="ed25519">ed25519</SelectItem>
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+      <Button
+        size="sm"
+        className="w-full"
+        onClick={handleImport}
+        disabled={disabled || isLoading || name.trim() === "" || secret.trim() === ""}
+      >
+        {isLoading ? "インポート中..." : "インポート"}
+      </Button>
+    </div>
+  );
+}
@@ -1,6 +1,10 @@
 "use client";
 
-import { WalletState, WalletType } from "@/lib/xrpl/wallet";
+import { useState, useEffect } from "react";
+import { Eye, EyeOff } from "lucide-react";
+import { WalletState, getWalletAbbreviation } from "@/lib/xrpl/wallet";
+import { getExplorerUrl } from "@/lib/xrpl/networks";
+import { useAppStore } from "@/lib/store";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 
 interface WalletInfoProps {
@@ -12,23 +16,40 @@ interface AvatarInfo {
   bgColor: string;
 }
 
+// 表示した秘密情報を自動的に隠すまでの時間（ミリ秒）
+const SECRET_REVEAL_DURATION = 30000;
+
 export function WalletInfo({ wallet }: WalletInfoProps) {
-  // ウォレットのタイプに応じて表示する略称と色を設定
+  // シードはクリックされたときのみ表示する
+  const [isSecretVisible, setIsSecretVisible] = useState(false);
+  const { network } = useAppStore();
+
+  // ウォレットが切り替わったら再び隠す
+  useEffect(() => {
+    setIsSecretVisible(false);
+  }, [wallet.id]);
+
+  // 表示後一定時間で自動的に隠す
+  useEffect(() => {
+    if (!isSecretVisible) return;
+    const timeoutId = setTimeout(() => setIsSecretVisible(false), SECRET_REVEAL_DURATION);
+    return () => clearTimeout(timeoutId);
+  }, [isSecretVisible]);
+
+  // ウォレットの名前と表示色から略称と色を設定
   const getAvatarInfo = (): AvatarInfo => {
-    switch (wallet.type) {
-      case WalletType.ALICE:
-        return { abbr: "AL", bgColor: "bg-pink-500" };
-      case WalletType.BOB:
-        return { abbr: "BO", bgColor: "bg-green-500" };
-      case WalletType.CHARLIE:
-        return { abbr: "CH", bgColor: "bg-blue-500" };
-      default:
-        return { abbr: "??", bgColor: "bg-gray-500" };
-    }
+    return {
+      abbr: getWalletAbbreviation(wallet.name),
+      bgColor: wallet.color,
+    };
   };
 
   const { abbr, bgColor } = getAvatarInfo();
 
+  // インポート方法によってシードを持たないウォレットがあるため、表示する秘密情報を切り替える
+  const secretLabel = wallet.seed ? "シード (秘密鍵)" : wallet.mnemonic ? "ニーモニック" : "秘密鍵";
+  const secretValue = wallet.seed || wallet.mnemonic || wallet.privateKey;
+
   return (
     <div className="space-y-4">
       <div className="flex items-center gap-4">
@@ -36,7 +57,7 @@ export function WalletInfo({ wallet }: WalletInfoProps) {
           <AvatarFallback className={bgColor}>{abbr}</AvatarFallback>
         </Avatar>
         <div>
-          <h3 className="font-medium">{wallet.type}</h3>
+          <h3 className="font-medium">{wallet.name}</h3>
           <p className="text-sm text-gray-500">残高: {wallet.balance} XRP</p>
         </div>
       </div>
@@ -45,15 +66,27 @@ export function WalletInfo({ wallet }: WalletInfoProps) {
         <div>
           <p className="text-sm font-medium">アドレス</p>
           <p className="text-xs text-gray-500 break-all">
-            <a href={`https://testnet.xrpl.org/accounts/${wallet.classicAddress}`} target="_blank" rel="noopener noreferrer" className="hover:underline text-blue-500">
+            <a href={getExplorerUrl(network, "accounts", wallet.classicAddress)} target="_blank" rel="noopener noreferrer" className="hover:underline text-blue-500">
               {wallet.classicAddress}
             </a>
           </p>
         </div>
         
         <div>
-          <p className="text-sm font-medium">シード (秘密鍵)</p>
-          <p className="text-xs text-gray-500 break-all">{wallet.seed}</p>
+          <div className="flex items-center gap-2">
+            <p className="text-sm font-medium">{secretLabel}</p>
+            <button
+              type="button"
+              onClick={() => setIsSecretVisible(!isSecretVisible)}
+              className="text-xs text-blue-500 hover:underline flex items-center gap-1"
+            >
+              {isSecretVisible ? <EyeOff className="h-3 w-3" /> : <Eye className="h-3 w-3" />}
+              {isSecretVisible ? "隠す" : "表示"}
+            </button>
+          </div>
+          <p className="text-xs text-gray-500 break-all">
+            {isSecretVisible ? secretValue : "••••••••••••••••••••••••"}
+          </p>
         </div>
       </div>
     </div>
@@ -5,10 +5,38 @@ import { toast } from "sonner";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { getClient, reconnectClient, forceReconnect, checkConnection, disconnectClient } from "@/lib/xrpl/client";
-import { createAllWallets, WalletState, WalletType, updateWalletBalance } from "@/lib/xrpl/wallet";
-import { saveWallets, getWallets, clearWallets, saveActiveWalletType, getActiveWalletType } from "@/lib/storage";
+import {
+  createAllWallets,
+  createWallet,
+  importWallet,
+  findWalletByAddress,
+  WalletId,
+  WalletProfile,
+  WalletRegistry,
+  addWalletToRegistry,
+  renameWallet,
+  setWalletColor,
+  removeWalletFromRegistry,
+  pickWalletColor,
+  updateWalletBalance
+} from "@/lib/xrpl/wallet";
+import {
+  saveWallets,
+  getWallets,
+  clearWallets,
+  saveActiveWalletId,
+  getActiveWalletId,
+  isVaultEnabled,
+  isVaultUnlocked
+} from "@/lib/storage";
 import { WalletSelector } from "./WalletSelector";
 import { WalletInfo } from "./WalletInfo";
+import { WalletEditor, WalletAddForm } from "./WalletEditor";
+import { WalletImportForm, WalletImportRequest } from "./WalletImportForm";
+import { VaultPanel } from "./VaultPanel";
+import { TrustLinePanel } from "./TrustLinePanel";
+import { AuthorizedMinterPanel } from "./AuthorizedMinterPanel";
+import { ZodError } from "zod";
 import { ConnectionStatus as ConnectionStatusType } from "@/lib/types";
 import { ConnectionStatus } from "@/components/ui/connection-status";
 import { useAppStore } from "@/lib/store";
@@ -19,8 +47,9 @@ const BALANCE_UPDATE_INTERVAL = 30000; // 30秒
 const MAX_RECONNECT_ATTEMPTS = 3;
 
 export function WalletManager() {
-  const [wallets, setWallets] = useState<Record<WalletType, WalletState> | null>(null);
-  const [activeWalletType, setActiveWalletType] = useState<WalletType | null>(null);
+  const [wallets, setWallets] = useState<WalletRegistry | null>(null);
+  const [activeWalletId, setActiveWalletId] = useState<WalletId | null>(null);
+  const [isAdding, setIsAdding] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [connectionStatus, setConnectionStatus] = useState<ConnectionStatusType>('disconnected');
   const [reconnectAttempts, setReconnectAttempts] = useState(0);
@@ -30,7 +59,10 @@ export function WalletManager() {
     startWalletSwitch, 
     finishWalletSwitch, 
     isWalletSwitching,
-    isLocked 
+    isLocked,
+    isVaultLocked,
+    setVaultLocked,
+    network
   } = useAppStore();
 
   // クライアント接続を安全に取得する関数
@@ -64,7 +96,7 @@ export function WalletManager() {
 
   // 残高を更新する関数
   const updateBalances = useCallback(async () => {
-    if (!wallets || !activeWalletType || isLocked) return;
+    if (!wallets || !activeWalletId || isLocked) return;
     
     try {
       const client = await getSafeClient();
@@ -76,28 +108,28 @@ export function WalletManager() {
       }
       
       // アクティブなウォレットの残高を更新
-      const activeWallet = wallets[activeWalletType];
+      const activeWallet = wallets[activeWalletId];
       if (activeWallet) {
-        console.log(`Updating balance for ${activeWalletType}...`);
+        console.log(`Updating balance for ${activeWalletId}...`);
         const updatedWallet = await updateWalletBalance(client, activeWallet);
         
         // 残高に変更があれば更新
         if (updatedWallet.balance !== activeWallet.balance) {
-          console.log(`Balance updated for ${activeWalletType}: ${activeWallet.balance} -> ${updatedWallet.balance}`);
+          console.log(`Balance updated for ${activeWalletId}: ${activeWallet.balance} -> ${updatedWallet.balance}`);
           
           // ウォレット情報を更新（アクティブなウォレットのみ）
           setWallets(prev => {
             if (!prev) return null;
             return {
               ...prev,
-              [activeWalletType]: updatedWallet
+              [activeWalletId]: updatedWallet
             };
           });
           
           // 更新したウォレット情報を保存
           const updatedWallets = {
             ...wallets,
-            [activeWalletType]: updatedWallet
+            [activeWalletId]: updatedWallet
           };
           saveWallets(updatedWallets);
         }
@@ -112,40 +144,44 @@ export function WalletManager() {
       // 接続エラーが継続する場合のカウントを増やす
       setReconnectAttempts(prev => prev + 1);
     }
-  }, [wallets, activeWalletType, isLocked, getSafeClient, reconnectAttempts]);
+  }, [wallets, activeWalletId, isLocked, getSafeClient, reconnectAttempts]);
 
   // 初期化時にローカルストレージからウォレット情報を取得
   useEffect(() => {
+    // 暗号化ボールトが有効な場合はロック状態で開始
+    // ネットワーク切り替え後の再マウントでは前のネットワークのロック状態を引き継がない
+    setVaultLocked(isVaultEnabled() && !isVaultUnlocked());
+    
     const storedWallets = getWallets();
-    const storedActiveWalletType = getActiveWalletType();
+    const storedActiveWalletId = getActiveWalletId();
     
     if (storedWallets) {
       setWallets(storedWallets);
     }
     
-    if (storedActiveWalletType) {
-      setActiveWalletType(storedActiveWalletType);
-      
-      // 初期ウォレット情報もストアに設定
-      if (storedWallets && storedWallets[storedActiveWalletType]) {
-        finishWalletSwitch(storedWallets[storedActiveWalletType]);
-      }
+    if (storedActiveWalletId) {
+      setActiveWalletId(storedActiveWalletId);
     }
+    
+    // 初期ウォレット情報もストアに設定
+    finishWalletSwitch(
+      storedWallets && storedActiveWalletId ? storedWallets[storedActiveWalletId] || null : null
+    );
 
     // 初期接続状態を確認
     checkInitialConnection();
-  }, [finishWalletSwitch]);
+  }, [finishWalletSwitch, setVaultLocked]);
 
   // アクティブなウォレットが変更されたときに残高を更新
   useEffect(() => {
-    if (activeWalletType && wallets && !isLocked) {
+    if (activeWalletId && wallets && !isLocked) {
       updateBalances();
     }
-  }, [activeWalletType, updateBalances, isLocked]);
+  }, [activeWalletId, updateBalances, isLocked]);
 
   // 定期的に残高を更新
   useEffect(() => {
-    if (!activeWalletType || !wallets || isLocked) return;
+    if (!activeWalletId || !wallets || isLocked) return;
     
     // 初回更新
     updateBalances();
@@ -158,7 +194,7 @@ export function WalletManager() {
       // コンポーネントアンマウント時にクライアント接続をクリーンアップ
       disconnectClient().catch(e => console.error("切断中にエラー:", e));
     };
-  }, [wallets, activeWalletType, updateBalances, isLocked]);
+  }, [wallets, activeWalletId, updateBalances, isLocked]);
 
   // 接続状態を定期的に確認
   useEffect(() => {
@@ -229,26 +265,27 @@ export function WalletManager() {
       }
       
       setConnectionStatus('connected');
-      const newWallets = await createAllWallets(client);
+      const newWallets = await createAllWallets(client, network);
       
       // ウォレット情報を保存
       setWallets(newWallets);
       saveWallets(newWallets);
       
-      // デフォルトでAliceをアクティブに設定
-      setActiveWalletType(WalletType.ALICE);
-      saveActiveWalletType(WalletType.ALICE);
+      // デフォルトで最初に作成したウォレットをアクティブに設定
+      const firstWallet = Object.values(newWallets)[0];
+      setActiveWalletId(firstWallet.id);
+      saveActiveWalletId(firstWallet.id);
       
       // グローバルステートにウォレット情報を設定
-      finishWalletSwitch(newWallets[WalletType.ALICE]);
+      finishWalletSwitch(firstWallet);
       
       // 少し遅延を入れてからウォレット変更イベントを発火
       setTimeout(() => {
         // ウォレット変更イベントを発火
         window.dispatchEvent(new CustomEvent('wallet-changed', { 
-          detail: { walletType: WalletType.ALICE } 
+          detail: { walletId: firstWallet.id } 
         }));
-        console.log("ウォレット作成後、変更イベントを発火: ALICE");
+        console.log(`ウォレット作成後、変更イベントを発火: ${firstWallet.name}`);
       }, 500); // 0.5秒の遅延
       
       toast.success("ウォレットが作成されました");
@@ -264,12 +301,17 @@ export function WalletManager() {
   };
 
   // ウォレット情報をリセットする処理
+  // ボールトのパスフレーズを忘れた場合に備え、ロック中でもリセットは可能
   const handleResetWallets = () => {
-    if (isLocked) return;
+    if (isWalletSwitching) return;
     
-    setWallets(null);
-    setActiveWalletType(null);
-    clearWallets();
+    if (isVaultLocked && !window.confirm("ロック中のウォレットをすべて削除します。よろしいですか？")) {
+      return;
+    }
+    
+    commitWallets(null);
+    setActiveWalletId(null);
+    setVaultLocked(false);
     finishWalletSwitch(null); // グローバルステートもリセット
     
     // ウォレットリセットイベントを発火
@@ -278,8 +320,168 @@ export function WalletManager() {
     toast.success("ウォレット情報がリセットされました");
   };
 
+  // ボールトのロックが解除されたときにウォレット情報を復元する処理
+  const handleVaultUnlocked = useCallback((unlockedWallets: WalletRegistry) => {
+    const storedActiveWalletId = getActiveWalletId();
+    const unlockedActive = storedActiveWalletId ? unlockedWallets[storedActiveWalletId] || null : null;
+    
+    setWallets(Object.keys(unlockedWallets).length > 0 ? unlockedWallets : null);
+    setActiveWalletId(unlockedActive ? unlockedActive.id : null);
+    finishWalletSwitch(unlockedActive);
+    
+    window.dispatchEvent(new Event('wallets-updated'));
+    window.dispatchEvent(new CustomEvent('wallet-changed', { 
+      detail: { walletId: unlockedActive ? unlockedActive.id : null } 
+    }));
+  }, [finishWalletSwitch]);
+
+  // ボールトがロックされたときに復号済みのウォレット情報を画面から破棄する処理
+  const handleVaultLocked = useCallback(() => {
+    setWallets(null);
+    window.dispatchEvent(new Event('wallets-updated'));
+  }, []);
+
+  // レジストリの変更を反映して保存する処理
+  const commitWallets = (nextWallets: WalletRegistry | null) => {
+    setWallets(nextWallets);
+    if (nextWallets) {
+      saveWallets(nextWallets);
+    } else {
+      clearWallets();
+    }
+    
+    // ページ側のウォレット情報を更新するためのイベントを発火
+    window.dispatchEvent(new Event('wallets-updated'));
+  };
+
+  // ウォレットをレジストリに追加する処理
+  const handleAddWallet = async (profile: WalletProfile) => {
+    if (isLocked) return;
+    
+    try {
+      setIsAdding(true);
+      
+      const client = await getSafeClient();
+      if (!client) {
+        throw new Error("XRPLクライアントの初期化に失敗しました");
+      }
+      
+      const newWallet = await createWallet(client, network, profile);
+      commitWallets(addWalletToRegistry(wallets || {}, newWallet));
+      
+      toast.success(`ウォレット「${newWallet.name}」を追加しました`);
+      
+      // 最初のウォレットであればアクティブにする
+      if (!activeWalletId) {
+        setActiveWalletId(newWallet.id);
+        saveActiveWalletId(newWallet.id);
+        finishWalletSwitch(newWallet);
+        window.dispatchEvent(new CustomEvent('wallet-changed', { 
+          detail: { walletId: newWallet.id } 
+        }));
+      }
+    } catch (error) {
+      console.error("Failed to add wallet:", error);
+      toast.error("ウォレットの追加に失敗しました");
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  // 既存のウォレットをインポートする処理
+  const handleImportWallet = async ({ secret, kind, algorithm, profile }: WalletImportRequest) => {
+    if (isLocked) return;
+    
+    try {
+      setIsAdding(true);
+      
+      const client = await getSafeClient();
+      if (!client) {
+        throw new Error("XRPLクライアントの初期化に失敗しました");
+      }
+      
+      const imported = await importWallet(client, secret, kind, profile, algorithm);
+      
+      // 同じアドレスが既に登録されている場合は追加しない
+      const existing = findWalletByAddress(wallets, imported.classicAddress);
+      if (existing) {
+        toast.error(`このアドレスは「${existing.name}」として登録済みです`);
+        return;
+      }
+      
+      commitWallets(addWalletToRegistry(wallets || {}, imported));
+      
+      if (imported.balance === 0) {
+        toast.warning(`「${imported.name}」をインポートしましたが、アカウントが未アクティベートか残高がありません`);
+      } else {
+        toast.success(`ウォレット「${imported.name}」をインポートしました`);
+      }
+      
+      // 最初のウォレットであればアクティブにする
+      if (!activeWalletId) {
+        setActiveWalletId(imported.id);
+        saveActiveWalletId(imported.id);
+        finishWalletSwitch(imported);
+        window.dispatchEvent(new CustomEvent('wallet-changed', { 
+          detail: { walletId: imported.id } 
+        }));
+      }
+    } catch (error) {
+      console.error("Failed to import wallet:", error);
+      if (error instanceof ZodError) {
+        toast.error("インポートしたウォレットの検証に失敗しました");
+      } else {
+        toast.error("ウォレットのインポートに失敗しました。入力内容を確認してください");
+      }
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  // アクティブなウォレットの名前を変更する処理
+  const handleRenameWallet = (name: string) => {
+    if (isLocked || !wallets || !activeWalletId) return;
+    
+    const nextWallets = renameWallet(wallets, activeWalletId, name);
+    commitWallets(nextWallets);
+    finishWalletSwitch(nextWallets[activeWalletId]);
+  };
+
+  // アクティブなウォレットの表示色を変更する処理
+  const handleColorChange = (color: string) => {
+    if (isLocked || !wallets || !activeWalletId) return;
+    
+    const nextWallets = setWalletColor(wallets, activeWalletId, color);
+    commitWallets(nextWallets);
+    finishWalletSwitch(nextWallets[activeWalletId]);
+  };
+
+  // アクティブなウォレットをレジストリから削除する処理
+  const handleRemoveWallet = () => {
+    if (isLocked || !wallets || !activeWalletId) return;
+    
+    const removed = wallets[activeWalletId];
+    if (!window.confirm(`ウォレット「${removed.name}」を削除しますか？シードを控えていない場合は復元できません。`)) {
+      return;
+    }
+    
+    const nextWallets = removeWalletFromRegistry(wallets, activeWalletId);
+    const nextActive = Object.values(nextWallets)[0] || null;
+    
+    commitWallets(Object.keys(nextWallets).length > 0 ? nextWallets : null);
+    setActiveWalletId(nextActive ? nextActive.id : null);
+    saveActiveWalletId(nextActive ? nextActive.id : null);
+    finishWalletSwitch(nextActive);
+    
+    window.dispatchEvent(new CustomEvent('wallet-changed', { 
+      detail: { walletId: nextActive ? nextActive.id : null } 
+    }));
+    
+    toast.success(`ウォレット「${removed.name}」を削除しました`);
+  };
+
   // アクティブなウォレットを変更する処理
-  const handleChangeWallet = async (walletType: WalletType) => {
+  const handleChangeWallet = async (walletId: WalletId) => {
     if (isLocked) return;
     
     try {
@@ -296,9 +498,9 @@ export function WalletManager() {
         toast.error("ウォレット切り替えがタイムアウトしました。再試行してください。");
       }, 30000); // 30秒でタイムアウト
       
-      // ウォレットタイプを更新
-      setActiveWalletType(walletType);
-      saveActiveWalletType(walletType);
+      // アクティブなウォレットIDを更新
+      setActiveWalletId(walletId);
+      saveActiveWalletId(walletId);
       
       // XRPL接続を再確立（古い状態をクリア）
       let reconnectSuccess = false;
@@ -310,7 +512,7 @@ export function WalletManager() {
         
         // 接続成功したことを通知
         window.dispatchEvent(new CustomEvent('wallet-reconnected', { 
-          detail: { walletType } 
+          detail: { walletId } 
         }));
       } catch (error) {
         console.error("Reconnect failed during wallet change, trying force reconnect:", error);
@@ -322,7 +524,7 @@ export function WalletManager() {
           
           // 接続成功したことを通知
           window.dispatchEvent(new CustomEvent('wallet-reconnected', { 
-            detail: { walletType } 
+            detail: { walletId } 
           }));
         } catch (forceError) {
           console.error("Force reconnect also failed:", forceError);
@@ -333,7 +535,7 @@ export function WalletManager() {
       
       // グローバルステートにウォレット情報を設定
       if (wallets) {
-        finishWalletSwitch(wallets[walletType]);
+        finishWalletSwitch(wallets[walletId]);
       }
       
       // ウォレットリセットイベントを発火
@@ -343,9 +545,9 @@ export function WalletManager() {
       setTimeout(() => {
         // 最新の状態を取得するためにイベントをディスパッチ
         window.dispatchEvent(new CustomEvent('wallet-changed', { 
-          detail: { walletType } 
+          detail: { walletId } 
         }));
-        console.log(`ウォレット変更イベントを発火: ${walletType}`);
+        console.log(`ウォレット変更イベントを発火: ${walletId}`);
       }, 1000); // 1秒の遅延
       
       if (reconnectSuccess) {
@@ -381,7 +583,7 @@ export function WalletManager() {
   };
 
   // 現在アクティブなウォレット情報を取得
-  const activeWallet = activeWalletType && wallets ? wallets[activeWalletType] : null;
+  const activeWallet = activeWalletId && wallets ? wallets[activeWalletId] || null : null;
 
   return (
     <Card className="w-full">
@@ -389,7 +591,7 @@ export function WalletManager() {
         <div className="flex justify-between items-center">
           <div>
             <CardTitle>ウォレット管理</CardTitle>
-            <CardDescription>XRPLテストネット上のウォレットを作成・管理します</CardDescription>
+            <CardDescription>XRPL {network.name} 上のウォレットを作成・管理します</CardDescription>
           </div>
           <div>
             <ConnectionStatus />
@@ -398,10 +600,19 @@ export function WalletManager() {
       </CardHeader>
       
       <CardContent>
-        {wallets ? (
+        <div className="mb-4">
+          <VaultPanel
+            onUnlocked={handleVaultUnlocked}
+            onLocked={handleVaultLocked}
+            disabled={isWalletSwitching || isLoading}
+          />
+        </div>
+        
+        {isVaultLocked ? null : wallets ? (
           <div className="space-y-4">
             <WalletSelector 
-              activeWalletType={activeWalletType} 
+              wallets={wallets}
+              activeWalletId={activeWalletId} 
               onChange={handleChangeWallet}
               disabled={isLocked || isLoading}
             />
@@ -409,10 +620,56 @@ export function WalletManager() {
             {activeWallet && (
               <WalletInfo wallet={activeWallet} />
             )}
+            
+            {activeWallet && (
+              <TrustLinePanel
+                key={activeWallet.id}
+                wallet={activeWallet}
+                wallets={wallets}
+                disabled={isLocked || isLoading}
+              />
+            )}
+            
+            {activeWallet && (
+              <AuthorizedMinterPanel
+                key={activeWallet.id}
+                wallet={activeWallet}
+                wallets={wallets}
+                disabled={isLocked || isLoading}
+              />
+            )}
+            
+            {activeWallet && (
+              <WalletEditor
+                wallet={activeWallet}
+                onRename={handleRenameWallet}
+                onColorChange={handleColorChange}
+                onRemove={handleRemoveWallet}
+                disabled={isLocked || isLoading || isAdding}
+              />
+            )}
           </div>
         ) : (
           <div className="text-center py-4">
-            <p className="mb-4">XRPLテストネットでウォレットを作成してください</p>
+            <p className="mb-4">XRPL {network.name} でウォレットを作成してください</p>
+          </div>
+        )}
+        
+        {!isVaultLocked && (
+          <div className="space-y-4 mt-4">
+            <WalletAddForm
+              defaultColor={pickWalletColor(wallets)}
+              onAdd={handleAddWallet}
+              isLoading={isAdding}
+              disabled={isLocked || isLoading}
+            />
+            
+            <WalletImportForm
+              defaultColor={pickWalletColor(wallets)}
+              onImport={handleImportWallet}
+              isLoading={isAdding}
+              disabled={isLocked || isLoading}
+            />
           </div>
         )}
       </CardContent>
@@ -428,7 +685,7 @@ export function WalletManager() {
         <Button 
           variant="destructive" 
           onClick={handleResetWallets}
-          disabled={isLoading || !wallets || isLocked}
+          disabled={isLoading || (!wallets && !isVaultLocked) || isWalletSwitching}
         >
           ウォレットリセット
         </Button>
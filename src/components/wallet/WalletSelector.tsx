@@ -1,24 +1,25 @@
 "use client";
 
-import { WalletType } from "@/lib/xrpl/wallet";
+import { WalletId, WalletRegistry } from "@/lib/xrpl/wallet";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 
 interface WalletSelectorProps {
-  activeWalletType: WalletType | null;
-  onChange: (walletType: WalletType) => void;
+  wallets: WalletRegistry;
+  activeWalletId: WalletId | null;
+  onChange: (walletId: WalletId) => void;
   disabled?: boolean;
 }
 
-export function WalletSelector({ activeWalletType, onChange, disabled = false }: WalletSelectorProps) {
+export function WalletSelector({ wallets, activeWalletId, onChange, disabled = false }: WalletSelectorProps) {
   const handleWalletChange = (value: string) => {
-    onChange(value as WalletType);
+    onChange(value);
   };
 
   return (
     <div className="space-y-1">
       <label className="text-sm font-medium">アカウント選択</label>
       <Select
-        value={activeWalletType || undefined}
+        value={activeWalletId || undefined}
         onValueChange={handleWalletChange}
         disabled={disabled}
       >
@@ -26,11 +27,14 @@ export function WalletSelector({ activeWalletType, onChange, disabled = false }:
           <SelectValue placeholder="アカウントを選択" />
         </SelectTrigger>
         <SelectContent>
-          <SelectItem value={WalletType.ALICE}>Alice</SelectItem>
-          <SelectItem value={WalletType.BOB}>Bob</SelectItem>
-          <SelectItem value={WalletType.CHARLIE}>Charlie</SelectItem>
+          {Object.values(wallets).map((wallet) => (
+            <SelectItem key={wallet.id} value={wallet.id}>
+              <span className={`inline-block h-2.5 w-2.5 rounded-full ${wallet.color}`} />
+              {wallet.name}
+            </SelectItem>
+          ))}
         </SelectContent>
       </Select>
     </div>
   );
-} 
\ No newline at end of file
+}
@@ -0,0 +1,244 @@
+import { z } from "zod";
+import { convertStringToHex, parseNFTokenID } from "xrpl";
+import { NFTHistoryEvent } from "./xrpl/history";
+import { NFTAttributesSchema } from "./metadata";
+import { MAX_DESCRIPTION_LENGTH, MAX_NAME_LENGTH } from "./upload";
+
+// 一括発行のマニフェストの1行（1アイテム）
+export const BatchManifestItemSchema = z.object({
+  file: z.string().min(1, { message: "ファイル名が指定されていません" }),
+  name: z.string().min(1, { message: "NFT名が指定されていません" }).max(MAX_NAME_LENGTH, { message: `NFT名は${MAX_NAME_LENGTH}文字以内で指定してください` }),
+  // 音声・動画・3Dモデルのファイル名（任意、fileはカバー画像になる）
+  animation: z.string().optional(),
+  description: z.string().max(MAX_DESCRIPTION_LENGTH, { message: `説明は${MAX_DESCRIPTION_LENGTH}文字以内で指定してください` }).default(""),
+  attributes: NFTAttributesSchema.default([]),
+  transferFee: z.coerce.number().min(0).max(50, { message: "転送手数料は0%〜50%の間で指定してください" }).default(0),
+  isBurnable: z.boolean().default(true),
+  isTransferable: z.boolean().default(true),
+  isOnlyXRP: z.boolean().default(true),
+});
+
+export type BatchManifestItem = z.infer<typeof BatchManifestItemSchema>;
+
+// アイテムの処理状態
+export type BatchItemStatus = "pending" | "uploading" | "minting" | "done" | "failed";
+
+export interface BatchItemState extends BatchManifestItem {
+  status: BatchItemStatus;
+  // アップロード済みのメタデータURI（再開時にアップロードを省略するため保持）
+  metadataUri?: string;
+  nftokenID?: string;
+  error?: string;
+}
+
+// 一括発行の実行状態（中断後に再開できるように保存する）
+export interface BatchRun {
+  id: string;
+  issuer: string;
+  taxon: number;
+  items: BatchItemState[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+// CSVの列名とマニフェストの項目の対応
+const CSV_COLUMNS: Record<string, keyof BatchManifestItem> = {
+  file: "file",
+  filename: "file",
+  name: "name",
+  animation: "animation",
+  animation_file: "animation",
+  description: "description",
+  attributes: "attributes",
+  transfer_fee: "transferFee",
+  transferfee: "transferFee",
+  burnable: "isBurnable",
+  transferable: "isTransferable",
+  only_xrp: "isOnlyXRP",
+  onlyxrp: "isOnlyXRP",
+};
+
+// CSVのテキストを行と列に分割する関数（ダブルクォートで囲まれた値に対応）
+function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // 空行を除外
+  return rows.filter(cells => cells.some(cell => cell.trim() !== ""));
+}
+
+// CSVのフラグ列の値を真偽値に変換する関数（空欄は未指定）
+function parseCsvBoolean(value: string): boolean | undefined {
+  const normalized = value.trim().toLowerCase();
+  if (normalized === "") return undefined;
+  return ["true", "1", "yes", "y"].includes(normalized);
+}
+
+// CSVの属性列を変換する関数
+// JSON配列、または「種類:値;種類:値」の形式に対応
+function parseCsvAttributes(value: string): Array<{ trait_type: string; value: string }> {
+  const trimmed = value.trim();
+  if (trimmed === "") return [];
+  if (trimmed.startsWith("[")) {
+    return JSON.parse(trimmed);
+  }
+
+  return trimmed.split(";").filter(pair => pair.includes(":")).map(pair => {
+    const separatorIndex = pair.indexOf(":");
+    return {
+      trait_type: pair.substring(0, separatorIndex).trim(),
+      value: pair.substring(separatorIndex + 1).trim(),
+    };
+  });
+}
+
+// CSVのマニフェストをオブジェクトの配列に変換する関数
+function parseCsvManifest(text: string): Record<string, unknown>[] {
+  const [header, ...rows] = parseCsvRows(text);
+  if (!header) return [];
+
+  const columns = header.map(column => CSV_COLUMNS[column.trim().toLowerCase().replace(/[\s-]/g, "_")]);
+
+  return rows.map(cells => {
+    const record: Record<string, unknown> = {};
+    columns.forEach((key, index) => {
+      const cell = cells[index] ?? "";
+      if (!key) return;
+
+      if (key === "attributes") {
+        record[key] = parseCsvAttributes(cell);
+      } else if (key === "isBurnable" || key === "isTransferable" || key === "isOnlyXRP") {
+        const flag = parseCsvBoolean(cell);
+        if (flag !== undefined) record[key] = flag;
+      } else if (cell.trim() !== "") {
+        record[key] = cell.trim();
+      }
+    });
+    return record;
+  });
+}
+
+// マニフェスト（CSVまたはJSON）を解析して検証する関数
+export function parseManifest(text: string, fileName: string): BatchManifestItem[] {
+  let records: unknown;
+  try {
+    records = fileName.toLowerCase().endsWith(".json") ? JSON.parse(text) : parseCsvManifest(text);
+  } catch (error) {
+    throw new Error(`マニフェストを読み込めませんでした: ${error instanceof Error ? error.message : error}`);
+  }
+
+  if (!Array.isArray(records) || records.length === 0) {
+    throw new Error("マニフェストにアイテムがありません");
+  }
+
+  return records.map((record, index) => {
+    const result = BatchManifestItemSchema.safeParse(record);
+    if (!result.success) {
+      throw new Error(`${index + 1}件目: ${result.error.issues[0].message}`);
+    }
+    return result.data;
+  });
+}
+
+// マニフェストから一括発行の実行状態を作成する関数
+export function createBatchRun(items: BatchManifestItem[], issuer: string, taxon: number): BatchRun {
+  const now = new Date().toISOString();
+  return {
+    id: `batch-${Date.now()}`,
+    issuer,
+    taxon,
+    items: items.map(item => ({ ...item, status: "pending" })),
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+// 指定したアイテムの状態を更新した実行状態を返す関数
+export function updateBatchItem(run: BatchRun, index: number, update: Partial<BatchItemState>): BatchRun {
+  return {
+    ...run,
+    items: run.items.map((item, itemIndex) => (itemIndex === index ? { ...item, ...update } : item)),
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+// 中断されたアイテムを再開できる状態に戻す関数
+// 失敗したアイテムは再試行し、アップロード中だったものはやり直す
+// メタデータURIがあるアイテムは発行前にfindMintedNFTで発行済みか確認される
+export function prepareBatchResume(run: BatchRun): BatchRun {
+  return {
+    ...run,
+    items: run.items.map(item => {
+      if (item.status === "failed" || item.status === "uploading") {
+        return { ...item, status: "pending", error: undefined };
+      }
+      return item;
+    }),
+  };
+}
+
+// アップロード済みのアイテムが既に発行済みかどうかを確認する関数
+// 発行中の中断や、送信後のタイムアウト・切断による失敗では発行されている場合があるため、再発行の前に確認する
+// 発行後に売却・譲渡されて発行者のアカウントにないNFTも見つけられるよう、発行者のNFTokenMintの履歴（getIssuerMintEvents）から
+// 同じURIとタクソンで発行されたNFTを探し、そのNFTokenIDを返す
+export function findMintedNFT(
+  mintEvents: NFTHistoryEvent[],
+  metadataUri: string,
+  taxon: number
+): string | null {
+  const uri = convertStringToHex(metadataUri);
+  const found = mintEvents.find(
+    event => event.uri?.toUpperCase() === uri && parseNFTokenID(event.nftokenID).Taxon === taxon
+  );
+  return found ? found.nftokenID : null;
+}
+
+// 実行結果のレポート（CSV）を作成する関数
+export function createBatchReport(run: BatchRun): string {
+  const escape = (value: string) => (/[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+  const header = ["file", "name", "status", "nftoken_id", "error"];
+  const rows = run.items.map(item => [
+    item.file,
+    item.name,
+    item.status,
+    item.nftokenID || "",
+    item.error || "",
+  ].map(escape).join(","));
+
+  return [header.join(","), ...rows].join("\n");
+}
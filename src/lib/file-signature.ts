@@ -0,0 +1,45 @@
+// ファイル先頭のバイト列（マジックバイト）から実際の形式を判定する
+// ブラウザが送るMIME Typeや拡張子は偽装できるため、アップロードAPIではこちらを使用する
+
+// 指定した位置のバイト列が一致するかを判定する関数
+function matchesBytes(data: Uint8Array, offset: number, bytes: number[]): boolean {
+  if (data.length < offset + bytes.length) return false;
+  return bytes.every((byte, index) => data[offset + index] === byte);
+}
+
+// 指定した位置のASCII文字列が一致するかを判定する関数
+function matchesAscii(data: Uint8Array, offset: number, text: string): boolean {
+  return matchesBytes(data, offset, Array.from(text, char => char.charCodeAt(0)));
+}
+
+// SVG（XML）かどうかを判定する関数
+// 先頭のBOM・空白・XML宣言・コメント・DOCTYPEを読み飛ばして最初の要素がsvgか確認する
+function isSvg(data: Uint8Array): boolean {
+  const head = new TextDecoder().decode(data.subarray(0, 4096)).replace(/^\uFEFF/, "");
+  const rest = head.replace(/^(\s|<\?xml[\s\S]*?\?>|<!--[\s\S]*?-->|<!DOCTYPE[^>]*>)*/i, "");
+  return /^<svg[\s>]/i.test(rest);
+}
+
+// 画像の形式を判定する関数（判定できない場合はnull）
+export function detectImageType(data: Uint8Array): string | null {
+  if (matchesBytes(data, 0, [0xff, 0xd8, 0xff])) return "image/jpeg";
+  if (matchesBytes(data, 0, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return "image/png";
+  if (matchesAscii(data, 0, "GIF87a") || matchesAscii(data, 0, "GIF89a")) return "image/gif";
+  if (matchesAscii(data, 0, "RIFF") && matchesAscii(data, 8, "WEBP")) return "image/webp";
+  if (isSvg(data)) return "image/svg+xml";
+  return null;
+}
+
+// 音声・動画・3Dモデルの形式を判定する関数（判定できない場合はnull）
+export function detectMediaType(data: Uint8Array): string | null {
+  // MP3（ID3タグ付き、またはフレーム同期ヘッダーから始まるもの）
+  if (matchesAscii(data, 0, "ID3")) return "audio/mpeg";
+  if (data.length >= 2 && data[0] === 0xff && (data[1] & 0xe0) === 0xe0) return "audio/mpeg";
+  if (matchesAscii(data, 0, "RIFF") && matchesAscii(data, 8, "WAVE")) return "audio/wav";
+  // MP4（ISO BMFF）は4バイト目からftypボックスが続く
+  if (matchesAscii(data, 4, "ftyp")) return "video/mp4";
+  // WebM（EBMLヘッダー）
+  if (matchesBytes(data, 0, [0x1a, 0x45, 0xdf, 0xa3])) return "video/webm";
+  if (matchesAscii(data, 0, "glTF")) return "model/gltf-binary";
+  return null;
+}
@@ -0,0 +1,94 @@
+import { createHash } from "crypto";
+import sharp from "sharp";
+
+// サムネイル（カード表示用）と中サイズのプレビューの最大幅・高さ（px）
+export const THUMBNAIL_SIZE = 320;
+export const PREVIEW_SIZE = 1024;
+
+// 縮小画像の形式
+const RESIZED_MIME_TYPE = "image/webp";
+
+export interface ResizedImage {
+  data: Buffer;
+  mimeType: string;
+  width: number;
+  height: number;
+}
+
+export interface ProcessedImage {
+  // 元画像の情報（メタデータに記録する）
+  mimeType: string;
+  width: number;
+  height: number;
+  size: number;
+  sha256: string; // 元画像のSHA-256（16進数）
+  thumbnail: ResizedImage;
+  preview: ResizedImage;
+}
+
+// 画像のSHA-256を計算する関数
+export function computeSha256(data: Buffer): string {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+// SVGをラスタライズする際の最大幅・高さ（px）
+export const SVG_RASTER_SIZE = 2048;
+
+// SVGをPNGに変換する関数（サーバー側でのみ使用）
+// SVGはスクリプトを埋め込めるため、そのまま保存・配信せず画像に変換する
+export async function rasterizeSvg(data: Buffer): Promise<Buffer> {
+  try {
+    return await sharp(data, { density: 300 })
+      .resize({ width: SVG_RASTER_SIZE, height: SVG_RASTER_SIZE, fit: "inside", withoutEnlargement: true })
+      .png()
+      .toBuffer();
+  } catch (error) {
+    console.error(`Failed to rasterize SVG: ${error}`);
+    throw error;
+  }
+}
+
+// 指定したサイズに収まるように縮小する関数（元画像より大きくはしない）
+async function resizeImage(data: Buffer, size: number): Promise<ResizedImage> {
+  // GIFなどのアニメーションはフレームを保ったまま縮小する
+  const { data: resized, info } = await sharp(data, { animated: true })
+    .resize({ width: size, height: size, fit: "inside", withoutEnlargement: true })
+    .webp({ quality: 80 })
+    .toBuffer({ resolveWithObject: true });
+
+  return {
+    data: resized,
+    mimeType: RESIZED_MIME_TYPE,
+    width: info.width,
+    height: info.pageHeight ?? info.height,
+  };
+}
+
+// アップロードされた画像からサムネイルとプレビューを生成し、サイズとハッシュを取得する関数（サーバー側でのみ使用）
+export async function processImage(data: Buffer, mimeType: string): Promise<ProcessedImage> {
+  try {
+    const metadata = await sharp(data).metadata();
+    if (!metadata.width || !metadata.height) {
+      throw new Error("Failed to read image dimensions");
+    }
+
+    const [thumbnail, preview] = await Promise.all([
+      resizeImage(data, THUMBNAIL_SIZE),
+      resizeImage(data, PREVIEW_SIZE),
+    ]);
+
+    return {
+      mimeType,
+      width: metadata.width,
+      // アニメーションの場合heightは全フレームの合計になるため1フレームの高さを使用
+      height: metadata.pageHeight ?? metadata.height,
+      size: data.length,
+      sha256: computeSha256(data),
+      thumbnail,
+      preview,
+    };
+  } catch (error) {
+    console.error(`Failed to process image: ${error}`);
+    throw error;
+  }
+}
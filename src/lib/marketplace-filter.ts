@@ -0,0 +1,271 @@
+import { NFTokenMintFlags, parseNFTokenID } from "xrpl";
+import { compareAmounts, encodeCurrencyKey, formatAmountValue, getAmountCurrency } from "./xrpl/amount";
+import { getCollectionKey, getNFTTaxon } from "./xrpl/collection";
+import { matchesTrait } from "./metadata";
+import { MetadataResolution } from "./metadata-resolver";
+import { Amount, NFT } from "./types";
+
+// コレクション・属性・所有者で絞り込まない場合の値（ALL_COLLECTIONS・ALL_TRAITSと同じ値）
+export const ALL_FILTER_VALUE = "all";
+
+// 並べ替えの種類
+export const MARKETPLACE_SORTS = ["default", "price_asc", "price_desc", "recently_listed", "recently_minted"] as const;
+
+export type MarketplaceSort = typeof MARKETPLACE_SORTS[number];
+
+// 並べ替えの表示名
+export const MARKETPLACE_SORT_LABELS: Record<MarketplaceSort, string> = {
+  default: "標準",
+  price_asc: "価格の安い順",
+  price_desc: "価格の高い順",
+  recently_listed: "出品が新しい順",
+  recently_minted: "発行が新しい順",
+};
+
+// フラグの条件（指定なし・あり・なし）
+export type FlagFilter = "any" | "yes" | "no";
+
+const FLAG_FILTERS: FlagFilter[] = ["any", "yes", "no"];
+
+// マーケットプレイスの検索・絞り込み・並べ替えの条件
+// 価格・手数料は入力欄の文字列のまま保持する（空欄は条件なし）
+export interface MarketplaceFilters {
+  // 名前・説明・NFTokenIDの検索語
+  query: string;
+  // 販売中のNFTのみ表示する
+  listedOnly: boolean;
+  // 価格の範囲を指定する通貨（encodeCurrencyKeyのキー）
+  currency: string;
+  minPrice: string;
+  maxPrice: string;
+  // 発行者のアドレス
+  issuer: string;
+  // 所有者のアドレス（ALL_FILTER_VALUEの場合はすべて）
+  owner: string;
+  // 送金手数料の範囲（%）
+  minTransferFee: string;
+  maxTransferFee: string;
+  burnable: FlagFilter;
+  transferable: FlagFilter;
+  collection: string;
+  trait: string;
+  sort: MarketplaceSort;
+}
+
+export const DEFAULT_MARKETPLACE_FILTERS: MarketplaceFilters = {
+  query: "",
+  listedOnly: false,
+  currency: "XRP",
+  minPrice: "",
+  maxPrice: "",
+  issuer: "",
+  owner: ALL_FILTER_VALUE,
+  minTransferFee: "",
+  maxTransferFee: "",
+  burnable: "any",
+  transferable: "any",
+  collection: ALL_FILTER_VALUE,
+  trait: ALL_FILTER_VALUE,
+  sort: "default",
+};
+
+// 条件ごとのURLのクエリパラメーター名
+const QUERY_PARAMS: Record<keyof MarketplaceFilters, string> = {
+  query: "q",
+  listedOnly: "listed",
+  currency: "currency",
+  minPrice: "min",
+  maxPrice: "max",
+  issuer: "issuer",
+  owner: "owner",
+  minTransferFee: "fee_min",
+  maxTransferFee: "fee_max",
+  burnable: "burnable",
+  transferable: "transferable",
+  collection: "collection",
+  trait: "trait",
+  sort: "sort",
+};
+
+// マーケットプレイスのタブを示すクエリパラメーター
+export const TAB_QUERY_PARAM = "tab";
+export const MARKETPLACE_TAB = "marketplace";
+
+// URLのクエリパラメーターから条件を読み込む関数（共有されたURLで同じ表示にする）
+export function readMarketplaceFilters(): MarketplaceFilters {
+  if (typeof window === "undefined") return DEFAULT_MARKETPLACE_FILTERS;
+
+  const params = new URLSearchParams(window.location.search);
+  const get = (key: keyof MarketplaceFilters) => params.get(QUERY_PARAMS[key]);
+  const filters = { ...DEFAULT_MARKETPLACE_FILTERS };
+
+  filters.query = get("query") ?? filters.query;
+  filters.listedOnly = get("listedOnly") === "1";
+  filters.currency = get("currency") || filters.currency;
+  filters.minPrice = get("minPrice") ?? filters.minPrice;
+  filters.maxPrice = get("maxPrice") ?? filters.maxPrice;
+  filters.issuer = get("issuer") ?? filters.issuer;
+  filters.owner = get("owner") || filters.owner;
+  filters.minTransferFee = get("minTransferFee") ?? filters.minTransferFee;
+  filters.maxTransferFee = get("maxTransferFee") ?? filters.maxTransferFee;
+  filters.collection = get("collection") || filters.collection;
+  filters.trait = get("trait") || filters.trait;
+
+  // 選択肢にない値は無視する
+  const burnable = get("burnable") as FlagFilter;
+  if (FLAG_FILTERS.includes(burnable)) filters.burnable = burnable;
+  const transferable = get("transferable") as FlagFilter;
+  if (FLAG_FILTERS.includes(transferable)) filters.transferable = transferable;
+  const sort = get("sort") as MarketplaceSort;
+  if (MARKETPLACE_SORTS.includes(sort)) filters.sort = sort;
+
+  return filters;
+}
+
+// 条件をURLのクエリパラメーターに反映する関数（履歴は増やさない）
+// 既定値の条件は省略し、他のクエリパラメーターはそのまま残す
+export function writeMarketplaceFilters(filters: MarketplaceFilters): void {
+  if (typeof window === "undefined") return;
+
+  const url = new URL(window.location.href);
+  for (const key of Object.keys(QUERY_PARAMS) as (keyof MarketplaceFilters)[]) {
+    const param = QUERY_PARAMS[key];
+    const value = filters[key];
+    if (value === DEFAULT_MARKETPLACE_FILTERS[key]) {
+      url.searchParams.delete(param);
+    } else {
+      url.searchParams.set(param, typeof value === "boolean" ? "1" : value);
+    }
+  }
+  url.searchParams.set(TAB_QUERY_PARAM, MARKETPLACE_TAB);
+
+  if (url.href !== window.location.href) {
+    window.history.replaceState(window.history.state, "", url);
+  }
+}
+
+// 既定値から変更された条件があるかを判定する関数
+export function hasActiveFilters(filters: MarketplaceFilters): boolean {
+  return (Object.keys(DEFAULT_MARKETPLACE_FILTERS) as (keyof MarketplaceFilters)[])
+    .some(key => key !== "sort" && filters[key] !== DEFAULT_MARKETPLACE_FILTERS[key]);
+}
+
+// 絞り込み・並べ替えの対象（販売アイテム）
+export interface MarketplaceFilterTarget extends NFT {
+  Owner: string;
+  offerAmount?: Amount;
+  offerID: string;
+}
+
+// 絞り込み・並べ替えに使用するインデックスのデータ
+export interface MarketplaceFilterContext {
+  // NFTごとのメタデータの解決結果（名前・説明・属性）
+  metadata: Record<string, MetadataResolution>;
+  // オファーIDごとの作成されたレジャー番号
+  offerLedgers: Record<string, number>;
+  // NFTokenIDごとの発行されたレジャー番号
+  mintLedgers: Record<string, number>;
+}
+
+// 入力欄の数値を読み取る（空欄・不正な値はundefined）
+function parseNumber(value: string): number | undefined {
+  if (!value.trim()) return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+function isInRange(value: number, min?: number, max?: number): boolean {
+  return (min === undefined || value >= min) && (max === undefined || value <= max);
+}
+
+function matchesFlag(flags: number, flag: number, filter: FlagFilter): boolean {
+  if (filter === "any") return true;
+  return ((flags & flag) !== 0) === (filter === "yes");
+}
+
+// 条件に一致する販売アイテムのみを返す関数
+export function filterMarketItems<T extends MarketplaceFilterTarget>(
+  items: T[],
+  filters: MarketplaceFilters,
+  context: MarketplaceFilterContext
+): T[] {
+  const query = filters.query.trim().toLowerCase();
+  const issuer = filters.issuer.trim();
+  const minPrice = parseNumber(filters.minPrice);
+  const maxPrice = parseNumber(filters.maxPrice);
+  const hasPriceRange = minPrice !== undefined || maxPrice !== undefined;
+  const minTransferFee = parseNumber(filters.minTransferFee);
+  const maxTransferFee = parseNumber(filters.maxTransferFee);
+
+  return items.filter((item) => {
+    const metadata = context.metadata[item.NFTokenID]?.metadata;
+
+    if (query) {
+      const matchesQuery = [metadata?.name, metadata?.description, item.NFTokenID]
+        .some(text => !!text && text.toLowerCase().includes(query));
+      if (!matchesQuery) return false;
+    }
+
+    if (filters.listedOnly && !item.offerAmount) return false;
+
+    // 価格の範囲は指定した通貨で出品されているNFTのみを対象にする
+    if (hasPriceRange) {
+      if (!item.offerAmount || encodeCurrencyKey(getAmountCurrency(item.offerAmount)) !== filters.currency) return false;
+      if (!isInRange(Number(formatAmountValue(item.offerAmount)), minPrice, maxPrice)) return false;
+    }
+
+    if (issuer && item.Issuer !== issuer) return false;
+    if (filters.owner !== ALL_FILTER_VALUE && item.Owner !== filters.owner) return false;
+
+    // フラグと送金手数料はNFTokenIDに含まれる値を使用する
+    const { Flags, TransferFee } = parseNFTokenID(item.NFTokenID);
+    if (!isInRange(TransferFee / 1000, minTransferFee, maxTransferFee)) return false;
+    if (!matchesFlag(Flags, NFTokenMintFlags.tfBurnable, filters.burnable)) return false;
+    if (!matchesFlag(Flags, NFTokenMintFlags.tfTransferable, filters.transferable)) return false;
+
+    if (filters.collection !== ALL_FILTER_VALUE && getCollectionKey(item.Issuer, getNFTTaxon(item)) !== filters.collection) {
+      return false;
+    }
+    if (filters.trait !== ALL_FILTER_VALUE && !matchesTrait(metadata?.attributes, filters.trait)) return false;
+
+    return true;
+  });
+}
+
+// 販売アイテムを並べ替える関数（値がないアイテムは後ろに並べ、同じ値の場合は元の順序を保つ）
+export function sortMarketItems<T extends MarketplaceFilterTarget>(
+  items: T[],
+  sort: MarketplaceSort,
+  context: MarketplaceFilterContext
+): T[] {
+  const compareMissing = (a: unknown, b: unknown) => (a === undefined ? 1 : 0) - (b === undefined ? 1 : 0);
+
+  switch (sort) {
+    case "price_asc":
+    case "price_desc": {
+      const direction = sort === "price_asc" ? 1 : -1;
+      return [...items].sort((a, b) => {
+        if (!a.offerAmount || !b.offerAmount) return compareMissing(a.offerAmount, b.offerAmount);
+        return compareAmounts(a.offerAmount, b.offerAmount) * direction;
+      });
+    }
+
+    case "recently_listed":
+    case "recently_minted": {
+      // 出品はオファーを作成したレジャー、発行はNFTokenMintのレジャーの新しい順
+      // （NFTokenIDの連番は発行者ごとの値のため、発行者をまたいだ比較には使えない）
+      const getLedger = sort === "recently_listed"
+        ? (item: T) => (item.offerID ? context.offerLedgers[item.offerID] : undefined)
+        : (item: T) => context.mintLedgers[item.NFTokenID];
+      return [...items].sort((a, b) => {
+        const ledgerA = getLedger(a);
+        const ledgerB = getLedger(b);
+        if (ledgerA === undefined || ledgerB === undefined) return compareMissing(ledgerA, ledgerB);
+        return ledgerB - ledgerA;
+      });
+    }
+
+    default:
+      return items;
+  }
+}
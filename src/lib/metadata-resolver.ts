@@ -0,0 +1,415 @@
+import { convertHexToString } from "xrpl";
+import {
+  AnimationDetailsSchema,
+  ImageDetailsSchema,
+  XLS24dMetadataSchema,
+  normalizeAttributes,
+  toGatewayUrl,
+} from "./metadata";
+import { NFTMetadata } from "./types";
+
+// メタデータの解決結果の状態
+// resolved: 取得できた（XLS-24d以外の形式も正規化して返す）
+// no_uri: NFTにURIが設定されていない
+// unsupported: 解釈できない形式のURI
+// unreachable: URIの取得に失敗した（ネットワークエラー、HTTPエラー、タイムアウト）
+// invalid: 取得できたがJSONとして解釈できない、または表示できる情報がない
+export type MetadataStatus = "resolved" | "no_uri" | "unsupported" | "unreachable" | "invalid";
+
+// メタデータの取得元
+export type MetadataSource = "data" | "inline" | "http" | "ipfs" | "media";
+
+// メタデータの解決結果（クライアントのキャッシュとAPIのレスポンスで共通）
+export interface MetadataResolution {
+  status: MetadataStatus;
+  metadata: NFTMetadata | null;
+  uri: string | null; // デコード済みのURI
+  source: MetadataSource | null;
+  // XLS-24dのスキーマに準拠しているか
+  conformsToSchema: boolean;
+  error?: string;
+  resolvedAt: number;
+}
+
+export interface ResolveMetadataOptions {
+  // ホスト相対パス（/metadata/...）の内容を読み込む関数（サーバーで使用、ローカル保存のメタデータ）
+  readLocalPath?: (path: string) => Promise<string>;
+  // URLを検証して取得する関数（サーバーで使用、許可しない場合はBlockedUrlErrorを投げる）
+  // リダイレクトをたどらずに返す必要があり、リダイレクト先もこの関数で取得する
+  fetchUrl?: (url: string, signal: AbortSignal) => Promise<Response>;
+  timeoutMs?: number;
+}
+
+// 状態ごとの表示用メッセージ（取得できなかったNFTの説明に使用）
+export const METADATA_STATUS_MESSAGES: Record<MetadataStatus, string> = {
+  resolved: "",
+  no_uri: "メタデータが設定されていません",
+  unsupported: "対応していない形式のメタデータです",
+  unreachable: "メタデータを取得できませんでした",
+  invalid: "メタデータの形式が正しくありません",
+};
+
+// メタデータの取得のタイムアウト（ミリ秒）
+const DEFAULT_FETCH_TIMEOUT = 10000;
+// 読み込むメタデータの上限（1MB、超えた場合は読み込みを中止する）
+export const MAX_METADATA_BYTES = 1024 * 1024;
+// 検証してたどるリダイレクトの上限
+const MAX_REDIRECTS = 3;
+
+// IndexedDBのキャッシュの有効期間（ミリ秒）
+const CACHE_TTL = 24 * 60 * 60 * 1000;
+const CACHE_DB_NAME = "xrpl-nft-marketplace";
+const CACHE_STORE_NAME = "nft-metadata";
+
+// URIごとの解決結果（同じNFTを複数の画面で表示しても取得は1回にする）
+const memoryCache = new Map<string, Promise<MetadataResolution>>();
+
+// NFTのURI（16進数）からメタデータを解決する関数（キャッシュなし、サーバーとクライアントで共通）
+// XLS-24d形式のほか、他のツールで発行されたNFTのURI（ipfs://、CIDのみ、data:URL、画像への直接のURLなど）にも対応する
+// 失敗は例外にせず状態として返す
+export async function resolveMetadataUri(
+  hexUri: string | undefined,
+  options: ResolveMetadataOptions = {}
+): Promise<MetadataResolution> {
+  if (!hexUri) {
+    return createResolution("no_uri", null, null);
+  }
+
+  let uri: string;
+  try {
+    uri = convertHexToString(hexUri).trim();
+  } catch (error) {
+    return createResolution("unsupported", null, null, { error: String(error) });
+  }
+  if (!uri) {
+    return createResolution("no_uri", null, null);
+  }
+
+  // data:URL（Base64またはURLエンコード）
+  const dataMatch = uri.match(/^data:application\/json(;charset=[^;,]+)?(;base64)?,([\s\S]*)$/);
+  if (dataMatch) {
+    try {
+      const json = dataMatch[2] ? decodeBase64Utf8(dataMatch[3]) : decodeURIComponent(dataMatch[3]);
+      return fromJson(JSON.parse(json), uri, "data");
+    } catch (error) {
+      return createResolution("invalid", uri, "data", { error: String(error) });
+    }
+  }
+
+  // JSONが直接URIに入っている場合
+  if (uri.startsWith("{")) {
+    try {
+      return fromJson(JSON.parse(uri), uri, "inline");
+    } catch (error) {
+      return createResolution("invalid", uri, "inline", { error: String(error) });
+    }
+  }
+
+  // Vercel BlobやIPFSのURL、ホスト相対パスの場合はフェッチ
+  const url = toGatewayUrl(uri);
+  if (!url.startsWith("http://") && !url.startsWith("https://") && !url.startsWith("/")) {
+    return createResolution("unsupported", uri, null);
+  }
+  const source: MetadataSource = url !== uri ? "ipfs" : "http";
+
+  // サーバーではホスト相対パスをフェッチせず、保存先から直接読み込む
+  if (url.startsWith("/") && options.readLocalPath) {
+    let text: string;
+    try {
+      text = await options.readLocalPath(url);
+    } catch (error) {
+      return createResolution("unreachable", uri, source, { error: String(error) });
+    }
+    try {
+      return fromJson(JSON.parse(text), uri, source);
+    } catch (error) {
+      return createResolution("invalid", uri, source, { error: String(error) });
+    }
+  }
+
+  let response: Response;
+  try {
+    response = await fetchMetadata(url, options);
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+  } catch (error) {
+    console.error(`Failed to fetch NFT metadata: ${error}`);
+    // 検証で拒否されたURLは再取得しても同じ結果になる
+    const status = error instanceof BlockedUrlError ? "unsupported" : "unreachable";
+    return createResolution(status, uri, source, { error: String(error) });
+  }
+
+  // URIが画像や動画を直接指している場合はそれを画像・メディアとして扱う
+  const contentType = response.headers.get("content-type") || "";
+  if (contentType.startsWith("image/")) {
+    await response.body?.cancel().catch(() => undefined);
+    return createResolution("resolved", uri, "media", { metadata: toNFTMetadata({ image: url }) });
+  }
+  if (contentType.startsWith("video/") || contentType.startsWith("audio/") || contentType.startsWith("model/")) {
+    await response.body?.cancel().catch(() => undefined);
+    return createResolution("resolved", uri, "media", { metadata: toNFTMetadata({ animation: url }) });
+  }
+
+  try {
+    return fromJson(JSON.parse(await readLimitedText(response, MAX_METADATA_BYTES)), uri, source);
+  } catch (error) {
+    return createResolution("invalid", uri, source, { error: String(error) });
+  }
+}
+
+// URLの検証で拒否された場合のエラー
+export class BlockedUrlError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BlockedUrlError";
+  }
+}
+
+// メタデータをフェッチする関数
+// fetchUrlを指定した場合は、リダイレクトを自動でたどらず、リダイレクト先もfetchUrlで取得する
+async function fetchMetadata(url: string, options: ResolveMetadataOptions): Promise<Response> {
+  const signal = AbortSignal.timeout(options.timeoutMs ?? DEFAULT_FETCH_TIMEOUT);
+  if (!options.fetchUrl) {
+    return fetch(url, { signal });
+  }
+
+  let currentUrl = url;
+  for (let redirects = 0; ; redirects++) {
+    const response = await options.fetchUrl(currentUrl, signal);
+    const location = response.headers.get("location");
+    if (response.status < 300 || response.status >= 400 || !location) {
+      return response;
+    }
+    await response.body?.cancel().catch(() => undefined);
+    if (redirects >= MAX_REDIRECTS) {
+      throw new Error("Too many redirects");
+    }
+    currentUrl = new URL(location, currentUrl).toString();
+  }
+}
+
+// レスポンスの本文を上限のバイト数まで読み込む関数（超えた場合は読み込みを中止して例外を投げる）
+async function readLimitedText(response: Response, maxBytes: number): Promise<string> {
+  const declaredLength = Number(response.headers.get("content-length"));
+  if (declaredLength > maxBytes) {
+    await response.body?.cancel().catch(() => undefined);
+    throw new Error(`Metadata exceeds ${maxBytes} bytes`);
+  }
+  if (!response.body) return "";
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    total += value.byteLength;
+    if (total > maxBytes) {
+      await reader.cancel().catch(() => undefined);
+      throw new Error(`Metadata exceeds ${maxBytes} bytes`);
+    }
+    chunks.push(value);
+  }
+
+  const data = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    data.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return new TextDecoder().decode(data);
+}
+
+// NFTのURI（16進数）からメタデータを解決する関数（クライアント用）
+// メモリとIndexedDBのキャッシュを使い、NFT一覧・マーケットプレイス・オファー一覧で結果を共有する
+export function resolveNFTMetadata(hexUri?: string): Promise<MetadataResolution> {
+  if (!hexUri) return resolveMetadataUri(hexUri);
+
+  const cached = memoryCache.get(hexUri);
+  if (cached) return cached;
+
+  const promise = loadWithPersistentCache(hexUri);
+  memoryCache.set(hexUri, promise);
+  promise.then((resolution) => {
+    // 一時的な失敗は次回再取得できるようにキャッシュから削除
+    if (resolution.status === "unreachable") {
+      memoryCache.delete(hexUri);
+    }
+  });
+  return promise;
+}
+
+// 画面に表示するメタデータを取得する関数
+// 取得できなかった場合はNFTokenIDと状態から、どの画面でも同じ代替表示を作成する
+export function getDisplayMetadata(nftokenID: string, resolution: MetadataResolution | null): NFTMetadata {
+  if (resolution?.metadata) {
+    return {
+      ...resolution.metadata,
+      name: resolution.metadata.name || getFallbackName(nftokenID),
+    };
+  }
+  return {
+    name: getFallbackName(nftokenID),
+    description: resolution ? METADATA_STATUS_MESSAGES[resolution.status] : "",
+    image: null,
+  };
+}
+
+// メタデータに名前がないNFTの表示名
+function getFallbackName(nftokenID: string): string {
+  return `${nftokenID.substring(0, 8)}...`;
+}
+
+// IndexedDBのキャッシュを確認し、なければ解決して保存する関数
+async function loadWithPersistentCache(hexUri: string): Promise<MetadataResolution> {
+  // キャッシュが使えない場合（プライベートブラウズ等）は毎回取得する
+  const stored = await readCachedResolution(hexUri).catch(() => null);
+  if (stored && Date.now() - stored.resolvedAt < CACHE_TTL) {
+    return stored;
+  }
+
+  const resolution = await resolveMetadataUri(hexUri);
+  if (resolution.status !== "unreachable") {
+    await writeCachedResolution(hexUri, resolution).catch(() => undefined);
+  }
+  return resolution;
+}
+
+// キャッシュ用のIndexedDBを開く関数（使用できない環境ではnull）
+function openCacheDatabase(): Promise<IDBDatabase | null> {
+  if (typeof indexedDB === "undefined") return Promise.resolve(null);
+
+  return new Promise((resolve) => {
+    const request = indexedDB.open(CACHE_DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(CACHE_STORE_NAME);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      console.warn("メタデータのキャッシュを開けませんでした:", request.error);
+      resolve(null);
+    };
+  });
+}
+
+// キャッシュから解決結果を読み込む関数（キャッシュの失敗は取得し直すだけなので例外にしない）
+async function readCachedResolution(hexUri: string): Promise<MetadataResolution | null> {
+  const db = await openCacheDatabase();
+  if (!db) return null;
+
+  return new Promise((resolve) => {
+    const request = db.transaction(CACHE_STORE_NAME, "readonly").objectStore(CACHE_STORE_NAME).get(hexUri);
+    request.onsuccess = () => {
+      db.close();
+      resolve((request.result as MetadataResolution | undefined) ?? null);
+    };
+    request.onerror = () => {
+      db.close();
+      resolve(null);
+    };
+  });
+}
+
+// 解決結果をキャッシュに保存する関数
+async function writeCachedResolution(hexUri: string, resolution: MetadataResolution): Promise<void> {
+  const db = await openCacheDatabase();
+  if (!db) return;
+
+  return new Promise((resolve) => {
+    const transaction = db.transaction(CACHE_STORE_NAME, "readwrite");
+    transaction.objectStore(CACHE_STORE_NAME).put(resolution, hexUri);
+    transaction.oncomplete = () => {
+      db.close();
+      resolve();
+    };
+    transaction.onerror = () => {
+      console.warn("メタデータをキャッシュに保存できませんでした:", transaction.error);
+      db.close();
+      resolve();
+    };
+  });
+}
+
+// 解決結果を作成するヘルパー関数
+function createResolution(
+  status: MetadataStatus,
+  uri: string | null,
+  source: MetadataSource | null,
+  extra: { metadata?: NFTMetadata; conformsToSchema?: boolean; error?: string } = {}
+): MetadataResolution {
+  return {
+    status,
+    metadata: extra.metadata ?? null,
+    uri,
+    source,
+    conformsToSchema: extra.conformsToSchema ?? false,
+    ...(extra.error ? { error: extra.error } : {}),
+    resolvedAt: Date.now(),
+  };
+}
+
+// 取得したJSONを検証して解決結果に変換する関数
+function fromJson(data: unknown, uri: string, source: MetadataSource): MetadataResolution {
+  if (!isRecord(data)) {
+    return createResolution("invalid", uri, source, { error: "メタデータがJSONオブジェクトではありません" });
+  }
+
+  const metadata = toNFTMetadata(data);
+  // 名前・画像・メディアのいずれもない場合は表示できないため不正とする
+  if (!metadata.name && !metadata.image && !metadata.animation) {
+    return createResolution("invalid", uri, source, { error: "表示できる項目がありません" });
+  }
+
+  return createResolution("resolved", uri, source, {
+    metadata,
+    conformsToSchema: XLS24dMetadataSchema.safeParse(data).success,
+  });
+}
+
+// Base64をUTF-8の文字列としてデコードする関数（日本語等のマルチバイト文字対応）
+function decodeBase64Utf8(base64: string): string {
+  const binary = atob(base64);
+  const bytes = Uint8Array.from(binary, char => char.charCodeAt(0));
+  return new TextDecoder().decode(bytes);
+}
+
+// 文字列のフィールドを取得するヘルパー関数（最初に見つかった文字列を返す）
+function pickString(...values: unknown[]): string | undefined {
+  return values.find((value): value is string => typeof value === "string" && value.trim() !== "");
+}
+
+// JSONのオブジェクト（配列以外）かどうかを判定するヘルパー関数
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// 取得したJSONをNFTMetadataに変換する関数
+// XLS-24dのフィールドを優先し、OpenSea形式（image_url、animation_url）などにも対応する
+// 外部から取得した値のため、オブジェクト以外や型の異なるフィールドは無視する
+function toNFTMetadata(data: unknown): NFTMetadata {
+  const fields = isRecord(data) ? data : {};
+  const collection = isRecord(fields.collection) ? fields.collection : undefined;
+  const image = pickString(fields.image, fields.image_url, fields.imageUrl);
+  const thumbnail = pickString(fields.thumbnail);
+  const preview = pickString(fields.preview);
+  const imageDetails = ImageDetailsSchema.safeParse(fields.image_details);
+  const animation = pickString(fields.animation, fields.animation_url, fields.video, fields.audio);
+  const animationDetails = AnimationDetailsSchema.safeParse(fields.animation_details);
+  const collectionName = pickString(collection?.name, fields.collection);
+
+  return {
+    name: pickString(fields.name, fields.title) ?? "",
+    description: pickString(fields.description) ?? "",
+    image: image ? toGatewayUrl(image) : null,
+    ...(thumbnail ? { thumbnail: toGatewayUrl(thumbnail) } : {}),
+    ...(preview ? { preview: toGatewayUrl(preview) } : {}),
+    ...(imageDetails.success ? { image_details: imageDetails.data } : {}),
+    ...(animation ? { animation: toGatewayUrl(animation) } : {}),
+    ...(animationDetails.success ? { animation_details: animationDetails.data } : {}),
+    ...(collectionName ? { collection: { name: collectionName, family: pickString(collection?.family) } } : {}),
+    ...(typeof fields.schema === "string" ? { schema: fields.schema } : {}),
+    ...(typeof fields.nftType === "string" ? { nftType: fields.nftType } : {}),
+    attributes: normalizeAttributes(fields.attributes ?? fields.traits),
+  };
+}
@@ -0,0 +1,258 @@
+import { z } from "zod";
+
+// 属性（トレイト）の表示形式
+// stringはdisplay_typeを省略し、それ以外はOpenSea互換のdisplay_typeとして保存する
+export const TRAIT_DISPLAY_TYPES = ["string", "number", "date", "boost_number", "boost_percentage"] as const;
+
+export type TraitDisplayType = typeof TRAIT_DISPLAY_TYPES[number];
+
+// 表示形式の表示名
+export const TRAIT_DISPLAY_TYPE_LABELS: Record<TraitDisplayType, string> = {
+  string: "テキスト",
+  number: "数値",
+  date: "日付",
+  boost_number: "ブースト（数値）",
+  boost_percentage: "ブースト（%）",
+};
+
+// 1つのNFTに設定できる属性の上限
+export const MAX_ATTRIBUTES = 50;
+
+// 属性のスキーマ（クライアントとアップロードAPIで共通）
+export const NFTAttributeSchema = z.object({
+  trait_type: z.string().trim().min(1, { message: "属性名を入力してください" }).max(64, { message: "属性名は64文字以内で入力してください" }),
+  value: z.union([z.string().max(256, { message: "属性の値は256文字以内で入力してください" }), z.number()]),
+  display_type: z.enum(["number", "date", "boost_number", "boost_percentage"]).optional(),
+  max_value: z.number().optional(),
+  description: z.string().optional(), // XLS-24dでは属性ごとに説明を付けられる
+}).superRefine((attribute, ctx) => {
+  // 文字列以外の表示形式は数値が必要（日付はUNIX時間の秒）
+  if (attribute.display_type && (typeof attribute.value !== "number" || !Number.isFinite(attribute.value))) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: `属性「${attribute.trait_type}」の値は数値で入力してください`,
+      path: ["value"],
+    });
+  }
+  if (typeof attribute.value === "string" && attribute.value.trim() === "") {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: `属性「${attribute.trait_type}」の値を入力してください`,
+      path: ["value"],
+    });
+  }
+});
+
+export const NFTAttributesSchema = z.array(NFTAttributeSchema)
+  .max(MAX_ATTRIBUTES, { message: `属性は${MAX_ATTRIBUTES}件まで設定できます` })
+  .refine(
+    attributes => new Set(attributes.map(attribute => attribute.trait_type)).size === attributes.length,
+    { message: "同じ名前の属性が複数あります" }
+  );
+
+export type NFTAttribute = z.infer<typeof NFTAttributeSchema>;
+
+// トレイトエディタで編集中の属性（入力値は文字列のまま保持する）
+export interface TraitDraft {
+  trait_type: string;
+  display_type: TraitDisplayType;
+  value: string; // 日付はyyyy-mm-dd形式
+}
+
+// 編集中の属性をメタデータの属性に変換して検証する関数
+export function toNFTAttributes(drafts: TraitDraft[]): NFTAttribute[] {
+  const attributes = drafts.map(draft => {
+    if (draft.display_type === "string") {
+      return { trait_type: draft.trait_type, value: draft.value };
+    }
+    const value = draft.display_type === "date"
+      ? Math.floor(Date.parse(draft.value) / 1000)
+      : Number(draft.value);
+    return {
+      trait_type: draft.trait_type,
+      value: draft.value.trim() === "" ? NaN : value,
+      display_type: draft.display_type,
+    };
+  });
+
+  const result = NFTAttributesSchema.safeParse(attributes);
+  if (!result.success) {
+    throw new Error(result.error.issues[0].message);
+  }
+  return result.data;
+}
+
+// 取得したメタデータの属性から不正なものを除外する関数
+export function normalizeAttributes(raw: unknown): NFTAttribute[] {
+  if (!Array.isArray(raw)) return [];
+  return raw.flatMap(item => {
+    const result = NFTAttributeSchema.safeParse(item);
+    return result.success ? [result.data] : [];
+  });
+}
+
+// 属性の値を表示用の文字列に変換する関数
+export function formatTraitValue(attribute: NFTAttribute): string {
+  const { value, display_type } = attribute;
+  if (typeof value !== "number") return value;
+
+  switch (display_type) {
+    case "date":
+      return new Date(value * 1000).toLocaleDateString("ja-JP");
+    case "boost_number":
+      return `${value >= 0 ? "+" : ""}${value}`;
+    case "boost_percentage":
+      return `${value >= 0 ? "+" : ""}${value}%`;
+    default:
+      return attribute.max_value !== undefined ? `${value} / ${attribute.max_value}` : String(value);
+  }
+}
+
+// 属性で絞り込む場合のキー（属性名と表示用の値の組み合わせ）
+export function getTraitKey(attribute: NFTAttribute): string {
+  return `${attribute.trait_type}:${formatTraitValue(attribute)}`;
+}
+
+// 絞り込みの選択肢
+export interface TraitOption {
+  key: string;
+  traitType: string;
+  value: string;
+  count: number;
+}
+
+// 複数のNFTの属性から絞り込みの選択肢を作成する関数（属性名、値の順に並べる）
+export function getTraitOptions(attributesList: NFTAttribute[][]): TraitOption[] {
+  const options = new Map<string, TraitOption>();
+  for (const attributes of attributesList) {
+    for (const attribute of attributes) {
+      const key = getTraitKey(attribute);
+      const option = options.get(key);
+      if (option) {
+        option.count++;
+      } else {
+        options.set(key, { key, traitType: attribute.trait_type, value: formatTraitValue(attribute), count: 1 });
+      }
+    }
+  }
+  return Array.from(options.values()).sort((a, b) =>
+    a.traitType === b.traitType ? a.value.localeCompare(b.value) : a.traitType.localeCompare(b.traitType)
+  );
+}
+
+// NFTの属性が選択した絞り込み条件に一致するかを判定する関数
+export function matchesTrait(attributes: NFTAttribute[] | undefined, traitKey: string): boolean {
+  return !!attributes?.some(attribute => getTraitKey(attribute) === traitKey);
+}
+
+// XLS-24d（NFTメタデータの標準）のスキーマを示すURI
+export const XLS24D_SCHEMA = "ipfs://QmNpi8rcXEkohca8iXu7zysKKSJYqCvBJn3xJwga8jXqWU";
+// XLS-24dのnftType（このアプリで発行するNFTの種類とバージョン）
+export const DEFAULT_NFT_TYPE = "art.v0";
+// ipfs://のURIを表示するためのゲートウェイ（NEXT_PUBLIC_IPFS_GATEWAYで変更可能）
+export const IPFS_GATEWAY = (process.env.NEXT_PUBLIC_IPFS_GATEWAY || "https://ipfs.io/ipfs/").replace(/\/*$/, "/");
+
+// 元画像の情報
+export const ImageDetailsSchema = z.object({
+  mime_type: z.string(),
+  width: z.number().int().positive(),
+  height: z.number().int().positive(),
+  size: z.number().int().nonnegative(),
+  sha256: z.string().regex(/^[0-9a-f]{64}$/),
+});
+
+export type ImageDetails = z.infer<typeof ImageDetailsSchema>;
+
+// 音声・動画・3Dモデルのファイルの情報
+export const AnimationDetailsSchema = z.object({
+  mime_type: z.string(),
+  size: z.number().int().nonnegative(),
+  sha256: z.string().regex(/^[0-9a-f]{64}$/),
+});
+
+export type AnimationDetails = z.infer<typeof AnimationDetailsSchema>;
+
+// XLS-24d形式のメタデータのスキーマ
+export const XLS24dMetadataSchema = z.object({
+  schema: z.string(),
+  nftType: z.string(),
+  name: z.string().min(1, { message: "NFT名を入力してください" }),
+  description: z.string(),
+  image: z.string(),
+  // 元画像の形式・サイズとSHA-256（閲覧者が画像の改ざんを検証できるようにする）
+  image_details: ImageDetailsSchema.optional(),
+  // カード表示用のサムネイルと中サイズのプレビュー
+  thumbnail: z.string().optional(),
+  preview: z.string().optional(),
+  // 音声・動画・3Dモデル（XLS-24dのanimationと、他のマーケットプレイスとの互換のためのanimation_url）
+  animation: z.string().optional(),
+  animation_url: z.string().optional(),
+  animation_details: AnimationDetailsSchema.optional(),
+  collection: z.object({
+    name: z.string(),
+    family: z.string().optional(),
+  }).optional(),
+  attributes: NFTAttributesSchema.optional(),
+});
+
+export type XLS24dMetadata = z.infer<typeof XLS24dMetadataSchema>;
+
+// XLS-24d形式のメタデータを作成する関数（アップロードAPIで使用）
+export function createXLS24dMetadata(params: {
+  name: string;
+  description: string;
+  image: string;
+  imageDetails?: ImageDetails;
+  thumbnail?: string;
+  preview?: string;
+  animation?: string;
+  animationDetails?: AnimationDetails;
+  collectionName?: string;
+  attributes?: NFTAttribute[];
+}): XLS24dMetadata {
+  return XLS24dMetadataSchema.parse({
+    schema: XLS24D_SCHEMA,
+    nftType: DEFAULT_NFT_TYPE,
+    name: params.name,
+    description: params.description,
+    image: params.image,
+    ...(params.imageDetails ? { image_details: params.imageDetails } : {}),
+    ...(params.thumbnail ? { thumbnail: params.thumbnail } : {}),
+    ...(params.preview ? { preview: params.preview } : {}),
+    ...(params.animation ? { animation: params.animation, animation_url: params.animation } : {}),
+    ...(params.animationDetails ? { animation_details: params.animationDetails } : {}),
+    ...(params.collectionName ? { collection: { name: params.collectionName } } : {}),
+    ...(params.attributes && params.attributes.length > 0 ? { attributes: params.attributes } : {}),
+  });
+}
+
+// IPFSのCID（v0: Qm...、v1: bafy...）だけのURIかどうか
+const IPFS_CID_PATTERN = /^(Qm[1-9A-HJ-NP-Za-km-z]{44}|b[a-z2-7]{58,})(\/.*)?$/;
+
+// ipfs://やCIDのみのURIをゲートウェイのURLに変換する関数（それ以外はそのまま返す）
+export function toGatewayUrl(uri: string): string {
+  const trimmed = uri.trim();
+  if (trimmed.startsWith("ipfs://")) {
+    return IPFS_GATEWAY + trimmed.replace(/^ipfs:\/\/(ipfs\/)?/, "");
+  }
+  if (IPFS_CID_PATTERN.test(trimmed)) {
+    return IPFS_GATEWAY + trimmed;
+  }
+  return trimmed;
+}
+
+// 画像を取得してメタデータのSHA-256と一致するか検証する関数
+export async function verifyImageIntegrity(imageUrl: string, sha256: string): Promise<boolean> {
+  try {
+    const response = await fetch(imageUrl);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch image: ${response.status}`);
+    }
+    const digest = await crypto.subtle.digest("SHA-256", await response.arrayBuffer());
+    const hex = Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, "0")).join("");
+    return hex === sha256.toLowerCase();
+  } catch (error) {
+    console.error(`Failed to verify image integrity: ${error}`);
+    throw error;
+  }
+}
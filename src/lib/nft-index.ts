@@ -0,0 +1,707 @@
+import { useCallback, useEffect } from 'react';
+import { create } from 'zustand';
+import { useShallow } from 'zustand/react/shallow';
+import { getClient } from './xrpl/client';
+import { getAccountOfferLedgers, getNFTBuyOffers, getNFTOffers, iterateAccountNFTs, iterateIssuerNFTs, toNFTFromTokenID, toNFTOffer } from './xrpl/nft';
+import { NFTHistoryEvent, getIssuerMintEvents, getNFTMintEvent } from './xrpl/history';
+import { MetadataResolution, resolveNFTMetadata } from './metadata-resolver';
+import { NFT, NFTOffer } from './types';
+
+// 取得したデータを新しいとみなす時間（ミリ秒）
+// これを過ぎたデータは表示したまま裏で取得し直す（stale-while-revalidate）
+export const INDEX_STALE_TIME = 30000;
+
+// 取得状態
+export type IndexStatus = 'idle' | 'loading' | 'success' | 'error';
+
+// 取得単位（アカウントの所有NFT、NFTのオファー）ごとの状態
+export interface IndexEntry {
+  ids: string[];
+  status: IndexStatus;
+  // 最後に取得に成功した時刻（未取得の場合はnull）
+  updatedAt: number | null;
+  error: string | null;
+}
+
+// NFTの発行トランザクションの情報
+export interface IndexedMint {
+  // NFTokenMintの送信者（代理発行の場合は発行者とは異なる）
+  minter: string;
+  ledgerIndex: number;
+}
+
+export interface IndexFetchOptions {
+  // 新しいデータがあっても取得し直す
+  force?: boolean;
+}
+
+interface NFTIndexState {
+  // NFTokenIDごとのNFT（Ownerは最後に取得・受信した所有者）
+  nfts: Record<string, NFT>;
+  // オファーIDごとのオファー
+  offers: Record<string, NFTOffer>;
+  // アカウントごとの所有NFTのID
+  accounts: Record<string, IndexEntry>;
+  // 発行者ごとの発行したNFTのID（ウォッチリストの発行者）
+  issuers: Record<string, IndexEntry>;
+  // NFTごとのオファーのID（売り・買いの両方）
+  offersByNFT: Record<string, IndexEntry>;
+  // NFTごとのメタデータの解決結果
+  metadata: Record<string, MetadataResolution>;
+  // オファーIDごとのオファーが作成されたレジャー番号（出品が新しい順の並べ替えに使用）
+  offerLedgers: Record<string, number>;
+  // アカウントごとの作成したオファーのID（レジャー番号の取得単位）
+  offerLedgersByAccount: Record<string, IndexEntry>;
+  // NFTokenIDごとの発行トランザクションの情報（発行イベントが見つからなかった場合はnull）
+  mints: Record<string, IndexedMint | null>;
+  // 発行者ごとの発行したNFTのID（発行トランザクションの取得単位）
+  mintsByIssuer: Record<string, IndexEntry>;
+
+  // アクション
+  fetchAccountNFTs: (address: string, options?: IndexFetchOptions) => Promise<void>;
+  fetchIssuerNFTs: (issuer: string, options?: IndexFetchOptions) => Promise<void>;
+  fetchNFTOffers: (nftokenID: string, options?: IndexFetchOptions) => Promise<void>;
+  fetchMetadata: (nftokenID: string) => Promise<void>;
+  fetchOfferLedgers: (address: string, options?: IndexFetchOptions) => Promise<void>;
+  fetchMint: (nftokenID: string) => Promise<void>;
+  fetchIssuerMints: (issuer: string, options?: IndexFetchOptions) => Promise<void>;
+  // 購読で受信したイベントを差分で反映する
+  applyEvents: (events: NFTHistoryEvent[]) => void;
+  // ネットワーク切り替え時にすべてのデータを破棄する
+  reset: () => void;
+}
+
+const EMPTY_ENTRY: IndexEntry = { ids: [], status: 'idle', updatedAt: null, error: null };
+
+// 実行中のリクエスト（同じキーのリクエストは1つにまとめる）
+const inflightRequests = new Map<string, Promise<void>>();
+// resetのたびに増やし、切り替え前のネットワークの応答を破棄する
+let generation = 0;
+
+// 同時に実行するオファー・メタデータの取得の上限
+// 数千件のNFTを表示する場合にサーバーへリクエストが集中しないようにする
+const MAX_CONCURRENT_REQUESTS = 8;
+let activeRequests = 0;
+const waitingRequests: Array<() => void> = [];
+
+// 同時実行数の上限内でリクエストを実行する
+async function withRequestSlot<T>(task: () => Promise<T>): Promise<T> {
+  if (activeRequests < MAX_CONCURRENT_REQUESTS) {
+    activeRequests++;
+  } else {
+    // 空きが出たら終了したリクエストから枠を引き継ぐ
+    await new Promise<void>(resolve => waitingRequests.push(resolve));
+  }
+
+  try {
+    return await task();
+  } finally {
+    const next = waitingRequests.shift();
+    if (next) {
+      next();
+    } else {
+      activeRequests--;
+    }
+  }
+}
+
+// 同じキーのリクエストが実行中であればその結果を待ち、なければ開始する
+function dedupe(key: string, request: () => Promise<void>): Promise<void> {
+  const inflight = inflightRequests.get(key);
+  if (inflight) return inflight;
+
+  const promise: Promise<void> = request().finally(() => {
+    if (inflightRequests.get(key) === promise) inflightRequests.delete(key);
+  });
+  inflightRequests.set(key, promise);
+  return promise;
+}
+
+// 取得し直す必要があるかを判定
+function isStale(entry: IndexEntry | undefined, options?: IndexFetchOptions): boolean {
+  if (options?.force || !entry || entry.updatedAt === null) return true;
+  return Date.now() - entry.updatedAt > INDEX_STALE_TIME;
+}
+
+function withID(ids: string[], id: string): string[] {
+  return ids.includes(id) ? ids : [...ids, id];
+}
+
+function withoutID(ids: string[], id: string): string[] {
+  return ids.filter(item => item !== id);
+}
+
+// 取得状態を更新したエントリを作成
+function updateEntry(entry: IndexEntry | undefined, changes: Partial<IndexEntry>): IndexEntry {
+  return { ...(entry ?? EMPTY_ENTRY), ...changes };
+}
+
+// NFT・オファー・所有者・メタデータの状態を正規化して保持するストア
+// 保有NFT・マーケットプレイス・受信オファーはこのストアからデータを読み込む
+export const useNFTIndexStore = create<NFTIndexState>((set, get) => ({
+  nfts: {},
+  offers: {},
+  accounts: {},
+  issuers: {},
+  offersByNFT: {},
+  metadata: {},
+  offerLedgers: {},
+  offerLedgersByAccount: {},
+  mints: {},
+  mintsByIssuer: {},
+
+  fetchAccountNFTs: (address, options) => {
+    if (!isStale(get().accounts[address], options)) return Promise.resolve();
+
+    return dedupe(`account:${address}`, async () => {
+      const requestGeneration = generation;
+      set(state => ({
+        accounts: { ...state.accounts, [address]: updateEntry(state.accounts[address], { status: 'loading', error: null }) },
+      }));
+
+      try {
+        const client = await getClient();
+        const ids: string[] = [];
+
+        // account_nftsのページを受け取るたびに反映し、多数のNFTを所有するアカウントでも先頭から表示する
+        for await (const page of iterateAccountNFTs(client, address)) {
+          if (requestGeneration !== generation) return;
+          ids.push(...page.map(nft => nft.NFTokenID as string));
+          const loadedIDs = [...ids];
+
+          set(state => {
+            const nfts = { ...state.nfts };
+            for (const nft of page) {
+              nfts[nft.NFTokenID] = { ...nft, Owner: address };
+            }
+            // 取得中は前回の一覧に読み込んだページを加えて表示する
+            const previousIDs = state.accounts[address]?.ids ?? [];
+            return {
+              nfts,
+              accounts: {
+                ...state.accounts,
+                [address]: updateEntry(state.accounts[address], { ids: Array.from(new Set([...loadedIDs, ...previousIDs])) }),
+              },
+            };
+          });
+        }
+        if (requestGeneration !== generation) return;
+
+        set(state => {
+          const nfts = { ...state.nfts };
+          // 前回の取得以降に手放したNFTを取り除く
+          const owned = new Set(ids);
+          for (const id of state.accounts[address]?.ids ?? []) {
+            if (!owned.has(id) && nfts[id]?.Owner === address) delete nfts[id];
+          }
+          return {
+            nfts,
+            accounts: { ...state.accounts, [address]: { ids, status: 'success', updatedAt: Date.now(), error: null } },
+          };
+        });
+      } catch (error) {
+        if (requestGeneration === generation) {
+          set(state => ({
+            accounts: { ...state.accounts, [address]: updateEntry(state.accounts[address], { status: 'error', error: String(error) }) },
+          }));
+        }
+        console.error(`Failed to index account NFTs: ${error}`);
+        throw error;
+      }
+    });
+  },
+
+  fetchIssuerNFTs: (issuer, options) => {
+    if (!isStale(get().issuers[issuer], options)) return Promise.resolve();
+
+    return dedupe(`issuer:${issuer}`, async () => {
+      const requestGeneration = generation;
+      set(state => ({
+        issuers: { ...state.issuers, [issuer]: updateEntry(state.issuers[issuer], { status: 'loading', error: null }) },
+      }));
+
+      try {
+        const client = await getClient();
+        const ids: string[] = [];
+
+        // 所有者は発行者以外のアカウントの場合もあるため、各NFTの所有者をそのまま保持する
+        for await (const page of iterateIssuerNFTs(client, issuer)) {
+          if (requestGeneration !== generation) return;
+          ids.push(...page.map(nft => nft.NFTokenID));
+          const loadedIDs = [...ids];
+
+          set(state => {
+            const nfts = { ...state.nfts };
+            for (const nft of page) {
+              nfts[nft.NFTokenID] = nft;
+            }
+            const previousIDs = state.issuers[issuer]?.ids ?? [];
+            return {
+              nfts,
+              issuers: {
+                ...state.issuers,
+                [issuer]: updateEntry(state.issuers[issuer], { ids: Array.from(new Set([...loadedIDs, ...previousIDs])) }),
+              },
+            };
+          });
+        }
+        if (requestGeneration !== generation) return;
+
+        set(state => ({
+          issuers: { ...state.issuers, [issuer]: { ids, status: 'success', updatedAt: Date.now(), error: null } },
+        }));
+      } catch (error) {
+        if (requestGeneration === generation) {
+          set(state => ({
+            issuers: { ...state.issuers, [issuer]: updateEntry(state.issuers[issuer], { status: 'error', error: String(error) }) },
+          }));
+        }
+        console.error(`Failed to index issuer NFTs: ${error}`);
+        throw error;
+      }
+    });
+  },
+
+  fetchNFTOffers: (nftokenID, options) => {
+    if (!isStale(get().offersByNFT[nftokenID], options)) return Promise.resolve();
+
+    return dedupe(`offers:${nftokenID}`, async () => {
+      const requestGeneration = generation;
+      set(state => ({
+        offersByNFT: { ...state.offersByNFT, [nftokenID]: updateEntry(state.offersByNFT[nftokenID], { status: 'loading', error: null }) },
+      }));
+
+      try {
+        // 売りと買いのオファーを取得する（オファーがない場合は空配列、通信エラーなどは取得失敗として記録する）
+        // getAllNFTOffersはエラーを空配列にするため、取得済みのオファーを消さないように個別に取得する
+        const [sellOffers, buyOffers] = await withRequestSlot(async () => {
+          const client = await getClient();
+          return Promise.all([getNFTOffers(client, nftokenID), getNFTBuyOffers(client, nftokenID)]);
+        });
+        if (requestGeneration !== generation) return;
+
+        const fetched = [
+          ...sellOffers.map(offer => toNFTOffer(offer, nftokenID, true)),
+          ...buyOffers.map(offer => toNFTOffer(offer, nftokenID, false)),
+        ];
+        set(state => {
+          const offers = { ...state.offers };
+          for (const id of state.offersByNFT[nftokenID]?.ids ?? []) delete offers[id];
+          for (const offer of fetched) offers[offer.offerID] = offer;
+          return {
+            offers,
+            offersByNFT: {
+              ...state.offersByNFT,
+              [nftokenID]: { ids: fetched.map(offer => offer.offerID), status: 'success', updatedAt: Date.now(), error: null },
+            },
+          };
+        });
+      } catch (error) {
+        if (requestGeneration === generation) {
+          set(state => ({
+            offersByNFT: { ...state.offersByNFT, [nftokenID]: updateEntry(state.offersByNFT[nftokenID], { status: 'error', error: String(error) }) },
+          }));
+        }
+        console.error(`Failed to index NFT offers: ${error}`);
+        throw error;
+      }
+    });
+  },
+
+  fetchMetadata: (nftokenID) => {
+    // 取得できなかったもの（unreachable）は次の要求時に取得し直す
+    const current = get().metadata[nftokenID];
+    if (current && current.status !== 'unreachable') return Promise.resolve();
+
+    return dedupe(`metadata:${nftokenID}`, async () => {
+      const requestGeneration = generation;
+      const resolution = await withRequestSlot(() => resolveNFTMetadata(get().nfts[nftokenID]?.URI));
+      if (requestGeneration !== generation) return;
+      set(state => ({ metadata: { ...state.metadata, [nftokenID]: resolution } }));
+    });
+  },
+
+  fetchOfferLedgers: (address, options) => {
+    if (!isStale(get().offerLedgersByAccount[address], options)) return Promise.resolve();
+
+    return dedupe(`offer-ledgers:${address}`, async () => {
+      const requestGeneration = generation;
+      set(state => ({
+        offerLedgersByAccount: {
+          ...state.offerLedgersByAccount,
+          [address]: updateEntry(state.offerLedgersByAccount[address], { status: 'loading', error: null }),
+        },
+      }));
+
+      try {
+        const ledgers = await withRequestSlot(async () => getAccountOfferLedgers(await getClient(), address));
+        if (requestGeneration !== generation) return;
+
+        set(state => {
+          const offerLedgers = { ...state.offerLedgers };
+          for (const id of state.offerLedgersByAccount[address]?.ids ?? []) delete offerLedgers[id];
+          Object.assign(offerLedgers, ledgers);
+          return {
+            offerLedgers,
+            offerLedgersByAccount: {
+              ...state.offerLedgersByAccount,
+              [address]: { ids: Object.keys(ledgers), status: 'success', updatedAt: Date.now(), error: null },
+            },
+          };
+        });
+      } catch (error) {
+        if (requestGeneration === generation) {
+          set(state => ({
+            offerLedgersByAccount: {
+              ...state.offerLedgersByAccount,
+              [address]: updateEntry(state.offerLedgersByAccount[address], { status: 'error', error: String(error) }),
+            },
+          }));
+        }
+        console.error(`Failed to index offer ledgers: ${error}`);
+        throw error;
+      }
+    });
+  },
+
+  fetchMint: (nftokenID) => {
+    // 発行トランザクションは変わらないため、取得済みのNFTは取得し直さない（エラーの場合は次の要求時に取得し直す）
+    if (get().mints[nftokenID] !== undefined) return Promise.resolve();
+
+    return dedupe(`mint:${nftokenID}`, async () => {
+      const requestGeneration = generation;
+      try {
+        const event = await withRequestSlot(async () => getNFTMintEvent(await getClient(), nftokenID));
+        if (requestGeneration !== generation) return;
+        set(state => ({
+          mints: {
+            ...state.mints,
+            [nftokenID]: event ? { minter: event.account, ledgerIndex: event.ledgerIndex } : null,
+          },
+        }));
+      } catch (error) {
+        console.error(`Failed to index NFT mint: ${error}`);
+        throw error;
+      }
+    });
+  },
+
+  fetchIssuerMints: (issuer, options) => {
+    if (!isStale(get().mintsByIssuer[issuer], options)) return Promise.resolve();
+
+    return dedupe(`mints:${issuer}`, async () => {
+      const requestGeneration = generation;
+      set(state => ({
+        mintsByIssuer: { ...state.mintsByIssuer, [issuer]: updateEntry(state.mintsByIssuer[issuer], { status: 'loading', error: null }) },
+      }));
+
+      try {
+        const events = await withRequestSlot(async () => getIssuerMintEvents(await getClient(), issuer));
+        if (requestGeneration !== generation) return;
+
+        set(state => {
+          const mints = { ...state.mints };
+          for (const event of events) {
+            mints[event.nftokenID] = { minter: event.account, ledgerIndex: event.ledgerIndex };
+          }
+          return {
+            mints,
+            mintsByIssuer: {
+              ...state.mintsByIssuer,
+              [issuer]: { ids: events.map(event => event.nftokenID), status: 'success', updatedAt: Date.now(), error: null },
+            },
+          };
+        });
+      } catch (error) {
+        if (requestGeneration === generation) {
+          set(state => ({
+            mintsByIssuer: { ...state.mintsByIssuer, [issuer]: updateEntry(state.mintsByIssuer[issuer], { status: 'error', error: String(error) }) },
+          }));
+        }
+        console.error(`Failed to index issuer mints: ${error}`);
+        throw error;
+      }
+    });
+  },
+
+  applyEvents: (events) => {
+    // 受信したイベントだけでは反映できず、取得し直すアカウントとNFT
+    const staleAccounts = new Set<string>();
+    const staleOffers = new Set<string>();
+
+    set(state => {
+      const nfts = { ...state.nfts };
+      const offers = { ...state.offers };
+      const accounts = { ...state.accounts };
+      const issuers = { ...state.issuers };
+      const offersByNFT = { ...state.offersByNFT };
+      const offerLedgers = { ...state.offerLedgers };
+      const offerLedgersByAccount = { ...state.offerLedgersByAccount };
+      const mints = { ...state.mints };
+      const mintsByIssuer = { ...state.mintsByIssuer };
+
+      // 取得済みのアカウントの所有NFTを移動する
+      const moveNFT = (nftokenID: string, from?: string, to?: string) => {
+        if (from && accounts[from]) accounts[from] = { ...accounts[from], ids: withoutID(accounts[from].ids, nftokenID) };
+        if (to && accounts[to]) accounts[to] = { ...accounts[to], ids: withID(accounts[to].ids, nftokenID) };
+      };
+      const removeOffer = (nftokenID: string, offerID: string) => {
+        delete offers[offerID];
+        delete offerLedgers[offerID];
+        if (offersByNFT[nftokenID]) {
+          offersByNFT[nftokenID] = { ...offersByNFT[nftokenID], ids: withoutID(offersByNFT[nftokenID].ids, offerID) };
+        }
+      };
+
+      for (const event of events) {
+        const nftokenID = event.nftokenID;
+        switch (event.type) {
+          case 'mint': {
+            const nft = toNFTFromTokenID(nftokenID, event.uri, event.to);
+            nfts[nftokenID] = nft;
+            moveNFT(nftokenID, undefined, event.to);
+            // ウォッチリストの発行者が発行したNFTを追加する
+            if (issuers[nft.Issuer]) issuers[nft.Issuer] = { ...issuers[nft.Issuer], ids: withID(issuers[nft.Issuer].ids, nftokenID) };
+            mints[nftokenID] = { minter: event.account, ledgerIndex: event.ledgerIndex };
+            if (mintsByIssuer[nft.Issuer]) {
+              mintsByIssuer[nft.Issuer] = { ...mintsByIssuer[nft.Issuer], ids: withID(mintsByIssuer[nft.Issuer].ids, nftokenID) };
+            }
+            break;
+          }
+
+          case 'list':
+          case 'bid':
+            if (event.offerID) {
+              offerLedgers[event.offerID] = event.ledgerIndex;
+              if (offerLedgersByAccount[event.account]) {
+                offerLedgersByAccount[event.account] = {
+                  ...offerLedgersByAccount[event.account],
+                  ids: withID(offerLedgersByAccount[event.account].ids, event.offerID),
+                };
+              }
+            }
+            // オファーを取得済みのNFTのみ追加する（未取得のNFTは表示時に取得される）
+            if (offersByNFT[nftokenID] && event.offerID) {
+              offers[event.offerID] = {
+                offerID: event.offerID,
+                amount: event.amount ?? '0',
+                owner: event.account,
+                destination: event.type === 'list' ? event.to : undefined,
+                expiration: event.expiration,
+                isSellOffer: event.type === 'list',
+                nftokenID,
+              };
+              offersByNFT[nftokenID] = { ...offersByNFT[nftokenID], ids: withID(offersByNFT[nftokenID].ids, event.offerID) };
+            }
+            break;
+
+          case 'cancel':
+            if (event.offerID) removeOffer(nftokenID, event.offerID);
+            break;
+
+          case 'sale':
+          case 'transfer':
+            if (event.offerID) removeOffer(nftokenID, event.offerID);
+            if (nfts[nftokenID]) {
+              nfts[nftokenID] = { ...nfts[nftokenID], Owner: event.to };
+              moveNFT(nftokenID, event.from, event.to);
+            } else {
+              moveNFT(nftokenID, event.from);
+              // URIなどNFTの情報がないため、受け取ったアカウントを取得し直す
+              if (event.to && accounts[event.to]) staleAccounts.add(event.to);
+            }
+            // 仲介では2つのオファーが削除されるため、残りのオファーを取得し直す
+            if (offersByNFT[nftokenID]) staleOffers.add(nftokenID);
+            break;
+
+          case 'burn':
+            if (nfts[nftokenID] && issuers[nfts[nftokenID].Issuer]) {
+              const issuer = nfts[nftokenID].Issuer;
+              issuers[issuer] = { ...issuers[issuer], ids: withoutID(issuers[issuer].ids, nftokenID) };
+            }
+            delete nfts[nftokenID];
+            moveNFT(nftokenID, event.from);
+            for (const offerID of offersByNFT[nftokenID]?.ids ?? []) delete offers[offerID];
+            delete offersByNFT[nftokenID];
+            break;
+        }
+      }
+
+      return { nfts, offers, accounts, issuers, offersByNFT, offerLedgers, offerLedgersByAccount, mints, mintsByIssuer };
+    });
+
+    const { fetchAccountNFTs, fetchNFTOffers } = get();
+    staleAccounts.forEach(address => {
+      fetchAccountNFTs(address, { force: true }).catch(() => {});
+    });
+    staleOffers.forEach(nftokenID => {
+      fetchNFTOffers(nftokenID, { force: true }).catch(() => {});
+    });
+  },
+
+  reset: () => {
+    generation++;
+    inflightRequests.clear();
+    set({ nfts: {}, offers: {}, accounts: {}, issuers: {}, offersByNFT: {}, metadata: {}, offerLedgers: {}, offerLedgersByAccount: {}, mints: {}, mintsByIssuer: {} });
+  },
+}));
+
+// 複数のエントリの取得状態をまとめる
+function summarizeEntries(entries: (IndexEntry | undefined)[], enabled: boolean) {
+  return {
+    // 表示できるデータがまだない間のみローディングとする（取得済みのデータや読み込んだページは取得中も表示する）
+    isLoading: enabled && entries.some(
+      entry => !entry || (entry.updatedAt === null && entry.status !== 'error' && entry.ids.length === 0)
+    ),
+    isRefreshing: entries.some(entry => entry?.status === 'loading'),
+    hasError: entries.some(entry => entry?.status === 'error'),
+  };
+}
+
+// アカウントの所有NFTをストアから読み込むフック
+// 未取得または古いデータの場合は自動的に取得する（エラーは取得状態に記録される）
+export function useIndexedAccountNFTs(addresses: string[], enabled: boolean = true) {
+  const key = addresses.join(',');
+  const fetchAccountNFTs = useNFTIndexStore(state => state.fetchAccountNFTs);
+  const nfts = useNFTIndexStore(useShallow(state => addresses.flatMap(
+    address => (state.accounts[address]?.ids ?? []).map(id => state.nfts[id]).filter(nft => !!nft)
+  )));
+  const entries = useNFTIndexStore(useShallow(state => addresses.map(address => state.accounts[address])));
+
+  useEffect(() => {
+    if (!enabled || !key) return;
+    key.split(',').forEach(address => {
+      fetchAccountNFTs(address).catch(() => {});
+    });
+  }, [key, enabled, fetchAccountNFTs]);
+
+  // すべてのアカウントを取得し直す
+  const refresh = useCallback(async () => {
+    if (!key) return;
+    await Promise.all(key.split(',').map(address => fetchAccountNFTs(address, { force: true })));
+  }, [key, fetchAccountNFTs]);
+
+  return { nfts, ...summarizeEntries(entries, enabled && addresses.length > 0), refresh };
+}
+
+// 発行者が発行したNFTをストアから読み込むフック（所有者は各NFTのOwner）
+export function useIndexedIssuerNFTs(issuers: string[], enabled: boolean = true) {
+  const key = issuers.join(',');
+  const fetchIssuerNFTs = useNFTIndexStore(state => state.fetchIssuerNFTs);
+  const nfts = useNFTIndexStore(useShallow(state => issuers.flatMap(
+    issuer => (state.issuers[issuer]?.ids ?? []).map(id => state.nfts[id]).filter(nft => !!nft)
+  )));
+  const entries = useNFTIndexStore(useShallow(state => issuers.map(issuer => state.issuers[issuer])));
+
+  useEffect(() => {
+    if (!enabled || !key) return;
+    key.split(',').forEach(issuer => {
+      fetchIssuerNFTs(issuer).catch(() => {});
+    });
+  }, [key, enabled, fetchIssuerNFTs]);
+
+  // すべての発行者を取得し直す
+  const refresh = useCallback(async () => {
+    if (!key) return;
+    await Promise.all(key.split(',').map(issuer => fetchIssuerNFTs(issuer, { force: true })));
+  }, [key, fetchIssuerNFTs]);
+
+  return { nfts, ...summarizeEntries(entries, enabled && issuers.length > 0), refresh };
+}
+
+// NFTのオファー（売り・買い）をストアから読み込むフック
+export function useIndexedNFTOffers(nftokenIDs: string[], enabled: boolean = true) {
+  const key = nftokenIDs.join(',');
+  const fetchNFTOffers = useNFTIndexStore(state => state.fetchNFTOffers);
+  const offers = useNFTIndexStore(useShallow(state => nftokenIDs.flatMap(
+    nftokenID => (state.offersByNFT[nftokenID]?.ids ?? []).map(id => state.offers[id]).filter(offer => !!offer)
+  )));
+  const entries = useNFTIndexStore(useShallow(state => nftokenIDs.map(nftokenID => state.offersByNFT[nftokenID])));
+
+  useEffect(() => {
+    if (!enabled || !key) return;
+    key.split(',').forEach(nftokenID => {
+      fetchNFTOffers(nftokenID).catch(() => {});
+    });
+  }, [key, enabled, fetchNFTOffers]);
+
+  // すべてのNFTのオファーを取得し直す
+  const refresh = useCallback(async () => {
+    if (!key) return;
+    await Promise.all(key.split(',').map(nftokenID => fetchNFTOffers(nftokenID, { force: true })));
+  }, [key, fetchNFTOffers]);
+
+  return { offers, ...summarizeEntries(entries, enabled && nftokenIDs.length > 0), refresh };
+}
+
+// NFTのメタデータの解決結果をストアから読み込むフック（未解決のNFTは含まれない）
+export function useIndexedMetadata(nftokenIDs: string[]): Record<string, MetadataResolution> {
+  const key = nftokenIDs.join(',');
+  const fetchMetadata = useNFTIndexStore(state => state.fetchMetadata);
+  const metadata = useNFTIndexStore(useShallow(state => Object.fromEntries(
+    nftokenIDs.filter(nftokenID => state.metadata[nftokenID]).map(nftokenID => [nftokenID, state.metadata[nftokenID]])
+  )));
+
+  useEffect(() => {
+    if (!key) return;
+    key.split(',').forEach(nftokenID => {
+      fetchMetadata(nftokenID);
+    });
+  }, [key, fetchMetadata]);
+
+  return metadata;
+}
+
+// アカウントが作成したオファーの作成レジャー番号をストアから読み込むフック（オファーIDごと）
+export function useIndexedOfferLedgers(addresses: string[], enabled: boolean = true): Record<string, number> {
+  const key = addresses.join(',');
+  const fetchOfferLedgers = useNFTIndexStore(state => state.fetchOfferLedgers);
+  const offerLedgers = useNFTIndexStore(useShallow(state => Object.fromEntries(
+    addresses.flatMap(address => (state.offerLedgersByAccount[address]?.ids ?? [])
+      .filter(offerID => state.offerLedgers[offerID] !== undefined)
+      .map(offerID => [offerID, state.offerLedgers[offerID]]))
+  )));
+
+  useEffect(() => {
+    if (!enabled || !key) return;
+    key.split(',').forEach(address => {
+      fetchOfferLedgers(address).catch(() => {});
+    });
+  }, [key, enabled, fetchOfferLedgers]);
+
+  return offerLedgers;
+}
+
+// NFTの発行トランザクションの情報をストアから読み込むフック（取得するまではundefined、見つからない場合はnull）
+export function useIndexedMint(nftokenID: string): IndexedMint | null | undefined {
+  const fetchMint = useNFTIndexStore(state => state.fetchMint);
+  const mint = useNFTIndexStore(state => state.mints[nftokenID]);
+
+  useEffect(() => {
+    fetchMint(nftokenID).catch(() => {});
+  }, [nftokenID, fetchMint]);
+
+  return mint;
+}
+
+// 発行者が発行したNFTの発行レジャー番号をストアから読み込むフック（NFTokenIDごと）
+export function useIndexedMintLedgers(issuers: string[], enabled: boolean = true): Record<string, number> {
+  const key = issuers.join(',');
+  const fetchIssuerMints = useNFTIndexStore(state => state.fetchIssuerMints);
+  const mintLedgers = useNFTIndexStore(useShallow(state => Object.fromEntries(
+    issuers.flatMap(issuer => (state.mintsByIssuer[issuer]?.ids ?? [])
+      .flatMap(nftokenID => {
+        const mint = state.mints[nftokenID];
+        return mint ? [[nftokenID, mint.ledgerIndex]] : [];
+      }))
+  )));
+
+  useEffect(() => {
+    if (!enabled || !key) return;
+    key.split(',').forEach(issuer => {
+      fetchIssuerMints(issuer).catch(() => {});
+    });
+  }, [key, enabled, fetchIssuerMints]);
+
+  return mintLedgers;
+}
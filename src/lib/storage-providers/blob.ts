@@ -0,0 +1,17 @@
+import { put } from "@vercel/blob";
+import { StorageProvider } from "./types";
+
+// Vercel Blobに保存するプロバイダー（BLOB_READ_WRITE_TOKENが必要）
+export function createBlobStorageProvider(): StorageProvider {
+  return {
+    name: "blob",
+    uploadFile: async (fileName, data, contentType) => {
+      const blob = await put(fileName, data, { access: "public", contentType });
+      return blob.url;
+    },
+    uploadMetadata: async (fileName, json) => {
+      const blob = await put(fileName, json, { access: "public", contentType: "application/json" });
+      return blob.url;
+    },
+  };
+}
@@ -0,0 +1,42 @@
+import { StorageProvider, StorageProviderName } from "./types";
+import { createLocalStorageProvider } from "./local";
+import { createBlobStorageProvider } from "./blob";
+import { createIpfsStorageProvider } from "./ipfs";
+
+export type { StorageProvider, StorageProviderName } from "./types";
+
+// KuboのRPC APIの既定のURL
+const DEFAULT_IPFS_API_URL = "http://127.0.0.1:5001";
+
+// 環境変数から保存先を決定する関数
+// STORAGE_PROVIDERが未指定の場合は、Vercel環境でトークンがあればBlob、それ以外はローカルに保存する
+function resolveProviderName(): StorageProviderName {
+  const configured = process.env.STORAGE_PROVIDER;
+  if (configured === "local" || configured === "blob" || configured === "ipfs") {
+    return configured;
+  }
+  if (configured) {
+    console.warn(`不明なSTORAGE_PROVIDERが指定されています: ${configured}`);
+  }
+
+  const isVercelProduction = process.env.VERCEL === "1";
+  const hasBlobToken = !!process.env.BLOB_READ_WRITE_TOKEN;
+  return isVercelProduction && hasBlobToken ? "blob" : "local";
+}
+
+// アップロードに使用するストレージプロバイダーを取得する関数（サーバー側でのみ使用）
+export function getStorageProvider(): StorageProvider {
+  const name = resolveProviderName();
+
+  switch (name) {
+    case "ipfs":
+      return createIpfsStorageProvider({
+        apiUrl: process.env.IPFS_API_URL || DEFAULT_IPFS_API_URL,
+        authorization: process.env.IPFS_API_AUTHORIZATION,
+      });
+    case "blob":
+      return createBlobStorageProvider();
+    default:
+      return createLocalStorageProvider();
+  }
+}
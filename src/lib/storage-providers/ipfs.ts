@@ -0,0 +1,52 @@
+import { StorageProvider } from "./types";
+
+export interface IpfsStorageConfig {
+  // KuboのRPC APIのURL（例: http://127.0.0.1:5001）、またはKubo互換のピンニングサービスのURL
+  apiUrl: string;
+  // ピンニングサービスの認証ヘッダー（例: "Bearer xxx"、"Basic xxx"）
+  authorization?: string;
+}
+
+// Kubo互換の /api/v0/add の応答
+interface IpfsAddResponse {
+  Name: string;
+  Hash: string;
+  Size: string;
+}
+
+// IPFSにファイルを追加してピン留めし、ipfs://CIDを返す関数
+async function addToIpfs(
+  config: IpfsStorageConfig,
+  fileName: string,
+  data: Buffer | string,
+  contentType: string
+): Promise<string> {
+  const body = new FormData();
+  const content = typeof data === "string" ? data : new Uint8Array(data);
+  body.append("file", new Blob([content], { type: contentType }), fileName);
+
+  // CIDv1で追加し、ガベージコレクションで消えないようにピン留めする
+  const endpoint = `${config.apiUrl.replace(/\/+$/, "")}/api/v0/add?pin=true&cid-version=1`;
+  const response = await fetch(endpoint, {
+    method: "POST",
+    body,
+    headers: config.authorization ? { Authorization: config.authorization } : undefined,
+  });
+
+  if (!response.ok) {
+    throw new Error(`IPFS add failed: ${response.status} ${await response.text()}`);
+  }
+
+  const result = await response.json() as IpfsAddResponse;
+  return `ipfs://${result.Hash}`;
+}
+
+// IPFS（ローカルのKuboノードやKubo互換のピンニングサービス）に保存するプロバイダー
+// コンテンツアドレスのURIになるため、このアプリのデプロイ先に依存せずにNFTを参照できる
+export function createIpfsStorageProvider(config: IpfsStorageConfig): StorageProvider {
+  return {
+    name: "ipfs",
+    uploadFile: (fileName, data, contentType) => addToIpfs(config, fileName, data, contentType),
+    uploadMetadata: (fileName, json) => addToIpfs(config, fileName, json, "application/json"),
+  };
+}
@@ -0,0 +1,34 @@
+import { readFile, writeFile, mkdir } from "fs/promises";
+import { join, normalize } from "path";
+import { existsSync } from "fs";
+import { StorageProvider } from "./types";
+
+// publicディレクトリ内に保存してホスト相対パスを返す関数
+async function saveToPublic(directory: string, fileName: string, data: Buffer | string): Promise<string> {
+  const publicDirectory = join(process.cwd(), "public", directory);
+  if (!existsSync(publicDirectory)) {
+    await mkdir(publicDirectory, { recursive: true });
+  }
+  await writeFile(join(publicDirectory, fileName), data);
+  return `/${directory}/${fileName}`;
+}
+
+// 開発環境向け: publicディレクトリに保存するプロバイダー
+export function createLocalStorageProvider(): StorageProvider {
+  return {
+    name: "local",
+    uploadFile: (fileName, data) => saveToPublic("images", fileName, data),
+    // 読みやすさのために整形して保存
+    uploadMetadata: (fileName, json) => saveToPublic("metadata", fileName, JSON.stringify(JSON.parse(json), null, 2)),
+  };
+}
+
+// ローカルに保存したメタデータ（/metadata/...のホスト相対パス）を読み込む関数
+// publicディレクトリのmetadata以外のファイルは読み込まない
+export async function readLocalMetadata(path: string): Promise<string> {
+  const relativePath = normalize(decodeURIComponent(path.split(/[?#]/)[0])).replace(/^[/\\]+/, "");
+  if (!/^metadata[/\\][^/\\]+\.json$/.test(relativePath)) {
+    throw new Error(`Local path not allowed: ${path}`);
+  }
+  return readFile(join(process.cwd(), "public", relativePath), "utf-8");
+}
@@ -0,0 +1,12 @@
+// アップロードしたファイルの保存先
+export type StorageProviderName = "local" | "blob" | "ipfs";
+
+// 画像とメタデータの保存先を抽象化したインターフェース
+// 返り値はNFTのURIやメタデータのimageに設定するURI（IPFSの場合はipfs://CID）
+export interface StorageProvider {
+  readonly name: StorageProviderName;
+  // 画像などのファイルを保存する
+  uploadFile(fileName: string, data: Buffer, contentType: string): Promise<string>;
+  // メタデータのJSONを保存する
+  uploadMetadata(fileName: string, json: string): Promise<string>;
+}
@@ -1,47 +1,319 @@
-import { WalletState, WalletType } from "./xrpl/wallet";
+import { DEFAULT_WALLET_COLOR, WalletId, WalletRegistry, WalletState } from "./xrpl/wallet";
+import { EncryptedVault, VaultKey, decryptVault, deriveVaultKey, encryptVault } from "./vault";
+import { CustomNetworkSettings, DEFAULT_NETWORK_ID, NetworkId } from "./xrpl/networks";
+import { NFTCollection, WatchedAccount } from "./types";
+import { BatchRun } from "./batch";
 
 // ローカルストレージのキー
 const WALLETS_STORAGE_KEY = "xrpl-nft-marketplace-wallets";
-const ACTIVE_WALLET_TYPE_KEY = "xrpl-nft-marketplace-active-wallet-type";
+const ACTIVE_WALLET_ID_KEY = "xrpl-nft-marketplace-active-wallet-type";
+const VAULT_STORAGE_KEY = "xrpl-nft-marketplace-vault";
+const VAULT_AUTO_LOCK_KEY = "xrpl-nft-marketplace-vault-auto-lock";
+const NETWORK_ID_KEY = "xrpl-nft-marketplace-network";
+const CUSTOM_NETWORK_KEY = "xrpl-nft-marketplace-custom-network";
+const COLLECTIONS_STORAGE_KEY = "xrpl-nft-marketplace-collections";
+const BATCH_RUN_STORAGE_KEY = "xrpl-nft-marketplace-batch-run";
+const WATCHLIST_STORAGE_KEY = "xrpl-nft-marketplace-watchlist";
+
+// 自動ロックまでの時間のデフォルト値（分）
+export const DEFAULT_AUTO_LOCK_MINUTES = 5;
+
+// ロック解除中のボールトの状態（メモリ上のみで保持し、ロック時に破棄する）
+let unlockedVaultKey: VaultKey | null = null;
+let unlockedWallets: WalletRegistry | null = null;
+// 暗号化書き込みの順序を保証するためのキュー
+let vaultWriteQueue: Promise<void> = Promise.resolve();
+
+// 旧形式（Alice/Bob/Charlie固定）のウォレットに割り当てていた表示色
+const LEGACY_WALLET_COLORS: Record<string, string> = {
+  Alice: "bg-pink-500",
+  Bob: "bg-green-500",
+  Charlie: "bg-blue-500",
+};
+
+// 保存済みのウォレット情報を現在の形式に変換する関数
+// 旧形式ではキーと`type`がウォレット名だったため、キーをそのままIDとして引き継ぐ
+function normalizeStoredWallet(key: string, stored: Record<string, unknown>): WalletState {
+  const legacyName = typeof stored.type === "string" ? stored.type : key;
+  const { type: _type, ...rest } = stored;
+
+  return {
+    ...(rest as Omit<WalletState, "id" | "name" | "color">),
+    id: typeof stored.id === "string" ? stored.id : key,
+    name: typeof stored.name === "string" ? stored.name : legacyName,
+    color: typeof stored.color === "string"
+      ? stored.color
+      : LEGACY_WALLET_COLORS[legacyName] || DEFAULT_WALLET_COLOR,
+  };
+}
+
+// 保存済みJSONをレジストリに変換する関数
+function parseWallets(json: string): WalletRegistry {
+  const parsed = JSON.parse(json) as Record<string, Record<string, unknown>>;
+  const registry: WalletRegistry = {};
+
+  for (const [key, stored] of Object.entries(parsed)) {
+    const wallet = normalizeStoredWallet(key, stored);
+    registry[wallet.id] = wallet;
+  }
+
+  return registry;
+}
+
+// ネットワークごとに保存先を分けたキーを取得する関数
+// テストネットは既存データとの互換性のため従来のキーをそのまま使用
+function networkScopedKey(key: string): string {
+  const networkId = getNetworkId();
+  return networkId === DEFAULT_NETWORK_ID ? key : `${key}:${networkId}`;
+}
+
+// 暗号化したレジストリをボールトに書き込む関数
+function persistVault(wallets: WalletRegistry): void {
+  const vaultKey = unlockedVaultKey;
+  if (!vaultKey) return;
+  // 書き込み中にネットワークが切り替わっても元のネットワークに保存する
+  const storageKey = networkScopedKey(VAULT_STORAGE_KEY);
+
+  vaultWriteQueue = vaultWriteQueue
+    .then(async () => {
+      const vault = await encryptVault(vaultKey, JSON.stringify(wallets));
+      localStorage.setItem(storageKey, JSON.stringify(vault));
+    })
+    .catch(error => {
+      console.error("ボールトの保存に失敗しました:", error);
+    });
+}
 
 // ウォレット情報をローカルストレージに保存する関数
-export function saveWallets(wallets: Record<WalletType, WalletState>): void {
+// ボールトが有効な場合は暗号化して保存する
+export function saveWallets(wallets: WalletRegistry): void {
   if (typeof window !== "undefined") {
-    localStorage.setItem(WALLETS_STORAGE_KEY, JSON.stringify(wallets));
+    if (isVaultEnabled()) {
+      if (!unlockedVaultKey) {
+        throw new Error("ボールトがロックされているためウォレットを保存できません");
+      }
+      unlockedWallets = wallets;
+      persistVault(wallets);
+      return;
+    }
+    localStorage.setItem(networkScopedKey(WALLETS_STORAGE_KEY), JSON.stringify(wallets));
   }
 }
 
 // ウォレット情報をローカルストレージから取得する関数
-export function getWallets(): Record<WalletType, WalletState> | null {
+// ボールトが有効な場合はロック解除中のみ取得できる
+export function getWallets(): WalletRegistry | null {
   if (typeof window !== "undefined") {
-    const storedWallets = localStorage.getItem(WALLETS_STORAGE_KEY);
+    if (isVaultEnabled()) {
+      return unlockedWallets;
+    }
+    const storedWallets = localStorage.getItem(networkScopedKey(WALLETS_STORAGE_KEY));
     if (storedWallets) {
-      return JSON.parse(storedWallets);
+      return parseWallets(storedWallets);
     }
   }
   return null;
 }
 
+// ボールト（暗号化保存）が有効かどうかを判定する関数
+export function isVaultEnabled(): boolean {
+  if (typeof window !== "undefined") {
+    return localStorage.getItem(networkScopedKey(VAULT_STORAGE_KEY)) !== null;
+  }
+  return false;
+}
+
+// ボールトがロック解除されているかどうかを判定する関数
+export function isVaultUnlocked(): boolean {
+  return unlockedVaultKey !== null;
+}
+
+// 既存のウォレット情報を暗号化してボールトを有効にする関数
+export async function enableVault(passphrase: string): Promise<void> {
+  const wallets = getWallets() || {};
+  const vaultKey = await deriveVaultKey(passphrase);
+  const vault = await encryptVault(vaultKey, JSON.stringify(wallets));
+
+  localStorage.setItem(networkScopedKey(VAULT_STORAGE_KEY), JSON.stringify(vault));
+  // 平文のウォレット情報は削除
+  localStorage.removeItem(networkScopedKey(WALLETS_STORAGE_KEY));
+
+  unlockedVaultKey = vaultKey;
+  unlockedWallets = wallets;
+}
+
+// パスフレーズでボールトのロックを解除する関数
+export async function unlockVault(passphrase: string): Promise<WalletRegistry> {
+  const storedVault = localStorage.getItem(networkScopedKey(VAULT_STORAGE_KEY));
+  if (!storedVault) {
+    throw new Error("ボールトが見つかりません");
+  }
+
+  const { plaintext, vaultKey } = await decryptVault(passphrase, JSON.parse(storedVault) as EncryptedVault);
+  unlockedVaultKey = vaultKey;
+  unlockedWallets = parseWallets(plaintext);
+  return unlockedWallets;
+}
+
+// ボールトをロックする関数（復号済みの情報をメモリから破棄）
+export function lockVault(): void {
+  unlockedVaultKey = null;
+  unlockedWallets = null;
+}
+
+// ボールトを無効にして平文保存に戻す関数（ロック解除中のみ）
+export async function disableVault(): Promise<void> {
+  if (!unlockedVaultKey) {
+    throw new Error("ボールトがロックされています");
+  }
+
+  // 保留中の暗号化書き込みを待ってから切り替える
+  await vaultWriteQueue;
+  localStorage.setItem(networkScopedKey(WALLETS_STORAGE_KEY), JSON.stringify(unlockedWallets || {}));
+  localStorage.removeItem(networkScopedKey(VAULT_STORAGE_KEY));
+  lockVault();
+}
+
+// 自動ロックまでの時間（分）を保存する関数（0は自動ロックなし）
+export function saveAutoLockMinutes(minutes: number): void {
+  if (typeof window !== "undefined") {
+    localStorage.setItem(VAULT_AUTO_LOCK_KEY, String(minutes));
+  }
+}
+
+// 自動ロックまでの時間（分）を取得する関数
+export function getAutoLockMinutes(): number {
+  if (typeof window !== "undefined") {
+    const stored = localStorage.getItem(VAULT_AUTO_LOCK_KEY);
+    if (stored !== null && !Number.isNaN(Number(stored))) {
+      return Number(stored);
+    }
+  }
+  return DEFAULT_AUTO_LOCK_MINUTES;
+}
+
 // ウォレット情報をローカルストレージから削除する関数
 export function clearWallets(): void {
   if (typeof window !== "undefined") {
-    localStorage.removeItem(WALLETS_STORAGE_KEY);
-    localStorage.removeItem(ACTIVE_WALLET_TYPE_KEY);
+    localStorage.removeItem(networkScopedKey(WALLETS_STORAGE_KEY));
+    localStorage.removeItem(networkScopedKey(ACTIVE_WALLET_ID_KEY));
+    localStorage.removeItem(networkScopedKey(VAULT_STORAGE_KEY));
+    lockVault();
+  }
+}
+
+// 現在アクティブなウォレットのIDを保存する関数
+export function saveActiveWalletId(walletId: WalletId | null): void {
+  if (typeof window !== "undefined") {
+    if (walletId) {
+      localStorage.setItem(networkScopedKey(ACTIVE_WALLET_ID_KEY), walletId);
+    } else {
+      localStorage.removeItem(networkScopedKey(ACTIVE_WALLET_ID_KEY));
+    }
+  }
+}
+
+// 現在アクティブなウォレットのIDを取得する関数
+export function getActiveWalletId(): WalletId | null {
+  if (typeof window !== "undefined") {
+    return localStorage.getItem(networkScopedKey(ACTIVE_WALLET_ID_KEY));
+  }
+  return null;
+}
+
+// 選択中のネットワークIDを保存する関数
+export function saveNetworkId(networkId: NetworkId): void {
+  if (typeof window !== "undefined") {
+    localStorage.setItem(NETWORK_ID_KEY, networkId);
+  }
+}
+
+// 選択中のネットワークIDを取得する関数
+export function getNetworkId(): NetworkId {
+  if (typeof window !== "undefined") {
+    const stored = localStorage.getItem(NETWORK_ID_KEY);
+    if (stored === "testnet" || stored === "devnet" || stored === "custom" || stored === "standalone") {
+      return stored;
+    }
+  }
+  return DEFAULT_NETWORK_ID;
+}
+
+// カスタムネットワークの接続設定を保存する関数
+export function saveCustomNetworkSettings(settings: CustomNetworkSettings): void {
+  if (typeof window !== "undefined") {
+    localStorage.setItem(CUSTOM_NETWORK_KEY, JSON.stringify(settings));
+  }
+}
+
+// カスタムネットワークの接続設定を取得する関数
+export function getCustomNetworkSettings(): CustomNetworkSettings | null {
+  if (typeof window !== "undefined") {
+    const stored = localStorage.getItem(CUSTOM_NETWORK_KEY);
+    if (stored) {
+      return JSON.parse(stored) as CustomNetworkSettings;
+    }
+  }
+  return null;
+}
+
+// コレクション情報をローカルストレージに保存する関数
+export function saveCollections(collections: NFTCollection[]): void {
+  if (typeof window !== "undefined") {
+    localStorage.setItem(networkScopedKey(COLLECTIONS_STORAGE_KEY), JSON.stringify(collections));
   }
 }
 
-// 現在アクティブなウォレットタイプを保存する関数
-export function saveActiveWalletType(walletType: WalletType): void {
+// コレクション情報をローカルストレージから取得する関数
+export function getCollections(): NFTCollection[] {
   if (typeof window !== "undefined") {
-    localStorage.setItem(ACTIVE_WALLET_TYPE_KEY, walletType);
+    const stored = localStorage.getItem(networkScopedKey(COLLECTIONS_STORAGE_KEY));
+    if (stored) {
+      return JSON.parse(stored) as NFTCollection[];
+    }
   }
+  return [];
 }
 
-// 現在アクティブなウォレットタイプを取得する関数
-export function getActiveWalletType(): WalletType | null {
+// 一括発行の実行状態を保存する関数
+export function saveBatchRun(run: BatchRun): void {
   if (typeof window !== "undefined") {
-    const walletType = localStorage.getItem(ACTIVE_WALLET_TYPE_KEY) as WalletType | null;
-    return walletType;
+    localStorage.setItem(networkScopedKey(BATCH_RUN_STORAGE_KEY), JSON.stringify(run));
+  }
+}
+
+// 保存済みの一括発行の実行状態を取得する関数
+export function getBatchRun(): BatchRun | null {
+  if (typeof window !== "undefined") {
+    const stored = localStorage.getItem(networkScopedKey(BATCH_RUN_STORAGE_KEY));
+    if (stored) {
+      return JSON.parse(stored) as BatchRun;
+    }
   }
   return null;
-} 
\ No newline at end of file
+}
+
+// 一括発行の実行状態を削除する関数
+export function clearBatchRun(): void {
+  if (typeof window !== "undefined") {
+    localStorage.removeItem(networkScopedKey(BATCH_RUN_STORAGE_KEY));
+  }
+}
+
+// ウォッチリストをローカルストレージに保存する関数
+export function saveWatchlist(watchlist: WatchedAccount[]): void {
+  if (typeof window !== "undefined") {
+    localStorage.setItem(networkScopedKey(WATCHLIST_STORAGE_KEY), JSON.stringify(watchlist));
+  }
+}
+
+// ウォッチリストをローカルストレージから取得する関数
+export function getWatchlist(): WatchedAccount[] {
+  if (typeof window !== "undefined") {
+    const stored = localStorage.getItem(networkScopedKey(WATCHLIST_STORAGE_KEY));
+    if (stored) {
+      return JSON.parse(stored) as WatchedAccount[];
+    }
+  }
+  return [];
+}
@@ -1,18 +1,27 @@
 import { create } from 'zustand';
 import type { WalletState } from './xrpl/wallet';
+import { DEFAULT_NETWORK_ID, NetworkConfig, getNetworkConfig } from './xrpl/networks';
+import type { NFTHistoryEvent } from './xrpl/history';
 
 interface AppState {
   // ウォレット切り替え中のロック状態
   isWalletSwitching: boolean;
   // 現在のウォレット情報
   currentWallet: WalletState | null;
+  // ボールトのロック状態（ロック中は署名を伴う操作をすべて禁止）
+  isVaultLocked: boolean;
   // 全体的なロック状態（ロック中は全機能を無効化）
+  // ウォレット切り替え中またはボールトのロック中にtrueになる
   isLocked: boolean;
+  // 接続先のネットワーク
+  network: NetworkConfig;
   
   // アクション
   setWalletSwitching: (switching: boolean) => void;
   setCurrentWallet: (wallet: WalletState | null) => void;
   setLocked: (locked: boolean) => void;
+  setVaultLocked: (locked: boolean) => void;
+  setNetwork: (network: NetworkConfig) => void;
   
   // ウォレット切り替え開始時に呼び出す
   startWalletSwitch: () => void;
@@ -20,10 +29,20 @@ interface AppState {
   finishWalletSwitch: (wallet: WalletState | null) => void;
 }
 
+// 同一のウォレット（名前や表示色の変更も含めて差分がない）かどうかを判定
+function isSameWallet(a: WalletState, b: WalletState): boolean {
+  return a.classicAddress === b.classicAddress &&
+    a.seed === b.seed &&
+    a.name === b.name &&
+    a.color === b.color;
+}
+
 export const useAppStore = create<AppState>((set, get) => ({
   isWalletSwitching: false,
   currentWallet: null,
+  isVaultLocked: false,
   isLocked: false,
+  network: getNetworkConfig(DEFAULT_NETWORK_ID),
   
   setWalletSwitching: (switching) => {
     const current = get().isWalletSwitching;
@@ -34,15 +53,33 @@ export const useAppStore = create<AppState>((set, get) => ({
   setCurrentWallet: (wallet) => {
     const current = get().currentWallet;
     if (current === null && wallet === null) return;
-    if (current && wallet && current.classicAddress === wallet.classicAddress && 
-        current.seed === wallet.seed) return;
+    if (current && wallet && isSameWallet(current, wallet)) return;
     set({ currentWallet: wallet });
   },
   
   setLocked: (locked) => {
-    const current = get().isLocked;
+    const { isLocked: current, isVaultLocked } = get();
+    // ボールトのロック中は解除しない
+    const next = locked || isVaultLocked;
+    if (current === next) return;
+    set({ isLocked: next });
+  },
+  
+  setVaultLocked: (locked) => {
+    const { isVaultLocked: current, isWalletSwitching } = get();
     if (current === locked) return;
-    set({ isLocked: locked });
+    set({ 
+      isVaultLocked: locked,
+      isLocked: locked || isWalletSwitching,
+      // ロック時は復号済みのウォレット情報を破棄
+      ...(locked ? { currentWallet: null } : {}),
+    });
+  },
+  
+  setNetwork: (network) => {
+    const current = get().network;
+    if (current.id === network.id && current.servers.join(",") === network.servers.join(",")) return;
+    set({ network });
   },
   
   startWalletSwitch: () => {
@@ -60,20 +97,66 @@ export const useAppStore = create<AppState>((set, get) => ({
     const walletChanged = 
       (current === null && wallet !== null) || 
       (current !== null && wallet === null) ||
-      (current && wallet && (current.classicAddress !== wallet.classicAddress || current.seed !== wallet.seed));
+      (current && wallet && !isSameWallet(current, wallet));
+    const { isVaultLocked } = get();
       
     if (!walletChanged && current && wallet) {
       set({ 
         isWalletSwitching: false, 
-        isLocked: false
+        isLocked: isVaultLocked
       });
       return;
     }
     
     set({ 
       isWalletSwitching: false, 
-      isLocked: false,
+      isLocked: isVaultLocked,
       currentWallet: wallet 
     });
   },
-})); 
\ No newline at end of file
+})); 
+// 保持する最近のNFTイベントの最大数
+const MAX_RECENT_NFT_EVENTS = 100;
+
+interface NFTEventState {
+  // 購読中のアカウントから受信したNFT関連のイベント（新しい順）
+  recentEvents: NFTHistoryEvent[];
+  // 最後に受信したトランザクションのイベント（コンポーネントはこの変更を監視して差分を反映する）
+  lastBatch: NFTHistoryEvent[];
+
+  // アクション
+  pushEvents: (events: NFTHistoryEvent[]) => void;
+  clearEvents: () => void;
+}
+
+export const useNFTEventStore = create<NFTEventState>((set, get) => ({
+  recentEvents: [],
+  lastBatch: [],
+
+  pushEvents: (events) => {
+    if (events.length === 0) return;
+    // 複数のアカウントを購読している場合、同じトランザクションを重複して受信しないようにする
+    const { recentEvents } = get();
+    const fresh = events.filter(event => !recentEvents.some(
+      recent => recent.hash === event.hash && recent.offerID === event.offerID
+    ));
+    if (fresh.length === 0) return;
+    set({
+      recentEvents: [...fresh, ...recentEvents].slice(0, MAX_RECENT_NFT_EVENTS),
+      lastBatch: fresh,
+    });
+  },
+
+  clearEvents: () => {
+    set({ recentEvents: [], lastBatch: [] });
+  },
+}));
+
+// 新しく受信したNFTイベントを監視する関数（戻り値の関数で監視を解除）
+export function onNFTEvents(listener: (events: NFTHistoryEvent[]) => void): () => void {
+  return useNFTEventStore.subscribe((state, prev) => {
+    if (state.lastBatch !== prev.lastBatch && state.lastBatch.length > 0) {
+      listener(state.lastBatch);
+    }
+  });
+}
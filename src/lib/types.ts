@@ -1,5 +1,6 @@
 import { z } from "zod";
 import { WalletState } from "./xrpl/wallet";
+import { AnimationDetails, ImageDetails, NFTAttribute } from "./metadata";
 
 // NFT関連の型定義
 export interface NFT {
@@ -10,6 +11,16 @@ export interface NFT {
   Flags?: number;
   tfFlags?: number;
   TransferFee?: number;
+  NFTokenTaxon?: number;
+}
+
+// コレクション（発行者とタクソンの組み合わせ）の情報
+export interface NFTCollection {
+  issuer: string;
+  taxon: number;
+  name: string;
+  description: string;
+  createdAt: string;
 }
 
 // NFTメタデータの型定義
@@ -17,16 +28,50 @@ export interface NFTMetadata {
   name: string;
   description: string;
   image: string | null;
-  attributes?: Array<{
-    trait_type: string;
-    value: string | number;
-  }>;
+  thumbnail?: string; // カード表示用のサムネイル
+  preview?: string; // 中サイズのプレビュー
+  image_details?: ImageDetails; // 元画像の形式・サイズとSHA-256
+  animation?: string; // 音声・動画・3DモデルのURL
+  animation_details?: AnimationDetails; // 音声・動画・3Dモデルの形式・サイズとSHA-256
+  // XLS-24dのフィールド（他のツールで発行されたNFTでは省略されている場合がある）
+  schema?: string;
+  nftType?: string;
+  collection?: {
+    name: string;
+    family?: string;
+  };
+  attributes?: NFTAttribute[];
+}
+
+// ウォッチリストのアカウント（アプリ外のアカウントのNFTと売りオファーをマーケットプレイスに表示する）
+export interface WatchedAccount {
+  address: string;
+  label: string;
+  // account: アカウントが所有するNFT、issuer: 発行者が発行したNFT（所有者を問わない）
+  kind: "account" | "issuer";
+  addedAt: string;
+}
+
+// 発行通貨（IOU）の金額
+export interface IssuedCurrencyAmount {
+  currency: string;
+  issuer: string;
+  value: string;
+}
+
+// XRPLの金額（XRPはドロップス単位の文字列、IOUはオブジェクト）
+export type Amount = string | IssuedCurrencyAmount;
+
+// オファーに使用する通貨（XRPの場合はissuerなし）
+export interface OfferCurrency {
+  currency: string;
+  issuer?: string;
 }
 
 // NFTオファーの型定義
 export interface NFTOffer {
   offerID: string;
-  amount: string;
+  amount: Amount;
   owner: string;
   destination?: string;
   expiration?: number;
@@ -1,3 +1,6 @@
+import { NFTAttribute } from "./metadata";
+import type { StorageProviderName } from "./storage-providers/types";
+
 // ファイルをBase64に変換する関数
 export function convertFileToBase64(file: File): Promise<string> {
   return new Promise((resolve, reject) => {
@@ -149,6 +152,82 @@ export const ALLOWED_FILE_TYPES = [
 // ファイルサイズの上限（10MB）
 export const MAX_FILE_SIZE = 10 * 1024 * 1024;
 
+// NFT名と説明の文字数の上限（フォームとアップロードAPIで共通）
+export const MAX_NAME_LENGTH = 100;
+export const MAX_DESCRIPTION_LENGTH = 1000;
+
+// 音声・動画・3Dモデルの種類
+export type MediaKind = "audio" | "video" | "model";
+
+// 許可するメディアファイルの形式（MIME Typeと拡張子）
+// GLBはブラウザによってMIME Typeが空になるため拡張子でも判定する
+export const ALLOWED_MEDIA_TYPES: Record<string, { kind: MediaKind; extensions: string[] }> = {
+  "audio/mpeg": { kind: "audio", extensions: [".mp3"] },
+  "audio/wav": { kind: "audio", extensions: [".wav"] },
+  "audio/x-wav": { kind: "audio", extensions: [] },
+  "video/mp4": { kind: "video", extensions: [".mp4"] },
+  "video/webm": { kind: "video", extensions: [".webm"] },
+  "model/gltf-binary": { kind: "model", extensions: [".glb"] },
+};
+
+// 保存するファイルの拡張子（内容から判定したMIME Typeごと）
+// クライアントが送ったファイル名の拡張子は使用しない（.htmlなどで保存されるのを防ぐ）
+export const FILE_EXTENSIONS: Record<string, string> = {
+  "image/jpeg": ".jpg",
+  "image/png": ".png",
+  "image/gif": ".gif",
+  "image/webp": ".webp",
+  "audio/mpeg": ".mp3",
+  "audio/wav": ".wav",
+  "audio/x-wav": ".wav",
+  "video/mp4": ".mp4",
+  "video/webm": ".webm",
+  "model/gltf-binary": ".glb",
+};
+
+// メディアファイルのサイズの上限（50MB）
+export const MAX_MEDIA_FILE_SIZE = 50 * 1024 * 1024;
+
+// ファイル選択ダイアログのaccept属性に指定する値
+export const MEDIA_FILE_ACCEPT = Object.entries(ALLOWED_MEDIA_TYPES)
+  .flatMap(([mimeType, { extensions }]) => [mimeType, ...extensions])
+  .join(",");
+
+// メディアファイルのMIME Typeを判定する関数（許可されていない形式の場合はnull）
+export function getMediaMimeType(fileName: string, mimeType: string): string | null {
+  if (ALLOWED_MEDIA_TYPES[mimeType]) return mimeType;
+
+  const lowerName = fileName.toLowerCase();
+  const matched = Object.entries(ALLOWED_MEDIA_TYPES).find(([, { extensions }]) =>
+    extensions.some(extension => lowerName.endsWith(extension))
+  );
+  return matched ? matched[0] : null;
+}
+
+// MIME Typeからメディアの種類を取得する関数
+export function getMediaKind(mimeType?: string): MediaKind | null {
+  return mimeType ? ALLOWED_MEDIA_TYPES[mimeType]?.kind ?? null : null;
+}
+
+// メディアファイル（音声・動画・3Dモデル）のバリデーション関数
+export function validateMediaFile(file: File): { valid: boolean; message?: string } {
+  if (!getMediaMimeType(file.name, file.type)) {
+    return {
+      valid: false,
+      message: "サポートされていないメディア形式です。MP3、WAV、MP4、WebM、またはGLBファイルを選択してください。",
+    };
+  }
+  
+  if (file.size > MAX_MEDIA_FILE_SIZE) {
+    return {
+      valid: false,
+      message: `メディアファイルが大きすぎます。最大サイズは${MAX_MEDIA_FILE_SIZE / 1024 / 1024}MBです。`,
+    };
+  }
+  
+  return { valid: true };
+}
+
 // ファイルのバリデーション関数
 export function validateFile(file: File): { valid: boolean; message?: string } {
   if (!ALLOWED_FILE_TYPES.includes(file.type)) {
@@ -166,4 +245,110 @@ export function validateFile(file: File): { valid: boolean; message?: string } {
   }
   
   return { valid: true };
-} 
\ No newline at end of file
+} 
+// /api/upload の応答
+export interface UploadResponse {
+  imageUrl: string;
+  thumbnailUrl: string;
+  previewUrl: string;
+  animationUrl?: string; // 音声・動画・3Dモデル（アップロードした場合のみ）
+  sha256: string; // 元画像のSHA-256
+  metadataUrl: string;
+  metadataJson?: string;
+  storageProvider: StorageProviderName;
+  isVercelProduction: boolean;
+  usingBlob: boolean;
+}
+
+// アップロードAPIのエラーコード
+export type UploadErrorCode =
+  | "MISSING_FILE"
+  | "UNSUPPORTED_FILE_TYPE"
+  | "FILE_TOO_LARGE"
+  | "INVALID_IMAGE"
+  | "MISSING_NAME"
+  | "NAME_TOO_LONG"
+  | "DESCRIPTION_TOO_LONG"
+  | "INVALID_ATTRIBUTES"
+  | "UNSUPPORTED_MEDIA_TYPE"
+  | "MEDIA_TOO_LARGE"
+  | "CONTENT_TYPE_MISMATCH"
+  | "UPLOAD_FAILED";
+
+// エラーコードごとの表示用メッセージ
+export const UPLOAD_ERROR_MESSAGES: Record<UploadErrorCode, string> = {
+  MISSING_FILE: "ファイルが見つかりません",
+  UNSUPPORTED_FILE_TYPE: "サポートされていないファイル形式です。JPEG、PNG、GIF、WEBP、またはSVGファイルを選択してください",
+  FILE_TOO_LARGE: `ファイルサイズが大きすぎます。最大サイズは${MAX_FILE_SIZE / 1024 / 1024}MBです`,
+  INVALID_IMAGE: "画像を読み込めませんでした。ファイルが破損していないか確認してください",
+  MISSING_NAME: "NFT名が指定されていません",
+  NAME_TOO_LONG: `NFT名は${MAX_NAME_LENGTH}文字以内で入力してください`,
+  DESCRIPTION_TOO_LONG: `説明は${MAX_DESCRIPTION_LENGTH}文字以内で入力してください`,
+  INVALID_ATTRIBUTES: "属性の形式が正しくありません",
+  UNSUPPORTED_MEDIA_TYPE: "サポートされていないメディア形式です。MP3、WAV、MP4、WebM、またはGLBファイルを選択してください",
+  MEDIA_TOO_LARGE: `メディアファイルが大きすぎます。最大サイズは${MAX_MEDIA_FILE_SIZE / 1024 / 1024}MBです`,
+  CONTENT_TYPE_MISMATCH: "ファイルの内容が拡張子・形式と一致しません",
+  UPLOAD_FAILED: "ファイルのアップロードに失敗しました",
+};
+
+// アップロードAPIがエラーを返した場合のエラー
+export class UploadError extends Error {
+  code: UploadErrorCode;
+
+  constructor(code: UploadErrorCode, message?: string) {
+    super(message || UPLOAD_ERROR_MESSAGES[code]);
+    this.name = "UploadError";
+    this.code = code;
+  }
+}
+
+// /api/upload にフォームデータを送信する関数（エラー時はUploadErrorを投げる）
+export async function requestUpload(formData: FormData): Promise<UploadResponse> {
+  const response = await fetch('/api/upload', {
+    method: 'POST',
+    body: formData,
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new UploadError(errorData.code || "UPLOAD_FAILED", errorData.error);
+  }
+
+  return await response.json() as UploadResponse;
+}
+
+// アップロード結果からNFTのURIに使用するメタデータを決定する関数
+export function resolveMetadataUri(data: UploadResponse): string {
+  if (data.isVercelProduction && data.storageProvider === "local") {
+    // Vercel上でBlobやIPFSを使用できない場合は直接JSONメタデータを使用
+    return data.metadataJson || "";
+  }
+  // IPFS（ipfs://CID）、Vercel Blob、または開発環境ではメタデータURLを使用
+  return data.metadataUrl;
+}
+
+// 画像（とメディアファイル）とメタデータを /api/upload にアップロードし、メタデータURIを返す関数
+export async function uploadNFTAsset(
+  file: File,
+  name: string,
+  description: string,
+  attributes?: NFTAttribute[],
+  collectionName?: string,
+  animationFile?: File // 音声・動画・3Dモデル（fileはカバー画像として使用）
+): Promise<string> {
+  const formData = new FormData();
+  formData.append('file', file);
+  if (animationFile) {
+    formData.append('animation', animationFile);
+  }
+  formData.append('name', name);
+  formData.append('description', description);
+  if (attributes && attributes.length > 0) {
+    formData.append('attributes', JSON.stringify(attributes));
+  }
+  if (collectionName) {
+    formData.append('collection', collectionName);
+  }
+
+  return resolveMetadataUri(await requestUpload(formData));
+}
@@ -0,0 +1,102 @@
+import { LookupAddress, lookup } from "dns";
+import { BlockList, LookupFunction, isIP } from "net";
+import { Agent, fetch as undiciFetch } from "undici";
+import { IPFS_GATEWAY } from "./metadata";
+import { BlockedUrlError } from "./metadata-resolver";
+
+// サーバーからレジャーのURIなど外部から指定されたURLを取得する処理（SSRF対策、サーバー専用）
+
+// 接続を許可しないアドレス（ループバック・プライベート・リンクローカルなど）
+const BLOCKED_ADDRESSES = new BlockList();
+BLOCKED_ADDRESSES.addSubnet("0.0.0.0", 8, "ipv4");
+BLOCKED_ADDRESSES.addSubnet("10.0.0.0", 8, "ipv4");
+BLOCKED_ADDRESSES.addSubnet("100.64.0.0", 10, "ipv4");
+BLOCKED_ADDRESSES.addSubnet("127.0.0.0", 8, "ipv4");
+BLOCKED_ADDRESSES.addSubnet("169.254.0.0", 16, "ipv4");
+BLOCKED_ADDRESSES.addSubnet("172.16.0.0", 12, "ipv4");
+BLOCKED_ADDRESSES.addSubnet("192.0.0.0", 24, "ipv4");
+BLOCKED_ADDRESSES.addSubnet("192.168.0.0", 16, "ipv4");
+BLOCKED_ADDRESSES.addSubnet("198.18.0.0", 15, "ipv4");
+BLOCKED_ADDRESSES.addSubnet("224.0.0.0", 3, "ipv4");
+BLOCKED_ADDRESSES.addAddress("::", "ipv6");
+BLOCKED_ADDRESSES.addAddress("::1", "ipv6");
+BLOCKED_ADDRESSES.addSubnet("fc00::", 7, "ipv6");
+BLOCKED_ADDRESSES.addSubnet("fe80::", 10, "ipv6");
+BLOCKED_ADDRESSES.addSubnet("ff00::", 8, "ipv6");
+
+// 接続を許可しないアドレスかどうかを判定する関数
+function isBlockedAddress(address: string): boolean {
+  // IPv4射影アドレス（::ffff:127.0.0.1など）はIPv4として判定する
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  if (mapped) return BLOCKED_ADDRESSES.check(mapped[1], "ipv4");
+  return BLOCKED_ADDRESSES.check(address, isIP(address) === 6 ? "ipv6" : "ipv4");
+}
+
+// 名前解決したアドレスを検証してから接続先として返すlookup
+// 検証したアドレスにそのまま接続するため、検証後に名前解決の結果を変える（DNSリバインディング）ことはできない
+const guardedLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, "", 0);
+      return;
+    }
+    if (addresses.length === 0 || addresses.some(result => isBlockedAddress(result.address))) {
+      callback(new BlockedUrlError(`Address not allowed: ${hostname}`), "", 0);
+      return;
+    }
+    if (options.all) {
+      // LookupFunctionの型は単一のアドレスのみだが、allを指定した場合は配列を返す
+      (callback as unknown as (error: null, addresses: LookupAddress[]) => void)(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+// 外部のURLの取得に使用する接続（すべての接続でguardedLookupを使用する）
+const guardedAgent = new Agent({ connect: { lookup: guardedLookup } });
+
+// サーバーから取得してよいURLか検証する関数（許可しない場合はBlockedUrlErrorを投げる）
+// 名前解決したアドレスは接続時にguardedLookupで検証する
+function assertFetchableUrl(parsed: URL): void {
+  if (parsed.protocol !== "https:") {
+    throw new BlockedUrlError(`Protocol not allowed: ${parsed.protocol}`);
+  }
+  if (parsed.username || parsed.password) {
+    throw new BlockedUrlError("Credentials in URL are not allowed");
+  }
+  // IPアドレスを直接指定した場合は名前解決されないため、ここで判定する
+  const hostname = parsed.hostname.replace(/^\[|\]$/g, "");
+  if (isIP(hostname) && isBlockedAddress(hostname)) {
+    throw new BlockedUrlError(`Address not allowed: ${parsed.hostname}`);
+  }
+}
+
+// 外部から指定されたURLを取得する関数（リダイレクトはたどらずにそのまま返す）
+// https:と設定されたIPFSゲートウェイのみを許可し、ループバック・プライベート・リンクローカルのアドレスには接続しない
+export async function fetchPublicUrl(url: string, signal: AbortSignal): Promise<Response> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new BlockedUrlError(`Invalid URL: ${url}`);
+  }
+
+  // 設定されたIPFSゲートウェイは運用者が指定したもの（ローカルのIPFSノードの場合もある）のため制限しない
+  if (url.startsWith(IPFS_GATEWAY)) {
+    return fetch(url, { signal, redirect: "manual" });
+  }
+
+  assertFetchableUrl(parsed);
+  try {
+    const response = await undiciFetch(url, { signal, redirect: "manual", dispatcher: guardedAgent });
+    // undiciのResponseは標準のResponseと同じインターフェースを持つ
+    return response as unknown as Response;
+  } catch (error) {
+    // 接続時に拒否したアドレスはfetchのエラーの原因に含まれる
+    if (error instanceof Error && error.cause instanceof BlockedUrlError) {
+      throw error.cause;
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,121 @@
+// ウォレット情報を暗号化して保存するためのボールト（WebCrypto: PBKDF2 + AES-GCM）
+
+// PBKDF2の反復回数
+const PBKDF2_ITERATIONS = 310000;
+// ソルトとIVの長さ（バイト）
+const SALT_LENGTH = 16;
+const IV_LENGTH = 12;
+
+// 暗号化済みボールトの保存形式
+export interface EncryptedVault {
+  version: 1;
+  iterations: number;
+  salt: string; // Base64
+  iv: string; // Base64
+  ciphertext: string; // Base64
+}
+
+// ロック解除済みボールトの鍵情報（メモリ上のみで保持）
+export interface VaultKey {
+  key: CryptoKey;
+  salt: ArrayBuffer;
+  iterations: number;
+}
+
+// パスフレーズが間違っている場合のエラー
+export class VaultPassphraseError extends Error {
+  constructor() {
+    super("パスフレーズが正しくありません");
+    this.name = "VaultPassphraseError";
+  }
+}
+
+// バイト配列をBase64に変換する関数
+function bytesToBase64(bytes: Uint8Array): string {
+  let binaryString = "";
+  bytes.forEach(byte => {
+    binaryString += String.fromCharCode(byte);
+  });
+  return btoa(binaryString);
+}
+
+// Base64をArrayBufferに変換する関数
+function base64ToBuffer(base64: string): ArrayBuffer {
+  const binaryString = atob(base64);
+  const buffer = new ArrayBuffer(binaryString.length);
+  const bytes = new Uint8Array(buffer);
+  for (let i = 0; i < binaryString.length; i++) {
+    bytes[i] = binaryString.charCodeAt(i);
+  }
+  return buffer;
+}
+
+// ランダムなソルトを生成する関数
+function generateSalt(): ArrayBuffer {
+  const salt = new ArrayBuffer(SALT_LENGTH);
+  crypto.getRandomValues(new Uint8Array(salt));
+  return salt;
+}
+
+// パスフレーズからAES-GCM鍵を導出する関数
+export async function deriveVaultKey(
+  passphrase: string,
+  salt: ArrayBuffer = generateSalt(),
+  iterations: number = PBKDF2_ITERATIONS
+): Promise<VaultKey> {
+  const baseKey = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(passphrase),
+    "PBKDF2",
+    false,
+    ["deriveKey"]
+  );
+
+  const key = await crypto.subtle.deriveKey(
+    { name: "PBKDF2", salt, iterations, hash: "SHA-256" },
+    baseKey,
+    { name: "AES-GCM", length: 256 },
+    false, // 鍵はエクスポート不可
+    ["encrypt", "decrypt"]
+  );
+
+  return { key, salt, iterations };
+}
+
+// データを暗号化する関数（暗号化のたびに新しいIVを使用）
+export async function encryptVault(vaultKey: VaultKey, plaintext: string): Promise<EncryptedVault> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv },
+    vaultKey.key,
+    new TextEncoder().encode(plaintext)
+  );
+
+  return {
+    version: 1,
+    iterations: vaultKey.iterations,
+    salt: bytesToBase64(new Uint8Array(vaultKey.salt)),
+    iv: bytesToBase64(iv),
+    ciphertext: bytesToBase64(new Uint8Array(ciphertext)),
+  };
+}
+
+// パスフレーズでボールトを復号する関数
+export async function decryptVault(
+  passphrase: string,
+  vault: EncryptedVault
+): Promise<{ plaintext: string; vaultKey: VaultKey }> {
+  const vaultKey = await deriveVaultKey(passphrase, base64ToBuffer(vault.salt), vault.iterations);
+
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      { name: "AES-GCM", iv: base64ToBuffer(vault.iv) },
+      vaultKey.key,
+      base64ToBuffer(vault.ciphertext)
+    );
+    return { plaintext: new TextDecoder().decode(plaintext), vaultKey };
+  } catch {
+    // AES-GCMの認証タグが一致しない＝パスフレーズ誤り
+    throw new VaultPassphraseError();
+  }
+}
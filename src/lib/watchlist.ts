@@ -0,0 +1,48 @@
+import { isValidClassicAddress } from "xrpl";
+import { getWatchlist, saveWatchlist } from "./storage";
+import { WatchedAccount } from "./types";
+
+// ウォッチリストの種類の表示名
+export const WATCHED_ACCOUNT_KIND_LABELS: Record<WatchedAccount["kind"], string> = {
+  account: "アカウント",
+  issuer: "発行者",
+};
+
+// ウォッチリストの変更を通知する関数（マーケットプレイスと購読を更新する）
+function notifyWatchlistUpdated(): void {
+  window.dispatchEvent(new Event("watchlist-updated"));
+}
+
+// ウォッチリストにアカウントまたは発行者を追加する関数
+export function addToWatchlist(address: string, label: string, kind: WatchedAccount["kind"]): WatchedAccount[] {
+  const trimmed = address.trim();
+  if (!isValidClassicAddress(trimmed)) {
+    throw new Error("無効なアドレスです");
+  }
+
+  const watchlist = getWatchlist();
+  if (watchlist.some(item => item.address === trimmed && item.kind === kind)) {
+    throw new Error(`この${WATCHED_ACCOUNT_KIND_LABELS[kind]}は既にウォッチリストに追加されています`);
+  }
+
+  const updated = [
+    ...watchlist,
+    { address: trimmed, label: label.trim(), kind, addedAt: new Date().toISOString() },
+  ];
+  saveWatchlist(updated);
+  notifyWatchlistUpdated();
+  return updated;
+}
+
+// ウォッチリストから削除する関数
+export function removeFromWatchlist(address: string, kind: WatchedAccount["kind"]): WatchedAccount[] {
+  const updated = getWatchlist().filter(item => !(item.address === address && item.kind === kind));
+  saveWatchlist(updated);
+  notifyWatchlistUpdated();
+  return updated;
+}
+
+// ウォッチリストから指定した種類のアドレスを取得する関数
+export function getWatchedAddresses(watchlist: WatchedAccount[], kind: WatchedAccount["kind"]): string[] {
+  return watchlist.filter(item => item.kind === kind).map(item => item.address);
+}
@@ -0,0 +1,159 @@
+import { convertHexToString, convertStringToHex, dropsToXrp, xrpToDrops } from "xrpl";
+import { Amount, IssuedCurrencyAmount, OfferCurrency } from "../types";
+
+// XRPを表す通貨
+export const XRP_CURRENCY: OfferCurrency = { currency: "XRP" };
+
+// 非標準（40桁16進数）の通貨コードの長さ
+const HEX_CURRENCY_LENGTH = 40;
+// 非標準の通貨コードとして使える最大文字数（20バイト）
+const MAX_CURRENCY_CODE_LENGTH = 20;
+
+// 金額がIOU（発行通貨）かどうかを判定する関数
+export function isIssuedCurrency(amount: Amount): amount is IssuedCurrencyAmount {
+  return typeof amount === "object" && amount !== null;
+}
+
+// 通貨がXRPかどうかを判定する関数
+export function isXrpCurrency(currency: OfferCurrency): boolean {
+  return currency.currency === "XRP" && !currency.issuer;
+}
+
+// 表示用の通貨コードをXRPLの通貨コードに変換する関数
+// 3文字の場合はそのまま、4文字以上の場合は40桁の16進数に変換する
+export function encodeCurrencyCode(code: string): string {
+  const trimmed = code.trim();
+
+  if (new RegExp(`^[0-9A-Fa-f]{${HEX_CURRENCY_LENGTH}}$`).test(trimmed)) {
+    return trimmed.toUpperCase();
+  }
+  if (trimmed.length === 3 && trimmed.toUpperCase() !== "XRP") {
+    return trimmed;
+  }
+  if (trimmed.length > 3 && trimmed.length <= MAX_CURRENCY_CODE_LENGTH && /^[\x21-\x7e]+$/.test(trimmed)) {
+    return convertStringToHex(trimmed).padEnd(HEX_CURRENCY_LENGTH, "0");
+  }
+
+  throw new Error("通貨コードは3文字（XRP以外）、または20文字以内の英数字で入力してください");
+}
+
+// XRPLの通貨コードを表示用に変換する関数
+export function decodeCurrencyCode(code: string): string {
+  if (code.length !== HEX_CURRENCY_LENGTH || !/^[0-9A-F]+$/i.test(code)) {
+    return code;
+  }
+
+  // 先頭バイトが0x00の場合は標準形式（12〜14バイト目がISOコード）
+  if (code.startsWith("00")) {
+    return convertHexToString(code.substring(24, 30)).replace(/\0/g, "");
+  }
+
+  const decoded = convertHexToString(code).replace(/\0/g, "");
+  // 表示できない文字が含まれる場合は16進数のまま短縮表示
+  return /^[\x20-\x7e]+$/.test(decoded) ? decoded : `${code.substring(0, 8)}...`;
+}
+
+// 入力された数値と通貨からXRPLの金額を作成する関数
+export function toAmount(value: string, currency: OfferCurrency): Amount {
+  if (isXrpCurrency(currency)) {
+    return xrpToDrops(value);
+  }
+  if (!currency.issuer) {
+    throw new Error("IOUの発行者が指定されていません");
+  }
+  return {
+    currency: encodeCurrencyCode(currency.currency),
+    issuer: currency.issuer,
+    value: value.trim(),
+  };
+}
+
+// 金額の通貨を取得する関数
+export function getAmountCurrency(amount: Amount): OfferCurrency {
+  if (isIssuedCurrency(amount)) {
+    return { currency: amount.currency, issuer: amount.issuer };
+  }
+  return XRP_CURRENCY;
+}
+
+// 2つの通貨が同じかどうかを判定する関数
+export function isSameCurrency(a: OfferCurrency, b: OfferCurrency): boolean {
+  return encodeCurrencyKey(a) === encodeCurrencyKey(b);
+}
+
+// 通貨を一意に識別するキーを作成する関数（Selectの値などに使用）
+export function encodeCurrencyKey(currency: OfferCurrency): string {
+  if (isXrpCurrency(currency)) return "XRP";
+  return `${encodeCurrencyCode(currency.currency)}:${currency.issuer}`;
+}
+
+// キーから通貨を復元する関数
+export function decodeCurrencyKey(key: string): OfferCurrency {
+  if (key === "XRP") return XRP_CURRENCY;
+  const [currency, issuer] = key.split(":");
+  return { currency, issuer };
+}
+
+// 末尾の不要な0を削除する関数
+function trimTrailingZeros(value: string): string {
+  return value.includes(".") ? value.replace(/\.?0+$/, "") : value;
+}
+
+// 金額の数値部分を表示用の文字列に変換する関数（XRPはドロップスから変換）
+export function formatAmountValue(amount: Amount): string {
+  if (isIssuedCurrency(amount)) {
+    return trimTrailingZeros(amount.value);
+  }
+  return trimTrailingZeros(dropsToXrp(amount).toString());
+}
+
+// 通貨の表示名を取得する関数
+export function formatCurrency(currency: OfferCurrency): string {
+  return isXrpCurrency(currency) ? "XRP" : decodeCurrencyCode(currency.currency);
+}
+
+// 金額を通貨付きで表示用に変換する関数（例: "12.5 XRP", "100 USD"）
+export function formatAmount(amount: Amount): string {
+  return `${formatAmountValue(amount)} ${formatCurrency(getAmountCurrency(amount))}`;
+}
+
+// 金額を比較する関数（並べ替え用）
+// 通貨が異なる場合はXRPを先に、その他は通貨キー順に並べる
+export function compareAmounts(a: Amount, b: Amount): number {
+  const keyA = encodeCurrencyKey(getAmountCurrency(a));
+  const keyB = encodeCurrencyKey(getAmountCurrency(b));
+
+  if (keyA !== keyB) {
+    if (keyA === "XRP") return -1;
+    if (keyB === "XRP") return 1;
+    return keyA.localeCompare(keyB);
+  }
+
+  if (!isIssuedCurrency(a) && !isIssuedCurrency(b)) {
+    // ドロップスは整数なのでBigIntで正確に比較
+    const diff = BigInt(a) - BigInt(b);
+    return diff === BigInt(0) ? 0 : diff < BigInt(0) ? -1 : 1;
+  }
+
+  return Number(formatAmountValue(a)) - Number(formatAmountValue(b));
+}
+
+// 金額が0かどうかを判定する関数
+export function isZeroAmount(amount: Amount): boolean {
+  return isIssuedCurrency(amount) ? Number(amount.value) === 0 : BigInt(amount) === BigInt(0);
+}
+
+// 同じ通貨の金額の差（a - b）を計算する関数
+export function subtractAmounts(a: Amount, b: Amount): Amount {
+  if (!isSameCurrency(getAmountCurrency(a), getAmountCurrency(b))) {
+    throw new Error("異なる通貨の金額は計算できません");
+  }
+
+  if (isIssuedCurrency(a) && isIssuedCurrency(b)) {
+    // IOUの精度（有効桁数15桁）に合わせて浮動小数点の誤差を丸める
+    const diff = Number((Number(a.value) - Number(b.value)).toPrecision(15));
+    return { ...a, value: diff.toString() };
+  }
+
+  return (BigInt(a as string) - BigInt(b as string)).toString();
+}
@@ -0,0 +1,62 @@
+import { Amount, NFTOffer } from "../types";
+import { compareAmounts, getAmountCurrency, isSameCurrency, subtractAmounts } from "./amount";
+import { isOfferExpired } from "./expiration";
+
+// 仲介可能な売りオファーと買いオファーの組み合わせ
+export interface BrokerMatch {
+  nftokenID: string;
+  sellOffer: NFTOffer;
+  buyOffer: NFTOffer;
+  // 仲介者が受け取れる最大の手数料（買値 - 売値）
+  maxBrokerFee: Amount;
+}
+
+// 仲介者が受け取れる最大の手数料を計算する関数
+// 通貨が異なる場合や買値が売値に届かない場合はnullを返す
+export function getMaxBrokerFee(sellAmount: Amount, buyAmount: Amount): Amount | null {
+  if (!isSameCurrency(getAmountCurrency(sellAmount), getAmountCurrency(buyAmount))) {
+    return null;
+  }
+  if (compareAmounts(buyAmount, sellAmount) < 0) {
+    return null;
+  }
+  // 発行者の送金手数料は手数料を差し引いた後の金額から支払われるため、上限には含めない
+  return subtractAmounts(buyAmount, sellAmount);
+}
+
+// 指定した仲介者がオファーを承認できるかどうかを判定する関数
+function canBrokerAccept(offer: NFTOffer, broker: string): boolean {
+  return offer.owner !== broker
+    && (!offer.destination || offer.destination === broker)
+    && !isOfferExpired(offer.expiration);
+}
+
+// NFTのオファーから仲介可能な組み合わせを検索する関数
+// 売りオファーは現在の所有者が作成したもののみを対象とし、手数料の大きい順に並べる
+export function findBrokerMatches(
+  nftokenID: string,
+  nftOwner: string,
+  sellOffers: NFTOffer[],
+  buyOffers: NFTOffer[],
+  broker: string
+): BrokerMatch[] {
+  const matches: BrokerMatch[] = [];
+
+  const validSellOffers = sellOffers.filter(
+    offer => offer.owner === nftOwner && canBrokerAccept(offer, broker)
+  );
+  const validBuyOffers = buyOffers.filter(
+    offer => offer.owner !== nftOwner && canBrokerAccept(offer, broker)
+  );
+
+  for (const sellOffer of validSellOffers) {
+    for (const buyOffer of validBuyOffers) {
+      const maxBrokerFee = getMaxBrokerFee(sellOffer.amount, buyOffer.amount);
+      if (maxBrokerFee !== null) {
+        matches.push({ nftokenID, sellOffer, buyOffer, maxBrokerFee });
+      }
+    }
+  }
+
+  return matches.sort((a, b) => compareAmounts(b.maxBrokerFee, a.maxBrokerFee));
+}
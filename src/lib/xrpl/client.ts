@@ -1,9 +1,9 @@
-import { Client } from "xrpl";
+import { Client, TransactionStream } from "xrpl";
 import { ResilientXrplClient } from "./resilient-client";
 import { toast } from "sonner";
-
-// NFTをサポートする確実なサーバー
-const MAIN_SERVER = "wss://s.altnet.rippletest.net:51233/"; // DevNet - NFTをサポート
+import { CustomNetworkSettings, NetworkConfig, NetworkId, getNetworkConfig } from "./networks";
+import { getNetworkId, getCustomNetworkSettings, saveNetworkId, saveCustomNetworkSettings, lockVault } from "../storage";
+import { useAppStore } from "../store";
 
 // 回復力のあるXRPLクライアントのインスタンス
 let resilientClient: ResilientXrplClient | null = null;
@@ -11,6 +11,41 @@ let isReconnecting = false;
 let failedAttempts = 0;
 const MAX_RETRY_ATTEMPTS = 3;
 
+// subscribeで購読するアカウントとトランザクションのリスナー
+// forceReconnectでインスタンスを作り直しても引き継ぐため、モジュールで保持する
+let subscribedAccounts: string[] = [];
+const transactionListeners = new Set<(transaction: TransactionStream) => void>();
+
+// スタンドアロンモードでレジャーをクローズする間隔（ミリ秒）
+const LEDGER_ACCEPT_INTERVAL = 1000;
+let ledgerAcceptIntervalId: ReturnType<typeof setInterval> | null = null;
+
+// 現在選択されているネットワークの設定を取得する関数
+export function getCurrentNetwork(): NetworkConfig {
+  return getNetworkConfig(getNetworkId(), getCustomNetworkSettings());
+}
+
+// スタンドアロンのrippledは自動でレジャーをクローズしないため、定期的にledger_acceptを送信
+function startLedgerAcceptLoop() {
+  if (ledgerAcceptIntervalId) return;
+  ledgerAcceptIntervalId = setInterval(async () => {
+    if (!resilientClient || !resilientClient.isConnected()) return;
+    try {
+      const client = await resilientClient.getClient();
+      await client.connection.request({ command: "ledger_accept" });
+    } catch (error) {
+      console.warn("ledger_acceptに失敗しました:", error);
+    }
+  }, LEDGER_ACCEPT_INTERVAL);
+}
+
+function stopLedgerAcceptLoop() {
+  if (ledgerAcceptIntervalId) {
+    clearInterval(ledgerAcceptIntervalId);
+    ledgerAcceptIntervalId = null;
+  }
+}
+
 // コネクション状態の変更をグローバルイベントとして発信
 function setupConnectionEvents(client: ResilientXrplClient) {
   client.addConnectionListener((connected) => {
@@ -24,21 +59,38 @@ function setupConnectionEvents(client: ResilientXrplClient) {
   });
 }
 
+// 購読中のアカウントとトランザクションのリスナーを新しいインスタンスに引き継ぐ
+// 接続前に登録したアカウントは接続時に購読される
+function setupSubscriptions(client: ResilientXrplClient) {
+  client.addTransactionListener((transaction) => {
+    transactionListeners.forEach(listener => listener(transaction));
+  });
+  client.subscribeAccounts(subscribedAccounts).catch(err => {
+    console.warn("アカウントの購読に失敗しました:", err);
+  });
+}
+
 // エラーハンドリング付きでクライアントを取得または初期化する関数
 export async function getClient(): Promise<Client> {
+  const network = getCurrentNetwork();
   if (!resilientClient) {
-    console.log(`Initializing resilient XRPL client with server: ${MAIN_SERVER}`);
-    resilientClient = new ResilientXrplClient(MAIN_SERVER, {
+    console.log(`Initializing resilient XRPL client with servers: ${network.servers.join(", ")} (${network.name})`);
+    resilientClient = new ResilientXrplClient(network.servers, {
       connectionTimeout: 20000, // 接続タイムアウト（20秒）
       timeout: 20000, // リクエストタイムアウト
     });
     
     // 接続イベントを設定
     setupConnectionEvents(resilientClient);
+    setupSubscriptions(resilientClient);
   }
 
   try {
-    return await resilientClient.getClient();
+    const client = await resilientClient.getClient();
+    if (network.isStandalone) {
+      startLedgerAcceptLoop();
+    }
+    return client;
   } catch (error) {
     failedAttempts++;
     console.error(`XRPL接続エラー (試行 ${failedAttempts}/${MAX_RETRY_ATTEMPTS}):`, error);
@@ -59,6 +111,7 @@ export async function getClient(): Promise<Client> {
 
 // クライアントを切断する関数
 export async function disconnectClient(): Promise<void> {
+  stopLedgerAcceptLoop();
   if (resilientClient) {
     console.log("Disconnecting from XRPL...");
     try {
@@ -95,6 +148,37 @@ export async function reconnectClient(): Promise<Client> {
   }
 }
 
+// トランザクションを購読するアカウントを設定する関数
+// 追加・削除されたアカウントのみsubscribe・unsubscribeし、再接続後は自動で購読し直す
+export async function setSubscribedAccounts(accounts: string[]): Promise<void> {
+  const next = Array.from(new Set(accounts));
+  const added = next.filter(account => !subscribedAccounts.includes(account));
+  const removed = subscribedAccounts.filter(account => !next.includes(account));
+  subscribedAccounts = next;
+
+  if (!resilientClient) return;
+  try {
+    await resilientClient.unsubscribeAccounts(removed);
+    await resilientClient.subscribeAccounts(added);
+  } catch (error) {
+    console.error(`Failed to update account subscriptions: ${error}`);
+    throw error;
+  }
+}
+
+// 購読中のアカウントのトランザクションを受け取るリスナーを追加する関数（戻り値の関数で削除）
+export function addTransactionListener(listener: (transaction: TransactionStream) => void): () => void {
+  transactionListeners.add(listener);
+  return () => {
+    transactionListeners.delete(listener);
+  };
+}
+
+// 現在使用中のサーバーを取得する関数
+export function getActiveServer(): string | null {
+  return resilientClient ? resilientClient.getActiveServer() : null;
+}
+
 // 接続状態を確認する関数
 export function checkConnection(): boolean {
   return resilientClient !== null && resilientClient.isConnected();
@@ -125,6 +209,37 @@ export async function forceReconnect(): Promise<Client> {
   }
 }
 
+// 接続先のネットワークを切り替える関数
+// 既存のクライアントを破棄し、切り替え完了後に'network-changed'イベントを発火する
+export async function switchNetwork(
+  networkId: NetworkId,
+  customSettings?: CustomNetworkSettings
+): Promise<void> {
+  await disconnectClient();
+  resilientClient = null;
+  failedAttempts = 0;
+  // 購読するアカウントは切り替え先のネットワークのウォレットで設定し直す
+  subscribedAccounts = [];
+
+  if (customSettings) {
+    saveCustomNetworkSettings(customSettings);
+  }
+  saveNetworkId(networkId);
+
+  // 復号済みのウォレット情報は切り替え前のネットワークのものなので破棄
+  lockVault();
+  useAppStore.getState().setNetwork(getCurrentNetwork());
+
+  window.dispatchEvent(new CustomEvent('network-changed', {
+    detail: { networkId }
+  }));
+
+  // 新しいネットワークに接続（失敗しても切り替え自体は完了させる）
+  getClient().catch(err => {
+    console.error("Connection after network switch failed:", err);
+  });
+}
+
 // アプリケーション開始時に自動的に接続を確立
 if (typeof window !== 'undefined') {
   // クライアントサイドの場合（ブラウザ環境）
@@ -0,0 +1,131 @@
+import { parseNFTokenID } from "xrpl";
+import { Amount, NFT, NFTCollection } from "../types";
+import { getCollections, saveCollections } from "../storage";
+import { compareAmounts } from "./amount";
+
+// コレクションを指定せずに発行したNFTのタクソン
+export const DEFAULT_TAXON = 0;
+
+// タクソンの最大値（UInt32）
+const MAX_TAXON = 0xffffffff;
+
+// 発行者とタクソンでまとめたNFTのグループ
+export interface CollectionGroup<T extends NFT> {
+  key: string;
+  issuer: string;
+  taxon: number;
+  name: string;
+  items: T[];
+}
+
+// コレクションの統計情報
+export interface CollectionStats {
+  itemCount: number;
+  ownerCount: number;
+  owners: string[];
+  // 販売中のNFTの最安値（販売中のものがない場合はundefined）
+  floorPrice?: Amount;
+}
+
+// コレクションを一意に識別するキーを作成する関数
+export function getCollectionKey(issuer: string, taxon: number): string {
+  return `${issuer}:${taxon}`;
+}
+
+// NFTのタクソンを取得する関数
+// account_nftsの応答に含まれない場合はNFTokenIDから復元する
+export function getNFTTaxon(nft: NFT): number {
+  if (typeof nft.NFTokenTaxon === "number") {
+    return nft.NFTokenTaxon;
+  }
+  return parseNFTokenID(nft.NFTokenID).Taxon;
+}
+
+// 保存済みのコレクション情報を検索する関数
+export function findCollection(issuer: string, taxon: number): NFTCollection | undefined {
+  return getCollections().find(
+    collection => collection.issuer === issuer && collection.taxon === taxon
+  );
+}
+
+// 発行者が作成したコレクションの一覧を取得する関数
+export function getIssuerCollections(issuer: string): NFTCollection[] {
+  return getCollections()
+    .filter(collection => collection.issuer === issuer)
+    .sort((a, b) => a.taxon - b.taxon);
+}
+
+// コレクションの表示名を取得する関数
+export function getCollectionName(issuer: string, taxon: number): string {
+  const collection = findCollection(issuer, taxon);
+  if (collection) return collection.name;
+  return taxon === DEFAULT_TAXON ? "未分類" : `コレクション #${taxon}`;
+}
+
+// 新しいコレクションを作成する関数
+// タクソンは発行者ごとに既存のコレクションの次の番号を割り当てる
+export function createCollection(issuer: string, name: string, description: string): NFTCollection {
+  const collections = getCollections();
+  const issuerTaxons = collections
+    .filter(collection => collection.issuer === issuer)
+    .map(collection => collection.taxon);
+  const taxon = Math.max(DEFAULT_TAXON, ...issuerTaxons) + 1;
+
+  if (taxon > MAX_TAXON) {
+    throw new Error("これ以上コレクションを作成できません");
+  }
+
+  const collection: NFTCollection = {
+    issuer,
+    taxon,
+    name: name.trim(),
+    description: description.trim(),
+    createdAt: new Date().toISOString(),
+  };
+  saveCollections([...collections, collection]);
+  return collection;
+}
+
+// NFTを発行者とタクソンでグループ化する関数
+export function groupByCollection<T extends NFT>(nfts: T[]): CollectionGroup<T>[] {
+  const groups = new Map<string, CollectionGroup<T>>();
+
+  for (const nft of nfts) {
+    const taxon = getNFTTaxon(nft);
+    const key = getCollectionKey(nft.Issuer, taxon);
+    const group = groups.get(key);
+
+    if (group) {
+      group.items.push(nft);
+    } else {
+      groups.set(key, {
+        key,
+        issuer: nft.Issuer,
+        taxon,
+        name: getCollectionName(nft.Issuer, taxon),
+        items: [nft],
+      });
+    }
+  }
+
+  return Array.from(groups.values()).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// コレクションの統計情報（最安値・アイテム数・所有者）を計算する関数
+export function getCollectionStats(items: Array<NFT & { offerAmount?: Amount }>): CollectionStats {
+  const owners = Array.from(new Set(
+    items.map(item => item.Owner).filter((owner): owner is string => !!owner)
+  ));
+
+  const prices = items
+    .map(item => item.offerAmount)
+    .filter((amount): amount is Amount => amount !== undefined)
+    .sort(compareAmounts);
+
+  return {
+    itemCount: items.length,
+    ownerCount: owners.length,
+    owners,
+    floorPrice: prices[0],
+  };
+}
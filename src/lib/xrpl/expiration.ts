@@ -0,0 +1,43 @@
+import { rippleTimeToUnixTime, unixTimeToRippleTime } from "xrpl";
+
+// オファーの有効期間の選択肢（秒、0は無期限）
+export const OFFER_DURATION_OPTIONS: Array<{ label: string; seconds: number }> = [
+  { label: "無期限", seconds: 0 },
+  { label: "1時間", seconds: 60 * 60 },
+  { label: "1日", seconds: 24 * 60 * 60 },
+  { label: "3日", seconds: 3 * 24 * 60 * 60 },
+  { label: "7日", seconds: 7 * 24 * 60 * 60 },
+  { label: "30日", seconds: 30 * 24 * 60 * 60 },
+];
+
+// 有効期間（秒）からオファーのExpiration（Rippleエポック秒）を計算する関数
+export function toOfferExpiration(durationSeconds: number): number | undefined {
+  if (durationSeconds <= 0) return undefined;
+  return unixTimeToRippleTime(Date.now() + durationSeconds * 1000);
+}
+
+// 有効期限までの残り秒数を取得する関数（期限なしの場合はnull）
+export function getRemainingSeconds(expiration?: number, now: number = Date.now()): number | null {
+  if (expiration === undefined || expiration === null) return null;
+  return Math.floor((rippleTimeToUnixTime(expiration) - now) / 1000);
+}
+
+// オファーが期限切れかどうかを判定する関数
+export function isOfferExpired(expiration?: number, now: number = Date.now()): boolean {
+  const remaining = getRemainingSeconds(expiration, now);
+  return remaining !== null && remaining <= 0;
+}
+
+// 残り時間を表示用の文字列に変換する関数
+export function formatRemainingTime(seconds: number): string {
+  if (seconds <= 0) return "期限切れ";
+
+  const days = Math.floor(seconds / 86400);
+  const hours = Math.floor((seconds % 86400) / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+
+  if (days > 0) return `残り${days}日${hours > 0 ? `${hours}時間` : ""}`;
+  if (hours > 0) return `残り${hours}時間${minutes > 0 ? `${minutes}分` : ""}`;
+  if (minutes > 0) return `残り${minutes}分`;
+  return `残り${seconds}秒`;
+}
@@ -0,0 +1,357 @@
+import {
+  AccountTxTransaction,
+  Client,
+  NFTHistoryTransaction,
+  ResponseOnlyTxInfo,
+  Transaction,
+  TransactionMetadata,
+  TransactionStream,
+  isDeletedNode,
+  parseNFTokenID,
+  rippleTimeToUnixTime,
+} from "xrpl";
+import { Amount } from "../types";
+import { isZeroAmount } from "./amount";
+import { getCreatedOfferID, getMintedNFTokenID } from "./nft";
+
+// 履歴のイベントの種類
+// list: 売りオファーの作成、bid: 買いオファーの作成、sale: 有償での売買、transfer: 無償の譲渡
+export type NFTHistoryEventType = "mint" | "list" | "bid" | "sale" | "transfer" | "cancel" | "burn";
+
+// イベントの種類の表示名
+export const NFT_HISTORY_EVENT_LABELS: Record<NFTHistoryEventType, string> = {
+  mint: "発行",
+  list: "出品",
+  bid: "買いオファー",
+  sale: "売買",
+  transfer: "譲渡",
+  cancel: "オファー取り消し",
+  burn: "焼却",
+};
+
+// NFTの取引履歴の1イベント
+// 1つのトランザクションから複数のイベントが作られる場合がある（複数オファーの取り消しなど）
+export interface NFTHistoryEvent {
+  type: NFTHistoryEventType;
+  nftokenID: string;
+  hash: string;
+  ledgerIndex: number;
+  date: number | null; // UNIX時間（ミリ秒）
+  account: string; // トランザクションの送信者
+  from?: string; // NFTの移動元（発行者・売り手・焼却前の所有者）
+  to?: string; // NFTの移動先（発行先・買い手）、オファーの宛先（売りオファーのDestination・買いオファーのNFT所有者）
+  amount?: Amount;
+  offerID?: string;
+  broker?: string; // 仲介者（ブローカーモードの場合）
+  uri?: string; // 発行時のURI（16進数、発行イベントのみ）
+  expiration?: number; // オファーの有効期限（XRPLのエポックからの秒数、出品・買いオファーのみ）
+}
+
+// 履歴の1ページ
+export interface NFTHistoryPage {
+  events: NFTHistoryEvent[];
+  marker?: unknown; // 続きがある場合のマーカー
+}
+
+// 1回のリクエストで取得するトランザクション数の既定値
+export const DEFAULT_HISTORY_PAGE_SIZE = 50;
+
+// 削除されたNFTokenOfferの情報
+interface DeletedOffer {
+  offerID: string;
+  nftokenID: string;
+  owner: string;
+  amount: Amount;
+  isSellOffer: boolean;
+}
+
+// 履歴のトランザクション（tx_json・tx・transactionのいずれかに入る）
+type HistoryTransaction = Transaction & ResponseOnlyTxInfo;
+
+// account_tx・nft_historyの応答の1件とsubscribeのトランザクションストリームに共通するフィールド（API v1・v2）
+interface HistoryEntry {
+  validated?: boolean;
+  hash?: string;
+  ledger_index?: number;
+  meta?: string | TransactionMetadata;
+  tx_json?: HistoryTransaction;
+  tx?: HistoryTransaction;
+  transaction?: HistoryTransaction;
+}
+
+// 削除されたNFTokenOfferのフィールド（xrpl.jsの型ではunknown）
+interface DeletedOfferFields {
+  NFTokenID: string;
+  Owner: string;
+  Amount: Amount;
+  Flags: number;
+}
+
+// メタデータから削除されたNFTokenOfferを取得する関数（承認・取り消しされたオファー）
+function getDeletedOffers(meta: TransactionMetadata): DeletedOffer[] {
+  const offers: DeletedOffer[] = [];
+  for (const node of meta.AffectedNodes) {
+    if (!isDeletedNode(node) || node.DeletedNode.LedgerEntryType !== "NFTokenOffer") continue;
+    const fields = node.DeletedNode.FinalFields as unknown as DeletedOfferFields;
+    offers.push({
+      offerID: node.DeletedNode.LedgerIndex,
+      nftokenID: fields.NFTokenID,
+      owner: fields.Owner,
+      amount: fields.Amount,
+      // lsfSellNFToken = 0x00000001
+      isSellOffer: (fields.Flags & 1) === 1,
+    });
+  }
+  return offers;
+}
+
+// 検証済みのトランザクションをNFTの履歴イベントに変換する関数
+// NFT関連以外のトランザクションや失敗したトランザクションは空配列を返す
+export function decodeNFTTransaction(
+  tx: HistoryTransaction,
+  meta: string | TransactionMetadata | undefined,
+  ledgerIndex: number,
+  hash: string
+): NFTHistoryEvent[] {
+  // バイナリ形式（文字列）のメタデータには対応しない
+  if (typeof meta !== "object" || meta.TransactionResult !== "tesSUCCESS") {
+    return [];
+  }
+
+  const base = {
+    hash,
+    ledgerIndex,
+    date: typeof tx.date === "number" ? rippleTimeToUnixTime(tx.date) : null,
+    account: tx.Account,
+  };
+
+  switch (tx.TransactionType) {
+    case "NFTokenMint": {
+      const nftokenID = getMintedNFTokenID(meta);
+      if (!nftokenID) return [];
+      return [{ ...base, type: "mint", nftokenID, from: tx.Issuer ?? tx.Account, to: tx.Account, uri: tx.URI ?? undefined }];
+    }
+
+    case "NFTokenCreateOffer": {
+      // tfSellNFToken = 0x00000001（レジャーのトランザクションのFlagsは数値）
+      const isSellOffer = typeof tx.Flags === "number" && (tx.Flags & 1) === 1;
+      return [{
+        ...base,
+        type: isSellOffer ? "list" : "bid",
+        nftokenID: tx.NFTokenID,
+        amount: tx.Amount,
+        offerID: getCreatedOfferID(meta),
+        to: isSellOffer ? tx.Destination : tx.Owner,
+        expiration: tx.Expiration,
+      }];
+    }
+
+    case "NFTokenAcceptOffer": {
+      const offers = getDeletedOffers(meta);
+      const sellOffer = offers.find(offer => offer.isSellOffer);
+      const buyOffer = offers.find(offer => !offer.isSellOffer);
+      const nftokenID = ("nftoken_id" in meta ? meta.nftoken_id : undefined) ?? sellOffer?.nftokenID ?? buyOffer?.nftokenID;
+      if (!nftokenID) return [];
+
+      // 売りオファーのみ: 送信者が買い手、買いオファーのみ: 送信者が売り手、両方: 送信者は仲介者
+      const isBrokered = !!sellOffer && !!buyOffer;
+      const from = sellOffer?.owner ?? tx.Account;
+      const to = buyOffer?.owner ?? tx.Account;
+      // 買い手が支払う金額（仲介の場合は買いオファーの金額）
+      const amount = buyOffer?.amount ?? sellOffer?.amount;
+
+      return [{
+        ...base,
+        type: amount && !isZeroAmount(amount) ? "sale" : "transfer",
+        nftokenID,
+        from,
+        to,
+        amount,
+        offerID: (sellOffer ?? buyOffer)?.offerID,
+        ...(isBrokered ? { broker: tx.Account } : {}),
+      }];
+    }
+
+    case "NFTokenCancelOffer":
+      return getDeletedOffers(meta).map(offer => ({
+        ...base,
+        type: "cancel" as const,
+        nftokenID: offer.nftokenID,
+        amount: offer.amount,
+        offerID: offer.offerID,
+        from: offer.owner,
+      }));
+
+    case "NFTokenBurn":
+      return [{ ...base, type: "burn", nftokenID: tx.NFTokenID, from: tx.Owner ?? tx.Account }];
+
+    default:
+      return [];
+  }
+}
+
+// account_tx・nft_historyの応答の1件やsubscribeのトランザクションストリームをイベントに変換する関数
+// API v1・v2の両方の形式に対応し、未検証のトランザクションは空配列を返す
+export function decodeHistoryEntry(
+  historyEntry: AccountTxTransaction | NFTHistoryTransaction | TransactionStream
+): NFTHistoryEvent[] {
+  const entry: HistoryEntry = historyEntry;
+  if (entry.validated === false) return [];
+  const tx = entry.tx_json ?? entry.tx ?? entry.transaction;
+  const hash = entry.hash ?? tx?.hash;
+  const ledgerIndex = entry.ledger_index ?? tx?.ledger_index;
+  if (!tx || !hash || ledgerIndex === undefined) return [];
+  return decodeNFTTransaction(tx, entry.meta, ledgerIndex, hash);
+}
+
+// アカウントのNFT関連の取引履歴を新しい順に取得する関数
+// account_txの1ページ分を取得し、NFT関連のトランザクションのみをイベントとして返す
+export async function getAccountNFTHistory(
+  client: Client,
+  address: string,
+  marker?: unknown,
+  limit: number = DEFAULT_HISTORY_PAGE_SIZE
+): Promise<NFTHistoryPage> {
+  try {
+    const response = await client.request({
+      command: "account_tx",
+      account: address,
+      ledger_index_min: -1,
+      ledger_index_max: -1,
+      forward: false,
+      limit,
+      marker,
+    });
+
+    return {
+      events: response.result.transactions.flatMap(decodeHistoryEntry),
+      marker: response.result.marker,
+    };
+  } catch (error: unknown) {
+    // 未アクティベートのアカウントは履歴なしとして扱う
+    if (String(error).includes("actNotFound")) {
+      return { events: [] };
+    }
+    console.error(`Failed to get account NFT history: ${error}`);
+    throw error;
+  }
+}
+
+// 発行者のNFTの発行イベントをすべて取得する関数
+// 代理発行のNFTokenMintも発行者のアカウントを変更するため（MintedNFTokens）、発行者のaccount_txに含まれる
+export async function getIssuerMintEvents(client: Client, issuer: string): Promise<NFTHistoryEvent[]> {
+  try {
+    const events: NFTHistoryEvent[] = [];
+    let marker: unknown = undefined;
+    do {
+      const page = await getAccountNFTHistory(client, issuer, marker, 200);
+      events.push(...page.events.filter(event => event.type === "mint" && event.from === issuer));
+      marker = page.marker;
+    } while (marker);
+    return events;
+  } catch (error) {
+    console.error(`Failed to get issuer mint events: ${error}`);
+    throw error;
+  }
+}
+
+// NFTの発行イベントを取得する関数（見つからない場合はnull）
+// nft_history（Clioサーバー）の最初の1件を使用し、非対応の場合は発行者のaccount_txを新しい順に見つかるまでたどる
+export async function getNFTMintEvent(client: Client, nftokenID: string): Promise<NFTHistoryEvent | null> {
+  try {
+    try {
+      const response = await client.request({
+        command: "nft_history",
+        nft_id: nftokenID,
+        forward: true,
+        limit: 1,
+      });
+      return response.result.transactions.flatMap(decodeHistoryEntry).find(event => event.type === "mint") ?? null;
+    } catch (error) {
+      console.warn("nft_historyを使用できないため、発行者のaccount_txから発行イベントを探します:", error);
+    }
+
+    const { Issuer } = parseNFTokenID(nftokenID);
+    let marker: unknown = undefined;
+    do {
+      const page = await getAccountNFTHistory(client, Issuer, marker, 200);
+      const mint = page.events.find(event => event.type === "mint" && event.nftokenID === nftokenID);
+      if (mint) return mint;
+      marker = page.marker;
+    } while (marker);
+    return null;
+  } catch (error) {
+    console.error(`Failed to get NFT mint event: ${error}`);
+    throw error;
+  }
+}
+
+// nft_history（Clioサーバーのみ対応）でNFTの全履歴を取得する関数
+async function getNFTHistoryFromClio(client: Client, nftokenID: string): Promise<NFTHistoryEvent[]> {
+  const events: NFTHistoryEvent[] = [];
+  let marker: unknown = undefined;
+
+  do {
+    const response = await client.request({
+      command: "nft_history",
+      nft_id: nftokenID,
+      forward: true,
+      limit: 100,
+      marker,
+    });
+    events.push(...response.result.transactions.flatMap(decodeHistoryEntry));
+    marker = response.result.marker;
+  } while (marker);
+
+  return events;
+}
+
+// 関係するアカウントのaccount_txからNFTの履歴を集める関数（nft_historyが使えない場合）
+async function getNFTHistoryFromAccounts(
+  client: Client,
+  nftokenID: string,
+  accounts: string[]
+): Promise<NFTHistoryEvent[]> {
+  const eventsByKey = new Map<string, NFTHistoryEvent>();
+
+  for (const account of accounts) {
+    let marker: unknown = undefined;
+    do {
+      const page = await getAccountNFTHistory(client, account, marker, 200);
+      for (const event of page.events) {
+        if (event.nftokenID === nftokenID) {
+          // 複数のアカウントの履歴に同じトランザクションが含まれるため重複を除く
+          eventsByKey.set(`${event.hash}:${event.offerID ?? ""}`, event);
+        }
+      }
+      marker = page.marker;
+    } while (marker);
+  }
+
+  return Array.from(eventsByKey.values());
+}
+
+// NFTの取引履歴（発行から焼却まで）を古い順に取得する関数
+// nft_historyに対応したサーバーではそれを使用し、非対応の場合は発行者と指定したアカウントのaccount_txから集める
+export async function getNFTHistory(
+  client: Client,
+  nftokenID: string,
+  relatedAccounts: string[] = []
+): Promise<NFTHistoryEvent[]> {
+  try {
+    let events: NFTHistoryEvent[];
+    try {
+      events = await getNFTHistoryFromClio(client, nftokenID);
+    } catch (error) {
+      console.warn("nft_historyを使用できないため、account_txから履歴を取得します:", error);
+      const { Issuer } = parseNFTokenID(nftokenID);
+      const accounts = Array.from(new Set([Issuer, ...relatedAccounts]));
+      events = await getNFTHistoryFromAccounts(client, nftokenID, accounts);
+    }
+
+    return events.sort((a, b) => a.ledgerIndex - b.ledgerIndex);
+  } catch (error) {
+    console.error(`Failed to get NFT history: ${error}`);
+    throw error;
+  }
+}
@@ -0,0 +1,95 @@
+import { AccountSet, AccountSetAsfFlags, Client } from "xrpl";
+import { WalletRegistry, WalletState, getXrplWallet } from "./wallet";
+
+// アカウントが代理発行を許可しているミンターのアドレスを取得する関数（未設定の場合はnull）
+export async function getAuthorizedMinter(client: Client, address: string): Promise<string | null> {
+  try {
+    const response = await client.request({
+      command: "account_info",
+      account: address,
+      ledger_index: "validated",
+    });
+    return response.result.account_data.NFTokenMinter ?? null;
+  } catch (error: unknown) {
+    // 未アクティベートのアカウントはミンター未設定として扱う
+    if (String(error).includes("actNotFound")) {
+      return null;
+    }
+    console.error(`Failed to get authorized minter: ${error}`);
+    throw error;
+  }
+}
+
+// 自分の代わりにNFTを発行できるミンターを設定する関数
+export async function setAuthorizedMinter(
+  client: Client,
+  walletState: WalletState,
+  minter: string
+): Promise<void> {
+  try {
+    const wallet = getXrplWallet(walletState);
+    if (minter === wallet.address) {
+      throw new Error("自分自身をミンターに設定することはできません");
+    }
+
+    const transactionBlob: AccountSet = {
+      TransactionType: "AccountSet",
+      Account: wallet.address,
+      SetFlag: AccountSetAsfFlags.asfAuthorizedNFTokenMinter,
+      NFTokenMinter: minter,
+    };
+
+    const tx = await client.submitAndWait(transactionBlob, { autofill: true, wallet });
+    assertAccountSetSucceeded(tx.result.meta, "ミンターの設定に失敗しました");
+  } catch (error) {
+    console.error(`Failed to set authorized minter: ${error}`);
+    throw error;
+  }
+}
+
+// 代理発行の許可を解除する関数
+export async function clearAuthorizedMinter(client: Client, walletState: WalletState): Promise<void> {
+  try {
+    const wallet = getXrplWallet(walletState);
+
+    const transactionBlob: AccountSet = {
+      TransactionType: "AccountSet",
+      Account: wallet.address,
+      ClearFlag: AccountSetAsfFlags.asfAuthorizedNFTokenMinter,
+    };
+
+    const tx = await client.submitAndWait(transactionBlob, { autofill: true, wallet });
+    assertAccountSetSucceeded(tx.result.meta, "ミンターの解除に失敗しました");
+  } catch (error) {
+    console.error(`Failed to clear authorized minter: ${error}`);
+    throw error;
+  }
+}
+
+// AccountSetトランザクションの結果を確認する関数
+// tec系の結果でも例外にならずレジャーに記録されるため、tesSUCCESS以外はエラーとする
+function assertAccountSetSucceeded(meta: unknown, message: string): void {
+  const result = (meta as { TransactionResult?: string } | undefined)?.TransactionResult;
+  if (result !== "tesSUCCESS") {
+    throw new Error(`${message}: ${result ?? "unknown"}`);
+  }
+}
+
+// レジストリ内で、指定したアカウントをミンターに設定しているウォレットを取得する関数
+export async function getDelegatingIssuers(
+  client: Client,
+  minterAddress: string,
+  wallets: WalletRegistry
+): Promise<WalletState[]> {
+  const candidates = Object.values(wallets).filter(
+    registryWallet => registryWallet.classicAddress !== minterAddress
+  );
+
+  const minters = await Promise.all(
+    candidates.map(registryWallet =>
+      getAuthorizedMinter(client, registryWallet.classicAddress).catch(() => null)
+    )
+  );
+
+  return candidates.filter((_, index) => minters[index] === minterAddress);
+}
@@ -0,0 +1,130 @@
+// 接続先として選択できるXRPLネットワークの定義
+
+export type NetworkId = "testnet" | "devnet" | "custom" | "standalone";
+
+// ネットワークの設定
+export interface NetworkConfig {
+  id: NetworkId;
+  name: string;
+  // 接続先サーバー（先頭から順に使用し、障害時は次のサーバーに切り替える）
+  servers: string[];
+  // フォーセットのホスト（nullの場合はフォーセットなし）
+  faucetHost: string | null;
+  // エクスプローラーのベースURL
+  explorerUrl: string;
+  // スタンドアロンモードのrippled（レジャーを手動でクローズする必要がある）
+  isStandalone: boolean;
+}
+
+// カスタムネットワークの接続設定
+export interface CustomNetworkSettings {
+  // カンマ区切りで複数指定可能
+  server: string;
+  faucetHost: string;
+}
+
+export const DEFAULT_NETWORK_ID: NetworkId = "testnet";
+
+// ローカルのスタンドアロンrippledの接続先
+export const STANDALONE_SERVER = "ws://localhost:6006";
+
+// スタンドアロンモードで資金提供に使うジェネシスアカウントのシード
+export const STANDALONE_GENESIS_SEED = "snoPBrXtMeMyMHUVTgbuqAfg1SUTb";
+
+// 選択肢として表示するネットワーク名
+export const NETWORK_NAMES: Record<NetworkId, string> = {
+  testnet: "Testnet",
+  devnet: "Devnet",
+  custom: "カスタム",
+  standalone: "ローカル (スタンドアロン)",
+};
+
+// 接続先URLのホスト部分を取得する関数（custom.xrpl.orgのエクスプローラー用）
+function getServerHost(server: string): string {
+  return server.replace(/^wss?:\/\//, "").replace(/\/+$/, "");
+}
+
+// WebSocketのURLとして正しいかを判定する関数
+export function isValidServerUrl(server: string): boolean {
+  try {
+    const url = new URL(server);
+    return url.protocol === "wss:" || url.protocol === "ws:";
+  } catch {
+    return false;
+  }
+}
+
+// カンマ区切りのサーバー一覧を配列に変換する関数
+export function parseServerList(servers: string): string[] {
+  return servers.split(",").map(server => server.trim()).filter(server => server !== "");
+}
+
+// サーバー一覧がすべて正しいWebSocketのURLかを判定する関数
+export function isValidServerList(servers: string): boolean {
+  const list = parseServerList(servers);
+  return list.length > 0 && list.every(isValidServerUrl);
+}
+
+// ネットワークIDから設定を取得する関数
+export function getNetworkConfig(id: NetworkId, custom: CustomNetworkSettings | null = null): NetworkConfig {
+  switch (id) {
+    case "devnet":
+      return {
+        id,
+        name: NETWORK_NAMES.devnet,
+        servers: [
+          "wss://s.devnet.rippletest.net:51233/",
+          "wss://clio.devnet.rippletest.net:51233/",
+        ],
+        faucetHost: "faucet.devnet.rippletest.net",
+        explorerUrl: "https://devnet.xrpl.org",
+        isStandalone: false,
+      };
+    case "custom": {
+      // 未設定の場合はテストネットに接続
+      const servers = custom && isValidServerList(custom.server)
+        ? parseServerList(custom.server)
+        : getNetworkConfig("testnet").servers;
+      return {
+        id,
+        name: NETWORK_NAMES.custom,
+        servers,
+        faucetHost: custom?.faucetHost || null,
+        explorerUrl: `https://custom.xrpl.org/${getServerHost(servers[0])}`,
+        isStandalone: false,
+      };
+    }
+    case "standalone":
+      return {
+        id,
+        name: NETWORK_NAMES.standalone,
+        servers: [STANDALONE_SERVER],
+        faucetHost: null,
+        explorerUrl: `https://custom.xrpl.org/${getServerHost(STANDALONE_SERVER)}`,
+        isStandalone: true,
+      };
+    case "testnet":
+    default:
+      return {
+        id: "testnet",
+        name: NETWORK_NAMES.testnet,
+        servers: [
+          "wss://s.altnet.rippletest.net:51233/",
+          "wss://testnet.xrpl-labs.com/",
+          "wss://clio.altnet.rippletest.net:51233/",
+        ],
+        faucetHost: "faucet.altnet.rippletest.net",
+        explorerUrl: "https://testnet.xrpl.org",
+        isStandalone: false,
+      };
+  }
+}
+
+// エクスプローラーのURLを生成する関数
+export function getExplorerUrl(
+  network: NetworkConfig,
+  kind: "accounts" | "nft" | "transactions",
+  id: string
+): string {
+  return `${network.explorerUrl}/${kind}/${id}`;
+}
@@ -8,9 +8,21 @@ import {
   NFTokenAcceptOffer,
   NFTokenCancelOffer,
   NFTokenBurn,
-  NFTokenMintFlags as NFTFlags
+  NFTokenMintFlags as NFTFlags,
+  NFTSellOffersResponse,
+  NFTBuyOffersResponse,
+  NFTsByIssuerResponse,
+  TransactionMetadataBase,
+  isCreatedNode,
+  parseNFTokenID
 } from "xrpl";
 import { WalletState, getXrplWallet } from "./wallet";
+import { Amount, NFT, NFTOffer } from "../types";
+import { isOfferExpired } from "./expiration";
+import { isZeroAmount } from "./amount";
+
+// 期限切れのオファーを承認しようとした場合のエラーメッセージ
+export const OFFER_EXPIRED_MESSAGE = "このオファーは有効期限が切れています";
 
 /**
  * NFTフラグの意味
@@ -28,6 +40,62 @@ export interface NFTMetadata {
   image: string;
 }
 
+// NFTokenMintトランザクションを組み立てる関数
+// 逐次実行（mintNFT）とチケットによる並列実行（pipeline）で共通して使用する
+export function buildMintTransaction(
+  account: string,
+  metadata: string, // JSON形式のメタデータ
+  transferFee: number = 0,
+  isBurnable: boolean = true,
+  isTransferable: boolean = true,
+  isOnlyXRP: boolean = true,
+  taxon: number = 0, // コレクションを識別するタクソン
+  issuer?: string // 代理発行する場合の発行者のアドレス（未指定の場合は署名者が発行者）
+): NFTokenMint {
+  // フラグを設定
+  let flags = 0;
+  if (isBurnable) flags |= NFTFlags.tfBurnable;
+  if (isOnlyXRP) flags |= NFTFlags.tfOnlyXRP;
+  if (isTransferable) flags |= NFTFlags.tfTransferable;
+
+  // TransferFeeは0〜50000の範囲（0.000%〜50.000%）
+  // 例: 0.5% = 500, 最大50% = 50000
+  const transferFeeValue = Math.floor(transferFee * 1000);
+  
+  if (transferFeeValue > 50000) {
+    throw new Error("TransferFee cannot exceed 50%");
+  }
+
+  // メタデータをHexエンコード
+  const hexMetadata = metadata.trim() !== "" ? convertStringToHex(metadata) : undefined;
+
+  // NFTMintトランザクションの基本構造を作成
+  const txData: NFTokenMint = {
+    "TransactionType": "NFTokenMint",
+    "Account": account,
+    "NFTokenTaxon": taxon,
+    "Flags": flags,
+    "URI": hexMetadata,
+    "TransferFee": transferFeeValue
+  };
+
+  // 他のアカウントの代理で発行する場合はIssuerを設定
+  // 発行者のNFTokenMinterに署名者が設定されている必要がある
+  if (issuer && issuer !== account) {
+    txData.Issuer = issuer;
+  }
+
+  return txData;
+}
+
+// NFTokenMintの結果から発行されたNFTokenIDを取得する関数
+export function getMintedNFTokenID(meta: unknown): string | undefined {
+  return (meta as { nftoken_id?: string } | undefined)?.nftoken_id;
+}
+
+// 代理発行が許可されていない場合のエラーメッセージ
+export const MINT_NOT_PERMITTED_MESSAGE = "発行者から代理発行が許可されていません";
+
 // NFTを発行する関数
 export async function mintNFT(
   client: Client,
@@ -36,52 +104,26 @@ export async function mintNFT(
   transferFee: number = 0,
   isBurnable: boolean = true,
   isTransferable: boolean = true,
-  isOnlyXRP: boolean = true
+  isOnlyXRP: boolean = true,
+  taxon: number = 0, // コレクションを識別するタクソン
+  issuer?: string // 代理発行する場合の発行者のアドレス（未指定の場合は署名者が発行者）
 ): Promise<string> {
   try {
     // ウォレットオブジェクトを取得
     const wallet = getXrplWallet(issuerWallet);
 
-    // フラグを設定
-    let flags = 0;
-    if (isBurnable) flags |= NFTFlags.tfBurnable;
-    if (isOnlyXRP) flags |= NFTFlags.tfOnlyXRP;
-    if (isTransferable) flags |= NFTFlags.tfTransferable;
-
-    // TransferFeeは0〜50000の範囲（0.000%〜50.000%）
-    // 例: 0.5% = 500, 最大50% = 50000
-    const transferFeeValue = Math.floor(transferFee * 1000);
-    
-    if (transferFeeValue > 50000) {
-      throw new Error("TransferFee cannot exceed 50%");
-    }
-
-    // メタデータをHexエンコード
-    const hexMetadata = metadata.trim() !== "" ? convertStringToHex(metadata) : undefined;
-    console.log("Hex encoded metadata length:", hexMetadata ? hexMetadata.length : 0);
-
-    // NFTMintトランザクションの基本構造を作成
-    const txData: NFTokenMint = {
-      "TransactionType": "NFTokenMint",
-      "Account": wallet.address,
-      "NFTokenTaxon": 0,
-      "Flags": flags,
-      "URI": hexMetadata,
-      "TransferFee": transferFeeValue
-    };
-
-    // TransferFeeはtfTransferableフラグが設定されている場合のみ設定
-    if (isTransferable && transferFeeValue > 0) {
-      txData.TransferFee = transferFeeValue;
-    }
-
-    // メタデータが有効な場合のみURI設定
-    if (hexMetadata) {
-      // RFC2379 data URL形式として設定
-      txData.URI = hexMetadata;
-      console.log("Setting URI field in NFTokenMint transaction");
-    }
-    
+    const txData = buildMintTransaction(
+      wallet.address,
+      metadata,
+      transferFee,
+      isBurnable,
+      isTransferable,
+      isOnlyXRP,
+      taxon,
+      issuer
+    );
+    const isDelegated = !!txData.Issuer;
+    console.log("Hex encoded metadata length:", txData.URI ? txData.URI.length : 0);
     console.log("Minting NFT with params:", JSON.stringify(txData, null, 2));
 
     // autofillを使用してトランザクションを準備
@@ -97,10 +139,14 @@ export async function mintNFT(
 
     // NFTokenIDを取得
     const meta = tx.result.meta as any;
-    const nftokenID = meta?.nftoken_id as string;
+    const nftokenID = getMintedNFTokenID(meta);
     
     if (!nftokenID) {
       console.error("Failed to get NFToken ID from response:", tx.result);
+      // 代理発行が許可されていない場合はtecNO_PERMISSIONになる
+      if (isDelegated && meta?.TransactionResult === "tecNO_PERMISSION") {
+        throw new Error(MINT_NOT_PERMITTED_MESSAGE);
+      }
       throw new Error("Failed to get NFToken ID");
     }
     
@@ -120,38 +166,84 @@ export async function mintNFT(
   }
 }
 
+// NFTokenCreateOfferトランザクションを組み立てる関数
+export function buildCreateOfferTransaction(
+  account: string,
+  nftokenID: string,
+  amount: Amount, // XRPはドロップス、IOUは{ currency, issuer, value }
+  isSell: boolean = true,
+  destination?: string,
+  owner?: string, // 買いオファーの場合に必要なNFT所有者のアドレス
+  expiration?: number // 有効期限（Rippleエポック秒）、未指定の場合は無期限
+): NFTokenCreateOffer {
+  const transactionBlob: NFTokenCreateOffer = {
+    TransactionType: "NFTokenCreateOffer",
+    Account: account,
+    NFTokenID: nftokenID,
+    Amount: amount,
+    Flags: isSell ? 1 : 0, // 1 = sell offer, 0 = buy offer
+  };
+  
+  // 買いオファーの場合は所有者の指定が必要
+  if (!isSell) {
+    if (!owner) {
+      throw new Error("Owner must be present for buy offers");
+    }
+    transactionBlob.Owner = owner;
+  }
+  
+  if (destination) {
+    transactionBlob.Destination = destination;
+  }
+  
+  if (expiration !== undefined) {
+    transactionBlob.Expiration = expiration;
+  }
+  
+  return transactionBlob;
+}
+
+// NFTokenCreateOfferの結果から作成されたオファーIDを取得する関数
+export function getCreatedOfferID(meta: unknown): string | undefined {
+  if (typeof meta !== "object" || meta === null) return undefined;
+  const { offer_id, AffectedNodes } = meta as Partial<TransactionMetadataBase> & { offer_id?: string };
+  // 異なるXRPLバージョンでは異なるフィールド名を使用する可能性がある
+  if (offer_id) {
+    return offer_id;  // 古いバージョン
+  }
+  
+  // フィールドが存在しない場合は、AffectedNodesから検索
+  for (const node of AffectedNodes ?? []) {
+    if (isCreatedNode(node) && node.CreatedNode.LedgerEntryType === "NFTokenOffer") {
+      return node.CreatedNode.LedgerIndex;
+    }
+  }
+  return undefined;
+}
+
 // NFTのオファーを作成する関数
 export async function createNFTOffer(
   client: Client,
   walletState: WalletState,
   nftokenID: string,
-  amount: string,
+  amount: Amount, // XRPはドロップス、IOUは{ currency, issuer, value }
   isSell: boolean = true,
   destination?: string,
-  owner?: string // 買いオファーの場合に必要なNFT所有者のアドレス
+  owner?: string, // 買いオファーの場合に必要なNFT所有者のアドレス
+  expiration?: number // 有効期限（Rippleエポック秒）、未指定の場合は無期限
 ): Promise<string> {
   try {
     const wallet = getXrplWallet(walletState);
     
-    const transactionBlob: NFTokenCreateOffer = {
-      TransactionType: "NFTokenCreateOffer",
-      Account: wallet.address,
-      NFTokenID: nftokenID,
-      Amount: amount,
-      Flags: isSell ? 1 : 0, // 1 = sell offer, 0 = buy offer
-    };
-    
-    // 買いオファーの場合は所有者の指定が必要
-    if (!isSell) {
-      if (!owner) {
-        throw new Error("Owner must be present for buy offers");
-      }
-      transactionBlob.Owner = owner;
-    }
-    
-    if (destination) {
-      transactionBlob.Destination = destination;
-    }
+    const transactionBlob = buildCreateOfferTransaction(
+      wallet.address,
+      nftokenID,
+      amount,
+      isSell,
+      destination,
+      owner,
+      expiration
+    );
     
     console.log("NFTオファー作成リクエスト:", transactionBlob);
     const tx = await client.submitAndWait(transactionBlob, { wallet });
@@ -160,31 +252,15 @@ export async function createNFTOffer(
     // オファーIDを返す（メタデータから取得）
     const meta = tx.result.meta as any;
     console.log("メタデータ:", JSON.stringify(meta, null, 2));
+    assertTransactionSucceeded(meta, "オファーの作成に失敗しました");
     
-    // 異なるXRPLバージョンでは異なるフィールド名を使用する可能性がある
-    let offerIndex = meta?.offer_id;  // 古いバージョン
-    
-    // フィールドが存在しない場合は、ノードを検索
+    const offerIndex = getCreatedOfferID(meta);
     if (!offerIndex) {
-      // AffectedNodesから検索
-      if (meta?.AffectedNodes) {
-        for (const node of meta.AffectedNodes) {
-          if (node.CreatedNode && node.CreatedNode.LedgerEntryType === "NFTokenOffer") {
-            offerIndex = node.CreatedNode.LedgerIndex;
-            break;
-          }
-        }
-      }
-    }
-    
-    if (!offerIndex) {
-      console.warn("オファーIDが見つかりませんでした。トランザクションは成功しましたがIDを取得できません");
-      // 何らかのIDを返す必要がある場合はトランザクションハッシュをフォールバックとして使用
-      offerIndex = tx.result.hash || "unknown-offer-id";
+      throw new Error("Failed to get offer ID");
     }
     
     console.log("取得したオファーID:", offerIndex);
-    return offerIndex || "unknown-offer-id";
+    return offerIndex;
   } catch (error: any) {
     console.error(`Failed to create NFT offer: ${error}`);
     // テスト用のサーバーがNFT機能をサポートしていない場合の特別なエラーメッセージ
@@ -221,10 +297,14 @@ export async function acceptNFTOffer(
       transactionBlob.NFTokenSellOffer = offerID;
     }
     
+    // 期限切れのオファーは送信前に検出してわかりやすいエラーにする
+    await assertOfferNotExpired(client, offerID);
+    
     console.log("NFTオファー承認リクエスト:", transactionBlob);
     const tx = await client.submitAndWait(transactionBlob, { wallet });
     console.log("NFTオファー承認レスポンス:", JSON.stringify(tx.result, null, 2));
     
+    assertAcceptSucceeded(tx.result.meta);
     return true;
   } catch (error) {
     console.error(`Failed to accept NFT offer: ${error}`);
@@ -232,6 +312,104 @@ export async function acceptNFTOffer(
   }
 }
 
+// 売りオファーと買いオファーを仲介（ブローカーモード）で成立させる関数
+// brokerFeeは買いオファーと同じ通貨で、買値と売値の差額以下である必要がある
+export async function brokerNFTOffers(
+  client: Client,
+  brokerState: WalletState,
+  sellOfferID: string,
+  buyOfferID: string,
+  brokerFee?: Amount
+): Promise<boolean> {
+  try {
+    const wallet = getXrplWallet(brokerState);
+    
+    const transactionBlob: NFTokenAcceptOffer = {
+      TransactionType: "NFTokenAcceptOffer",
+      Account: wallet.address,
+      NFTokenSellOffer: sellOfferID,
+      NFTokenBuyOffer: buyOfferID,
+    };
+    
+    // 手数料が0の場合はフィールド自体を省略する（0を指定すると不正なトランザクションになる）
+    if (brokerFee && !isZeroAmount(brokerFee)) {
+      transactionBlob.NFTokenBrokerFee = brokerFee;
+    }
+    
+    await assertOfferNotExpired(client, sellOfferID);
+    await assertOfferNotExpired(client, buyOfferID);
+    
+    console.log("NFT仲介リクエスト:", transactionBlob);
+    const tx = await client.submitAndWait(transactionBlob, { wallet });
+    console.log("NFT仲介レスポンス:", JSON.stringify(tx.result, null, 2));
+    
+    assertAcceptSucceeded(tx.result.meta);
+    return true;
+  } catch (error) {
+    console.error(`Failed to broker NFT offers: ${error}`);
+    throw error;
+  }
+}
+
+// オファー承認トランザクションの結果を確認する関数
+// tec系のエラーは例外にならないため結果コードを確認する
+function assertAcceptSucceeded(meta: unknown): void {
+  const result = (meta as { TransactionResult?: string } | undefined)?.TransactionResult;
+  if (result === "tecEXPIRED") {
+    throw new Error(OFFER_EXPIRED_MESSAGE);
+  }
+  if (result && result !== "tesSUCCESS") {
+    throw new Error(`オファーの承認に失敗しました: ${result}`);
+  }
+}
+
+// オファーの作成・取り消しやNFTの焼却の結果を確認する関数
+// tecUNFUNDED_OFFERやtecNO_LINEなども検証済みとして返されるため、結果コードをエラーに含める
+function assertTransactionSucceeded(meta: unknown, message: string): void {
+  const result = (meta as { TransactionResult?: string } | undefined)?.TransactionResult;
+  if (result !== "tesSUCCESS") {
+    throw new Error(`${message}: ${result ?? "unknown"}`);
+  }
+}
+
+// オファーが期限切れの場合にエラーを投げる関数
+async function assertOfferNotExpired(client: Client, offerID: string): Promise<void> {
+  const offerExpiration = await getOfferExpiration(client, offerID);
+  if (isOfferExpired(offerExpiration)) {
+    throw new Error(OFFER_EXPIRED_MESSAGE);
+  }
+}
+
+// オファーの有効期限（Rippleエポック秒）を取得する関数
+// オファーが見つからない場合や期限がない場合はundefinedを返す
+async function getOfferExpiration(
+  client: Client,
+  offerID: string
+): Promise<number | undefined> {
+  try {
+    const response = await client.request({
+      command: "ledger_entry",
+      index: offerID,
+      ledger_index: "validated",
+    });
+    const node = response.result.node as { Expiration?: number } | undefined;
+    return node?.Expiration;
+  } catch (error) {
+    // 取得できない場合はトランザクションの結果で判定する
+    console.warn(`Failed to get NFT offer expiration: ${error}`);
+    return undefined;
+  }
+}
+
+// NFTokenCancelOfferトランザクションを組み立てる関数
+export function buildCancelOfferTransaction(account: string, offerIDs: string[]): NFTokenCancelOffer {
+  return {
+    TransactionType: "NFTokenCancelOffer",
+    Account: account,
+    NFTokenOffers: offerIDs,
+  };
+}
+
 // NFTのオファーをキャンセルする関数
 export async function cancelNFTOffer(
   client: Client,
@@ -241,13 +419,10 @@ export async function cancelNFTOffer(
   try {
     const wallet = getXrplWallet(walletState);
     
-    const transactionBlob: NFTokenCancelOffer = {
-      TransactionType: "NFTokenCancelOffer",
-      Account: wallet.address,
-      NFTokenOffers: offerIDs,
-    };
+    const transactionBlob = buildCancelOfferTransaction(wallet.address, offerIDs);
     
-    await client.submitAndWait(transactionBlob, { wallet });
+    const tx = await client.submitAndWait(transactionBlob, { wallet });
+    assertTransactionSucceeded(tx.result.meta, "オファーの取り消しに失敗しました");
     return true;
   } catch (error) {
     console.error(`Failed to cancel NFT offer: ${error}`);
@@ -270,7 +445,8 @@ export async function burnNFT(
       NFTokenID: nftokenID,
     };
     
-    await client.submitAndWait(transactionBlob, { wallet });
+    const tx = await client.submitAndWait(transactionBlob, { wallet });
+    assertTransactionSucceeded(tx.result.meta, "NFTの焼却に失敗しました");
     return true;
   } catch (error) {
     console.error(`Failed to burn NFT: ${error}`);
@@ -278,46 +454,119 @@ export async function burnNFT(
   }
 }
 
-// アカウントが所有するNFTを取得する関数
-export async function getAccountNFTs(
+// account_nftsの1ページで取得するNFT数（サーバーの上限は400）
+export const ACCOUNT_NFTS_PAGE_LIMIT = 400;
+// nft_sell_offers・nft_buy_offersの1ページで取得するオファー数（サーバーの上限は500）
+export const NFT_OFFERS_PAGE_LIMIT = 500;
+
+// アカウントが所有するNFTをマーカーをたどって1ページずつ返す非同期ジェネレーター
+export async function* iterateAccountNFTs(
   client: Client,
-  accountAddress: string
-): Promise<any[]> {
-  try {
+  accountAddress: string,
+  limit: number = ACCOUNT_NFTS_PAGE_LIMIT
+): AsyncGenerator<any[]> {
+  let marker: unknown = undefined;
+  do {
     const response = await client.request({
       command: "account_nfts",
       account: accountAddress,
+      limit,
+      marker,
     });
-    
-    return response.result.account_nfts;
+    yield response.result.account_nfts;
+    marker = response.result.marker;
+  } while (marker);
+}
+
+// アカウントが所有するNFTをすべて取得する関数
+export async function getAccountNFTs(
+  client: Client,
+  accountAddress: string
+): Promise<any[]> {
+  try {
+    const nfts: any[] = [];
+    for await (const page of iterateAccountNFTs(client, accountAddress)) {
+      nfts.push(...page);
+    }
+    return nfts;
   } catch (error) {
     console.error(`Failed to get account NFTs: ${error}`);
     throw error;
   }
 }
 
+// NFTokenIDからNFTの情報を作成する関数（発行者・フラグ・手数料・タクソンはIDに含まれる）
+// URIはIDに含まれないため、発行トランザクションなどから取得したものを指定する
+export function toNFTFromTokenID(nftokenID: string, uri?: string, owner?: string): NFT {
+  const { Flags, TransferFee, Issuer, Taxon } = parseNFTokenID(nftokenID);
+  return {
+    NFTokenID: nftokenID,
+    Issuer,
+    Owner: owner,
+    URI: uri,
+    Flags,
+    TransferFee,
+    NFTokenTaxon: Taxon,
+  };
+}
+
+// nft_sell_offers / nft_buy_offersの応答をNFTOffer型に変換する関数
+export function toNFTOffer(rawOffer: any, nftokenID: string, isSellOffer: boolean): NFTOffer {
+  return {
+    offerID: rawOffer.nft_offer_index,
+    amount: rawOffer.amount,
+    owner: rawOffer.owner,
+    destination: rawOffer.destination,
+    expiration: rawOffer.expiration,
+    isSellOffer,
+    nftokenID,
+    flags: rawOffer.flags,
+    rawData: rawOffer,
+  };
+}
+
+// NFTの売りオファーまたは買いオファーをマーカーをたどって1ページずつ返す非同期ジェネレーター
+// オファーがない場合（objectNotFound）は何も返さずに終了する
+export async function* iterateNFTOffers(
+  client: Client,
+  nftokenID: string,
+  isSellOffer: boolean,
+  limit: number = NFT_OFFERS_PAGE_LIMIT
+): AsyncGenerator<any[]> {
+  let marker: unknown = undefined;
+  do {
+    let response: NFTSellOffersResponse | NFTBuyOffersResponse;
+    try {
+      const request = { nft_id: nftokenID, limit, marker };
+      response = isSellOffer
+        ? await client.request({ command: "nft_sell_offers", ...request })
+        : await client.request({ command: "nft_buy_offers", ...request });
+    } catch (error: unknown) {
+      // objectNotFoundエラーの場合はオファーなし（NFTは存在するがオファーがない場合）
+      const errorStr = String(error);
+      if (errorStr.includes("objectNotFound") || errorStr.includes("object was not found")) {
+        return;
+      }
+      throw error;
+    }
+    yield response.result.offers || [];
+    // xrpl.jsの型にはmarkerが定義されていないが、オファーが上限を超える場合は返される
+    marker = (response.result as { marker?: unknown }).marker;
+  } while (marker);
+}
+
 // NFTのオファーを取得する関数
 export async function getNFTOffers(
   client: Client,
   nftokenID: string
 ): Promise<any[]> {
   try {
-    // sell_offersを取得
-    const sellResponse = await client.request({
-      command: "nft_sell_offers",
-      nft_id: nftokenID,
-    });
-    
-    return sellResponse.result.offers || [];
-  } catch (error: unknown) {
-    // objectNotFoundエラーの場合は空配列を返す（NFTは存在するがオファーがない場合）
-    const errorStr = String(error);
-    if (errorStr.includes("objectNotFound") || errorStr.includes("object was not found")) {
-      console.log(`No sell offers found for NFT: ${nftokenID}`);
-      return [];
+    const offers: any[] = [];
+    for await (const page of iterateNFTOffers(client, nftokenID, true)) {
+      offers.push(...page);
     }
-    
-    // その他のエラーは通常通り処理
+    return offers;
+  } catch (error: unknown) {
     console.error(`Failed to get NFT offers: ${error}`);
     throw error;
   }
@@ -329,21 +578,12 @@ export async function getNFTBuyOffers(
   nftokenID: string
 ): Promise<any[]> {
   try {
-    // buy_offersを取得
-    const buyResponse = await client.request({
-      command: "nft_buy_offers",
-      nft_id: nftokenID,
-    });
-    
-    return buyResponse.result.offers || [];
-  } catch (error: unknown) {
-    // objectNotFoundエラーの場合は空配列を返す
-    const errorStr = String(error);
-    if (errorStr.includes("objectNotFound") || errorStr.includes("object was not found")) {
-      console.log(`No buy offers found for NFT: ${nftokenID}`);
-      return [];
+    const offers: any[] = [];
+    for await (const page of iterateNFTOffers(client, nftokenID, false)) {
+      offers.push(...page);
     }
-    
+    return offers;
+  } catch (error: unknown) {
     console.error(`Failed to get NFT buy offers: ${error}`);
     throw error;
   }
@@ -372,4 +612,85 @@ export async function getAllNFTOffers(
       buyOffers: []
     };
   }
-} 
\ No newline at end of file
+} 
+// account_objectsの1ページで取得するオブジェクト数（サーバーの上限は400）
+export const ACCOUNT_OBJECTS_PAGE_LIMIT = 400;
+
+// アカウントが作成したオファーごとに作成されたレジャー番号を取得する関数
+// nft_sell_offers・nft_buy_offersの応答には含まれないため、NFTokenOfferオブジェクトのPreviousTxnLgrSeqを使用する
+// （オファーは作成後に変更されないため、作成したトランザクションのレジャーとなる）
+export async function getAccountOfferLedgers(
+  client: Client,
+  accountAddress: string
+): Promise<Record<string, number>> {
+  try {
+    const ledgers: Record<string, number> = {};
+    let marker: unknown = undefined;
+    do {
+      const response = await client.request({
+        command: "account_objects",
+        account: accountAddress,
+        type: "nft_offer",
+        limit: ACCOUNT_OBJECTS_PAGE_LIMIT,
+        marker,
+      });
+      // xrpl.jsのAccountObjectの型にはNFTokenOfferが含まれていないため、必要なフィールドのみ参照する
+      const objects = response.result.account_objects as unknown as Array<{
+        LedgerEntryType: string;
+        index: string;
+        PreviousTxnLgrSeq: number;
+      }>;
+      for (const object of objects) {
+        if (object.LedgerEntryType === "NFTokenOffer") {
+          ledgers[object.index] = object.PreviousTxnLgrSeq;
+        }
+      }
+      marker = response.result.marker;
+    } while (marker);
+    return ledgers;
+  } catch (error) {
+    console.error(`Failed to get account offer ledgers: ${error}`);
+    throw error;
+  }
+}
+
+// nfts_by_issuerの1ページで取得するNFT数（Clioサーバーの上限は100）
+export const NFTS_BY_ISSUER_PAGE_LIMIT = 100;
+
+// 発行者が発行したNFT（焼却済みを除く）をマーカーをたどって1ページずつ返す非同期ジェネレーター
+// nfts_by_issuerはClioサーバーのみ対応のため、非対応のサーバーでは発行者が所有しているNFTのみを返す
+export async function* iterateIssuerNFTs(
+  client: Client,
+  issuer: string,
+  limit: number = NFTS_BY_ISSUER_PAGE_LIMIT
+): AsyncGenerator<NFT[]> {
+  let marker: unknown = undefined;
+  let isFirstPage = true;
+  do {
+    let response: NFTsByIssuerResponse;
+    try {
+      response = await client.request({ command: "nfts_by_issuer", issuer, limit, marker });
+    } catch (error) {
+      if (!isFirstPage) throw error;
+      console.warn("nfts_by_issuerを使用できないため、発行者が所有するNFTのみを取得します:", error);
+      for await (const page of iterateAccountNFTs(client, issuer)) {
+        yield page.map(nft => ({ ...nft, Owner: issuer }));
+      }
+      return;
+    }
+    isFirstPage = false;
+
+    yield response.result.nfts
+      .filter(nft => !nft.is_burned)
+      .map(nft => ({
+        NFTokenID: nft.nft_id,
+        Issuer: nft.issuer,
+        Owner: nft.owner,
+        URI: nft.uri || undefined,
+        Flags: nft.flags,
+        TransferFee: nft.transfer_fee,
+        NFTokenTaxon: nft.nft_taxon,
+      }));
+    marker = response.result.marker;
+  } while (marker);
+}
@@ -0,0 +1,196 @@
+import { Client, SubmittableTransaction, TicketCreate, isCreatedNode } from "xrpl";
+import { WalletState, getXrplWallet } from "./wallet";
+
+// 1回のTicketCreateで作成できるチケットの上限
+// アカウントが同時に保有できるチケットも250枚まで
+export const MAX_TICKETS = 250;
+
+// 1ラウンドで並列送信するトランザクション数の既定値
+// チケット1枚ごとに所有者準備金がロックされるため、使い切る分だけ作成する
+export const DEFAULT_PIPELINE_BATCH_SIZE = 20;
+
+// パイプラインで送信したトランザクションの結果
+export interface PipelineResult {
+  index: number; // 渡したトランザクションの配列内の位置
+  status: "success" | "failed";
+  hash?: string;
+  resultCode?: string; // tesSUCCESS、tecNO_PERMISSIONなど
+  meta?: unknown;
+  error?: string;
+}
+
+export interface PipelineOptions {
+  batchSize?: number;
+  // 各トランザクションが検証済みになる（または失敗する）たびに呼ばれる
+  onResult?: (result: PipelineResult) => void;
+}
+
+// アカウントが保有している未使用のチケット番号を取得する関数
+export async function getTickets(client: Client, address: string): Promise<number[]> {
+  try {
+    const tickets: number[] = [];
+    let marker: unknown = undefined;
+
+    do {
+      const response = await client.request({
+        command: "account_objects",
+        account: address,
+        type: "ticket",
+        ledger_index: "validated",
+        limit: 400,
+        marker,
+      });
+      for (const object of response.result.account_objects) {
+        if (object.LedgerEntryType === "Ticket") {
+          tickets.push(object.TicketSequence);
+        }
+      }
+      marker = response.result.marker;
+    } while (marker);
+
+    return tickets.sort((a, b) => a - b);
+  } catch (error: unknown) {
+    // 未アクティベートのアカウントはチケットなしとして扱う
+    if (String(error).includes("actNotFound")) {
+      return [];
+    }
+    console.error(`Failed to get tickets: ${error}`);
+    throw error;
+  }
+}
+
+// TicketCreateでチケットを作成し、作成されたチケット番号を返す関数
+export async function createTickets(
+  client: Client,
+  walletState: WalletState,
+  count: number
+): Promise<number[]> {
+  try {
+    if (count < 1 || count > MAX_TICKETS) {
+      throw new Error(`チケットは1〜${MAX_TICKETS}枚の範囲で作成してください`);
+    }
+
+    const wallet = getXrplWallet(walletState);
+    const transactionBlob: TicketCreate = {
+      TransactionType: "TicketCreate",
+      Account: wallet.address,
+      TicketCount: count,
+    };
+
+    const tx = await client.submitAndWait(transactionBlob, { autofill: true, wallet });
+    const meta = tx.result.meta;
+    if (typeof meta !== "object" || meta.TransactionResult !== "tesSUCCESS") {
+      // 準備金不足（tecINSUFFICIENT_RESERVE）や保有上限超過（tecDIR_FULL）など
+      throw new Error(`チケットの作成に失敗しました: ${typeof meta === "object" ? meta.TransactionResult : "unknown"}`);
+    }
+
+    // 作成されたTicketオブジェクトからチケット番号を取得
+    const tickets: number[] = [];
+    for (const node of meta.AffectedNodes) {
+      if (isCreatedNode(node) && node.CreatedNode.LedgerEntryType === "Ticket") {
+        tickets.push(node.CreatedNode.NewFields.TicketSequence as number);
+      }
+    }
+    return tickets.sort((a, b) => a - b);
+  } catch (error) {
+    console.error(`Failed to create tickets: ${error}`);
+    throw error;
+  }
+}
+
+// 必要な枚数のチケットを確保する関数（既存のチケットが足りない分だけ作成する）
+async function ensureTickets(
+  client: Client,
+  walletState: WalletState,
+  count: number
+): Promise<number[]> {
+  const existing = await getTickets(client, walletState.classicAddress);
+  if (existing.length >= count) {
+    return existing.slice(0, count);
+  }
+
+  const created = await createTickets(client, walletState, count - existing.length);
+  return [...existing, ...created];
+}
+
+// チケットを使って1件のトランザクションを送信し、検証済みになるまで待つ関数
+async function submitWithTicket(
+  client: Client,
+  walletState: WalletState,
+  transaction: SubmittableTransaction,
+  ticketSequence: number,
+  index: number
+): Promise<PipelineResult> {
+  try {
+    const wallet = getXrplWallet(walletState);
+
+    // Sequenceに0を指定するとautofillでシーケンス番号が設定されず、TicketSequenceが使われる
+    const prepared = await client.autofill({
+      ...transaction,
+      Sequence: 0,
+      TicketSequence: ticketSequence,
+    });
+    const signed = wallet.sign(prepared);
+
+    // 署名済みのトランザクションを送信し、LastLedgerSequenceまで検証を待つ
+    const tx = await client.submitAndWait(signed.tx_blob);
+    const meta = tx.result.meta;
+    const resultCode = typeof meta === "object" ? meta.TransactionResult : undefined;
+
+    return {
+      index,
+      status: resultCode === "tesSUCCESS" ? "success" : "failed",
+      hash: tx.result.hash,
+      resultCode,
+      meta,
+      error: resultCode === "tesSUCCESS" ? undefined : resultCode,
+    };
+  } catch (error) {
+    console.error(`Failed to submit ticketed transaction #${index}: ${error}`);
+    return {
+      index,
+      status: "failed",
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+// 複数のトランザクションをチケットで並列送信する関数
+// シーケンス番号の順序に縛られないため、1件ずつ検証を待たずに送信できる
+// 失敗はトランザクションごとに結果として返し、例外にはしない（チケットの確保に失敗した場合を除く）
+export async function submitTransactionsInParallel(
+  client: Client,
+  walletState: WalletState,
+  transactions: SubmittableTransaction[],
+  options: PipelineOptions = {}
+): Promise<PipelineResult[]> {
+  const batchSize = Math.min(options.batchSize ?? DEFAULT_PIPELINE_BATCH_SIZE, MAX_TICKETS);
+  const results: PipelineResult[] = [];
+
+  try {
+    for (let start = 0; start < transactions.length; start += batchSize) {
+      const batch = transactions.slice(start, start + batchSize);
+      const tickets = await ensureTickets(client, walletState, batch.length);
+
+      const batchResults = await Promise.all(
+        batch.map(async (transaction, batchIndex) => {
+          const result = await submitWithTicket(
+            client,
+            walletState,
+            transaction,
+            tickets[batchIndex],
+            start + batchIndex
+          );
+          options.onResult?.(result);
+          return result;
+        })
+      );
+      results.push(...batchResults);
+    }
+
+    return results;
+  } catch (error) {
+    console.error(`Failed to submit transactions in parallel: ${error}`);
+    throw error;
+  }
+}
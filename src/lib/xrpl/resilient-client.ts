@@ -1,4 +1,4 @@
-import { Client, ClientOptions } from "xrpl";
+import { Client, ClientOptions, TransactionStream } from "xrpl";
 import RetryWebSocket from "retry-websocket";
 
 // WebSocketの再接続設定
@@ -16,13 +16,32 @@ const WS_RETRY_CONFIG = {
 const CONNECTION_TIMEOUT = 20000; // 20秒
 const RECONNECT_DELAY = 2000; // 2秒
 
+// 同期済みとみなすサーバーの状態
+const SYNCED_SERVER_STATES = ["full", "proposing", "validating"];
+// Amendmentsレジャーオブジェクトのインデックス（固定値）
+const AMENDMENTS_LEDGER_INDEX = "7DB0788C020F02780A673DC74757F23823FA3014C1866E72CC4CD8B226CD6EF4";
+// NFT機能に必要なAmendment（NonFungibleTokensV1_1）
+const NFT_AMENDMENT_ID = "32A122F1352A4C7B3A6D790362CC34749C5E57FCE896377BFDC6CCD14F6CD627";
+
+/**
+ * サーバーのヘルスチェックに失敗した場合のエラー
+ */
+export class ServerHealthError extends Error {
+  constructor(server: string, reason: string) {
+    super(`${server}: ${reason}`);
+    this.name = "ServerHealthError";
+  }
+}
+
 /**
  * 回復力のあるXRPLクライアント
  * 接続が切断された場合に自動的に再接続を試みる
+ * 複数のサーバーを指定した場合は、障害時に次の正常なサーバーへ切り替える
  */
 export class ResilientXrplClient {
   private client: Client | null = null;
-  private url: string;
+  private urls: string[];
+  private serverIndex: number = 0;
   private options: ClientOptions;
   private isConnecting: boolean = false;
   private connectionListeners: Array<(connected: boolean) => void> = [];
@@ -30,12 +49,67 @@ export class ResilientXrplClient {
   private connectTimeoutId: NodeJS.Timeout | null = null;
   private reconnectAttempts: number = 0;
   private readonly MAX_RECONNECT_ATTEMPTS = 5;
+  // subscribeで購読しているアカウント（再接続・サーバー切り替え後に購読し直す）
+  private subscribedAccounts: Set<string> = new Set();
+  private transactionListeners: Array<(transaction: TransactionStream) => void> = [];
 
-  constructor(url: string, options: ClientOptions = {}) {
-    this.url = url;
+  constructor(urls: string[], options: ClientOptions = {}) {
+    if (urls.length === 0) {
+      throw new Error("接続先のサーバーが指定されていません");
+    }
+    this.urls = urls;
     this.options = options;
   }
 
+  /**
+   * 現在使用中のサーバー
+   */
+  getActiveServer(): string {
+    return this.urls[this.serverIndex];
+  }
+
+  /**
+   * 次のサーバーに切り替え
+   */
+  private rotateServer(): void {
+    if (this.urls.length <= 1) return;
+    const previous = this.getActiveServer();
+    this.serverIndex = (this.serverIndex + 1) % this.urls.length;
+    console.log(`XRPL Client: サーバーを切り替えます (${previous} -> ${this.getActiveServer()})`);
+    
+    if (typeof window !== 'undefined') {
+      window.dispatchEvent(new CustomEvent('xrpl-server-changed', {
+        detail: { server: this.getActiveServer() }
+      }));
+    }
+  }
+
+  /**
+   * サーバーが同期済みで、NFTのAmendmentが有効かを確認
+   */
+  private async checkServerHealth(client: Client, server: string): Promise<void> {
+    const serverInfo = await client.request({ command: "server_info" });
+    const { server_state, validated_ledger } = serverInfo.result.info;
+    
+    // Clioなどserver_stateを返さないサーバーは検証済みレジャーの有無で判断
+    const isSynced = server_state
+      ? SYNCED_SERVER_STATES.includes(server_state)
+      : validated_ledger !== undefined;
+    if (!isSynced) {
+      throw new ServerHealthError(server, `サーバーが同期していません (${server_state ?? "unknown"})`);
+    }
+
+    const amendments = await client.request({
+      command: "ledger_entry",
+      index: AMENDMENTS_LEDGER_INDEX,
+      ledger_index: "validated",
+    });
+    const enabled = (amendments.result.node as { Amendments?: string[] } | undefined)?.Amendments || [];
+    if (!enabled.includes(NFT_AMENDMENT_ID)) {
+      throw new ServerHealthError(server, "NFTのAmendment (NonFungibleTokensV1_1) が有効になっていません");
+    }
+  }
+
   /**
    * クライアントに接続
    */
@@ -49,7 +123,8 @@ export class ResilientXrplClient {
       return new Promise((resolve, reject) => {
         let timeoutId: NodeJS.Timeout | null = null;
         const checkInterval = setInterval(() => {
-          if (this.client && this.client.isConnected()) {
+          // ヘルスチェックが終わるまでは接続完了とみなさない
+          if (!this.isConnecting && this.client && this.client.isConnected()) {
             clearInterval(checkInterval);
             if (timeoutId) clearTimeout(timeoutId);
             resolve(this.client);
@@ -67,60 +142,22 @@ export class ResilientXrplClient {
     try {
       this.isConnecting = true;
       
-      // 接続タイムアウト処理を設定
-      this.setConnectTimeout();
-
-      // 新しいクライアントを作成
-      this.client = new Client(this.url, {
-        ...this.options,
-        timeout: CONNECTION_TIMEOUT,
-        connectionTimeout: CONNECTION_TIMEOUT,
-      });
-
-      // 接続イベントをモニタリング
-      this.client.on("connected", () => {
-        console.log("XRPL Client: 接続しました");
-        this.clearConnectTimeout();
-        this.reconnectAttempts = 0; // 接続成功したらリセット
-        this.notifyConnectionStatus(true);
-      });
-
-      this.client.on("disconnected", (code: number, reason: string) => {
-        console.log(`XRPL Client: 切断されました (${code}: ${reason})`);
-        this.notifyConnectionStatus(false);
-        
-        // 異常切断時に自動的に再接続を試みる
-        // 正常切断（1000, 1001）や再接続中の場合は再接続しない
-        if (code !== 1000 && code !== 1001 && !this.isConnecting) {
-          if (this.reconnectAttempts < this.MAX_RECONNECT_ATTEMPTS) {
-            this.reconnectAttempts++;
-            console.log(`異常切断のため${RECONNECT_DELAY / 1000}秒後に再接続を試みます (試行 ${this.reconnectAttempts}/${this.MAX_RECONNECT_ATTEMPTS})`);
-            setTimeout(() => {
-              this.reconnect().catch(e => console.error("自動再接続に失敗:", e));
-            }, RECONNECT_DELAY);
-          } else {
-            console.error(`最大再接続試行回数 (${this.MAX_RECONNECT_ATTEMPTS}) に達しました`);
-          }
-        }
-      });
-
-      this.client.on("error", (error: Error) => {
-        console.error("XRPL Client: エラーが発生しました", error);
-        // エラー発生時にも再接続を試みるが、既に再接続中なら試みない
-        if (!this.isConnecting && this.reconnectAttempts < this.MAX_RECONNECT_ATTEMPTS) {
-          this.reconnectAttempts++;
-          console.log(`エラー発生のため${RECONNECT_DELAY / 1000}秒後に再接続を試みます (試行 ${this.reconnectAttempts}/${this.MAX_RECONNECT_ATTEMPTS})`);
-          setTimeout(() => {
-            this.reconnect().catch(e => console.error("エラー後の再接続に失敗:", e));
-          }, RECONNECT_DELAY);
+      // 現在のサーバーから順に、正常なサーバーが見つかるまで試す
+      let lastError: unknown = null;
+      for (let i = 0; i < this.urls.length; i++) {
+        const server = this.getActiveServer();
+        try {
+          const client = await this.connectToServer(server);
+          this.isConnecting = false;
+          this.notifyConnectionStatus(true);
+          return client;
+        } catch (error) {
+          lastError = error;
+          console.warn(`XRPL Client: ${server} を使用できません`, error);
+          this.rotateServer();
         }
-      });
-
-      // 接続
-      await this.client.connect();
-      this.clearConnectTimeout();
-      this.isConnecting = false;
-      return this.client;
+      }
+      throw lastError;
     } catch (error) {
       this.clearConnectTimeout();
       this.isConnecting = false;
@@ -138,6 +175,95 @@ export class ResilientXrplClient {
       throw error;
     }
   }
+
+  /**
+   * 指定したサーバーに接続してヘルスチェックを行う
+   */
+  private async connectToServer(server: string): Promise<Client> {
+    // 接続タイムアウト処理を設定
+    this.setConnectTimeout();
+
+    // 新しいクライアントを作成
+    const client = new Client(server, {
+      ...this.options,
+      timeout: CONNECTION_TIMEOUT,
+      connectionTimeout: CONNECTION_TIMEOUT,
+    });
+    this.client = client;
+
+    // 接続イベントをモニタリング
+    client.on("connected", () => {
+      console.log(`XRPL Client: 接続しました (${server})`);
+      this.clearConnectTimeout();
+      this.reconnectAttempts = 0; // 接続成功したらリセット
+      // 初回接続時はヘルスチェック後に通知・購読する
+      if (!this.isConnecting) {
+        this.notifyConnectionStatus(true);
+        // xrpl.js自身の再接続では購読が引き継がれないため購読し直す
+        this.restoreSubscriptions(client);
+      }
+    });
+
+    client.on("disconnected", (code: number, reason: string) => {
+      console.log(`XRPL Client: 切断されました (${code}: ${reason})`);
+      this.notifyConnectionStatus(false);
+      
+      // 異常切断時に自動的に再接続を試みる
+      // 正常切断（1000, 1001）や再接続中の場合は再接続しない
+      if (code !== 1000 && code !== 1001 && !this.isConnecting) {
+        if (this.reconnectAttempts < this.MAX_RECONNECT_ATTEMPTS) {
+          this.reconnectAttempts++;
+          // 障害が起きたサーバーを避けて次のサーバーに接続
+          this.rotateServer();
+          console.log(`異常切断のため${RECONNECT_DELAY / 1000}秒後に再接続を試みます (試行 ${this.reconnectAttempts}/${this.MAX_RECONNECT_ATTEMPTS})`);
+          setTimeout(() => {
+            this.reconnect().catch(e => console.error("自動再接続に失敗:", e));
+          }, RECONNECT_DELAY);
+        } else {
+          console.error(`最大再接続試行回数 (${this.MAX_RECONNECT_ATTEMPTS}) に達しました`);
+        }
+      }
+    });
+
+    client.on("error", (error: Error) => {
+      console.error("XRPL Client: エラーが発生しました", error);
+      // エラー発生時にも再接続を試みるが、既に再接続中なら試みない
+      if (!this.isConnecting && this.reconnectAttempts < this.MAX_RECONNECT_ATTEMPTS) {
+        this.reconnectAttempts++;
+        this.rotateServer();
+        console.log(`エラー発生のため${RECONNECT_DELAY / 1000}秒後に再接続を試みます (試行 ${this.reconnectAttempts}/${this.MAX_RECONNECT_ATTEMPTS})`);
+        setTimeout(() => {
+          this.reconnect().catch(e => console.error("エラー後の再接続に失敗:", e));
+        }, RECONNECT_DELAY);
+      }
+    });
+
+    try {
+      // 接続
+      await client.connect();
+      this.clearConnectTimeout();
+      
+      // 同期状態とAmendmentを確認
+      await this.checkServerHealth(client, server);
+      
+      // 購読中のアカウントのトランザクションを受け取る（新しい接続ごとに購読し直す）
+      client.on("transaction", (transaction: TransactionStream) => this.notifyTransaction(transaction));
+      await this.restoreSubscriptions(client);
+      return client;
+    } catch (error) {
+      this.clearConnectTimeout();
+      // 正常でないサーバーとの接続は破棄
+      try {
+        await client.disconnect();
+      } catch (e) {
+        // 切断エラーは無視
+      }
+      if (this.client === client) {
+        this.client = null;
+      }
+      throw error;
+    }
+  }
   
   /**
    * 接続タイムアウトを設定
@@ -208,6 +334,77 @@ export class ResilientXrplClient {
     }
   }
 
+  /**
+   * 購読中のアカウントを新しい接続で購読し直す
+   */
+  private async restoreSubscriptions(client: Client): Promise<void> {
+    if (this.subscribedAccounts.size === 0) return;
+    try {
+      await client.request({ command: "subscribe", accounts: Array.from(this.subscribedAccounts) });
+      console.log(`XRPL Client: ${this.subscribedAccounts.size}件のアカウントを購読し直しました`);
+    } catch (error) {
+      // 購読に失敗しても接続自体は使えるため例外にしない
+      console.warn("XRPL Client: アカウントの購読に失敗しました", error);
+    }
+  }
+
+  /**
+   * アカウントのトランザクションを購読
+   * 未接続の場合は次の接続時に購読する
+   */
+  async subscribeAccounts(accounts: string[]): Promise<void> {
+    const added = accounts.filter(account => !this.subscribedAccounts.has(account));
+    if (added.length === 0) return;
+    added.forEach(account => this.subscribedAccounts.add(account));
+
+    if (this.client && this.client.isConnected() && !this.isConnecting) {
+      await this.client.request({ command: "subscribe", accounts: added });
+    }
+  }
+
+  /**
+   * アカウントの購読を解除
+   */
+  async unsubscribeAccounts(accounts: string[]): Promise<void> {
+    const removed = accounts.filter(account => this.subscribedAccounts.has(account));
+    if (removed.length === 0) return;
+    removed.forEach(account => this.subscribedAccounts.delete(account));
+
+    if (this.client && this.client.isConnected() && !this.isConnecting) {
+      await this.client.request({ command: "unsubscribe", accounts: removed });
+    }
+  }
+
+  /**
+   * 購読中のアカウント
+   */
+  getSubscribedAccounts(): string[] {
+    return Array.from(this.subscribedAccounts);
+  }
+
+  /**
+   * 購読したアカウントのトランザクションを受け取るリスナーを追加（戻り値の関数で削除）
+   */
+  addTransactionListener(listener: (transaction: TransactionStream) => void): () => void {
+    this.transactionListeners.push(listener);
+    return () => {
+      this.transactionListeners = this.transactionListeners.filter(item => item !== listener);
+    };
+  }
+
+  /**
+   * 受信したトランザクションをリスナーに通知
+   */
+  private notifyTransaction(transaction: TransactionStream): void {
+    this.transactionListeners.forEach((listener) => {
+      try {
+        listener(transaction);
+      } catch (err) {
+        console.error("トランザクションの通知中にエラーが発生:", err);
+      }
+    });
+  }
+
   /**
    * クライアントを切断
    */
@@ -0,0 +1,50 @@
+import { addTransactionListener, setSubscribedAccounts } from "./client";
+import { decodeHistoryEntry } from "./history";
+import { WalletRegistry } from "./wallet";
+import { onNFTEvents, useNFTEventStore } from "../store";
+import { useNFTIndexStore } from "../nft-index";
+import { WatchedAccount } from "../types";
+
+// 購読したアカウントのトランザクションをNFTイベントに変換して共有ストアに追加する処理を開始する関数
+// 受信したイベントはNFTのインデックスにも差分で反映する。戻り値の関数で停止する
+export function startNFTEventStream(): () => void {
+  const removeListener = addTransactionListener((transaction) => {
+    const events = decodeHistoryEntry(transaction);
+    if (events.length > 0) {
+      useNFTEventStore.getState().pushEvents(events);
+    }
+  });
+
+  const stopIndexing = onNFTEvents((events) => {
+    useNFTIndexStore.getState().applyEvents(events);
+  });
+
+  // ネットワークを切り替えたら前のネットワークのイベントとインデックスを破棄
+  const handleNetworkChanged = () => {
+    useNFTEventStore.getState().clearEvents();
+    useNFTIndexStore.getState().reset();
+  };
+  window.addEventListener("network-changed", handleNetworkChanged);
+
+  return () => {
+    removeListener();
+    stopIndexing();
+    window.removeEventListener("network-changed", handleNetworkChanged);
+  };
+}
+
+// レジストリ内のすべてのウォレットとウォッチリストのアカウントのトランザクションを購読する関数
+// 他のウォレットや外部のアカウントでの発行・出品・購入・焼却も各リストに反映される
+export async function subscribeWalletAccounts(
+  wallets: WalletRegistry | null,
+  watchlist: WatchedAccount[] = []
+): Promise<void> {
+  const walletAccounts = wallets ? Object.values(wallets).map(wallet => wallet.classicAddress) : [];
+  const accounts = Array.from(new Set([...walletAccounts, ...watchlist.map(item => item.address)]));
+  try {
+    await setSubscribedAccounts(accounts);
+  } catch (error) {
+    console.error(`Failed to subscribe wallet accounts: ${error}`);
+    throw error;
+  }
+}
@@ -0,0 +1,163 @@
+import { AccountSet, AccountSetAsfFlags, Client, Payment, TrustSet, TrustSetFlags } from "xrpl";
+import { OfferCurrency } from "../types";
+import { WalletState, getXrplWallet } from "./wallet";
+import { encodeCurrencyCode, isSameCurrency, isXrpCurrency } from "./amount";
+
+// トラストラインを自動設定する際のデフォルトの上限額
+export const DEFAULT_TRUST_LIMIT = "1000000000";
+
+// トラストラインの情報
+export interface TrustLine {
+  currency: string;
+  issuer: string;
+  balance: string;
+  limit: string;
+  // 自分側でリップリングが無効になっているか
+  noRipple: boolean;
+}
+
+// アカウントのトラストライン一覧を取得する関数
+export async function getTrustLines(client: Client, address: string): Promise<TrustLine[]> {
+  try {
+    const response = await client.request({
+      command: "account_lines",
+      account: address,
+      ledger_index: "validated",
+    });
+
+    return response.result.lines.map(line => ({
+      currency: line.currency,
+      issuer: line.account,
+      balance: line.balance,
+      limit: line.limit,
+      noRipple: line.no_ripple ?? false,
+    }));
+  } catch (error: unknown) {
+    // 未アクティベートのアカウントはトラストラインなしとして扱う
+    if (String(error).includes("actNotFound")) {
+      return [];
+    }
+    console.error(`Failed to get trust lines: ${error}`);
+    throw error;
+  }
+}
+
+// 指定した通貨のトラストラインを設定する関数
+export async function setTrustLine(
+  client: Client,
+  walletState: WalletState,
+  currency: OfferCurrency,
+  limit: string = DEFAULT_TRUST_LIMIT
+): Promise<void> {
+  try {
+    if (isXrpCurrency(currency) || !currency.issuer) {
+      throw new Error("XRPにはトラストラインを設定できません");
+    }
+    const wallet = getXrplWallet(walletState);
+
+    const transactionBlob: TrustSet = {
+      TransactionType: "TrustSet",
+      Account: wallet.address,
+      LimitAmount: {
+        currency: encodeCurrencyCode(currency.currency),
+        issuer: currency.issuer,
+        value: limit,
+      },
+    };
+
+    const tx = await client.submitAndWait(transactionBlob, { autofill: true, wallet });
+    assertTransactionSucceeded(tx.result.meta, "トラストラインの設定に失敗しました");
+  } catch (error) {
+    console.error(`Failed to set trust line: ${error}`);
+    throw error;
+  }
+}
+
+// 送信したトランザクションの結果コードを確認する関数
+// tecPATH_DRYやtecNO_LINEなどはsubmitAndWaitでは例外にならないため、結果コードを含めてエラーにする
+function assertTransactionSucceeded(meta: unknown, message: string): void {
+  const result = (meta as { TransactionResult?: string } | undefined)?.TransactionResult;
+  if (result !== "tesSUCCESS") {
+    throw new Error(`${message}: ${result ?? "unknown"}`);
+  }
+}
+
+// IOUを受け取れるようにトラストラインを確認し、なければ設定する関数
+// 戻り値はトラストラインを新たに設定したかどうか
+export async function ensureTrustLine(
+  client: Client,
+  walletState: WalletState,
+  currency: OfferCurrency
+): Promise<boolean> {
+  // XRPと自分が発行者の通貨はトラストライン不要
+  if (isXrpCurrency(currency) || currency.issuer === walletState.classicAddress) {
+    return false;
+  }
+
+  const lines = await getTrustLines(client, walletState.classicAddress);
+  if (lines.some(line => isSameCurrency(line, currency))) {
+    return false;
+  }
+
+  await setTrustLine(client, walletState, currency);
+  return true;
+}
+
+// 発行者としてトークンを送金（発行）する関数
+// 保有者間でトークンを送金できるように、発行者のDefaultRippleを有効にしてから送金する
+export async function issueToken(
+  client: Client,
+  issuerState: WalletState,
+  destination: string,
+  currencyCode: string,
+  value: string
+): Promise<void> {
+  try {
+    const wallet = getXrplWallet(issuerState);
+
+    const accountInfo = await client.request({
+      command: "account_info",
+      account: wallet.address,
+      ledger_index: "validated",
+    });
+    if (!accountInfo.result.account_flags?.defaultRipple) {
+      const accountSet: AccountSet = {
+        TransactionType: "AccountSet",
+        Account: wallet.address,
+        SetFlag: AccountSetAsfFlags.asfDefaultRipple,
+      };
+      const accountSetTx = await client.submitAndWait(accountSet, { autofill: true, wallet });
+      assertTransactionSucceeded(accountSetTx.result.meta, "DefaultRippleの有効化に失敗しました");
+
+      // DefaultRipple有効化前に作成されたトラストラインはリップリングが無効のままなので解除
+      const lines = await getTrustLines(client, wallet.address);
+      for (const line of lines.filter(line => line.noRipple)) {
+        const clearNoRipple: TrustSet = {
+          TransactionType: "TrustSet",
+          Account: wallet.address,
+          LimitAmount: { currency: line.currency, issuer: line.issuer, value: line.limit },
+          Flags: TrustSetFlags.tfClearNoRipple,
+        };
+        const clearNoRippleTx = await client.submitAndWait(clearNoRipple, { autofill: true, wallet });
+        assertTransactionSucceeded(clearNoRippleTx.result.meta, "トラストラインのリップリングの有効化に失敗しました");
+      }
+    }
+
+    const payment: Payment = {
+      TransactionType: "Payment",
+      Account: wallet.address,
+      Destination: destination,
+      Amount: {
+        currency: encodeCurrencyCode(currencyCode),
+        issuer: wallet.address,
+        value,
+      },
+    };
+
+    const paymentTx = await client.submitAndWait(payment, { autofill: true, wallet });
+    assertTransactionSucceeded(paymentTx.result.meta, "トークンの送金に失敗しました");
+  } catch (error) {
+    console.error(`Failed to issue token: ${error}`);
+    throw error;
+  }
+}
@@ -1,26 +1,64 @@
-import { Client, Wallet, convertStringToHex, dropsToXrp } from "xrpl";
+import { Client, ECDSA, Payment, Wallet, convertStringToHex, dropsToXrp, isValidClassicAddress, xrpToDrops } from "xrpl";
+import { ed25519 } from "@noble/curves/ed25519";
+import { secp256k1 } from "@noble/curves/secp256k1";
+import { bytesToHex, hexToBytes } from "@noble/curves/abstract/utils";
 import { z } from "zod";
+import { useAppStore } from "../store";
+import { NetworkConfig, STANDALONE_GENESIS_SEED } from "./networks";
 
-// ウォレットの種類
-export enum WalletType {
-  ALICE = "Alice",
-  BOB = "Bob",
-  CHARLIE = "Charlie"
+// ウォレットの識別子（レジストリのキー）
+export type WalletId = string;
+
+// ウォレットに割り当て可能な表示色（Tailwindの背景色クラス）
+export const WALLET_COLORS = [
+  "bg-pink-500",
+  "bg-green-500",
+  "bg-blue-500",
+  "bg-amber-500",
+  "bg-purple-500",
+  "bg-teal-500",
+  "bg-red-500",
+  "bg-indigo-500",
+  "bg-orange-500",
+  "bg-gray-500",
+] as const;
+
+// 色が指定されていない場合の表示色
+export const DEFAULT_WALLET_COLOR = "bg-gray-500";
+
+// ウォレットの名前と表示色
+export interface WalletProfile {
+  name: string;
+  color: string;
 }
 
+// 初回作成時に用意するウォレット
+export const DEFAULT_WALLET_PROFILES: WalletProfile[] = [
+  { name: "Alice", color: "bg-pink-500" },
+  { name: "Bob", color: "bg-green-500" },
+  { name: "Charlie", color: "bg-blue-500" },
+];
+
 // ウォレットの状態を表すスキーマ
 export const WalletSchema = z.object({
-  type: z.nativeEnum(WalletType),
+  id: z.string(),
+  name: z.string().min(1),
+  color: z.string().default(DEFAULT_WALLET_COLOR),
   seed: z.string(),
   publicKey: z.string(),
   privateKey: z.string(),
-  classicAddress: z.string(),
+  classicAddress: z.string().refine(isValidClassicAddress, { message: "無効なアドレスです" }),
+  // ニーモニックからインポートした場合のみ保持（シードは復元できないため）
+  mnemonic: z.string().optional(),
   balance: z.number().default(0),
   lastUpdated: z.number().default(0), // 前回更新タイムスタンプ
 });
 
 export type WalletState = z.infer<typeof WalletSchema>;
 
+// ウォレットのレジストリ（IDをキーとし、挿入順がそのまま表示順になる）
+export type WalletRegistry = Record<WalletId, WalletState>;
+
 // ウォレットの残高を取得する関数
 export async function getAccountBalance(client: Client, address: string): Promise<number> {
   try {
@@ -79,17 +117,59 @@ export async function updateWalletBalance(client: Client, walletState: WalletSta
   }
 }
 
+// レジストリ内で一意なウォレットIDを生成する関数
+export function generateWalletId(): WalletId {
+  return `wallet-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+// スタンドアロンモードで新しいアカウントに送金するXRPの額
+const STANDALONE_FUNDING_AMOUNT = "1000";
+
+// ジェネシスアカウントから送金して新しいウォレットを作成する関数（スタンドアロンモード用）
+async function fundFromGenesis(client: Client): Promise<Wallet> {
+  const genesis = Wallet.fromSeed(STANDALONE_GENESIS_SEED);
+  const wallet = Wallet.generate();
+
+  const payment: Payment = {
+    TransactionType: "Payment",
+    Account: genesis.address,
+    Destination: wallet.address,
+    Amount: xrpToDrops(STANDALONE_FUNDING_AMOUNT),
+  };
+  await client.submitAndWait(payment, { autofill: true, wallet: genesis });
+
+  return wallet;
+}
+
+// ネットワークに応じた方法で資金提供済みのウォレットを作成する関数
+async function fundNewWallet(client: Client, network: NetworkConfig): Promise<Wallet> {
+  if (network.isStandalone) {
+    return fundFromGenesis(client);
+  }
+  if (!network.faucetHost) {
+    throw new Error(`${network.name}にはフォーセットが設定されていません`);
+  }
+  const { wallet } = await client.fundWallet(null, { faucetHost: network.faucetHost });
+  return wallet;
+}
+
 // ウォレットを生成する関数
-export async function createWallet(client: Client, type: WalletType): Promise<WalletState> {
+export async function createWallet(
+  client: Client,
+  network: NetworkConfig,
+  profile: WalletProfile
+): Promise<WalletState> {
   try {
     // 新しいウォレットを作成
-    const { wallet } = await client.fundWallet();
+    const wallet = await fundNewWallet(client, network);
     
     // 残高を取得
     const balance = await getAccountBalance(client, wallet.address);
     
     return {
-      type,
+      id: generateWalletId(),
+      name: profile.name,
+      color: profile.color,
       seed: wallet.seed || "",
       publicKey: wallet.publicKey,
       privateKey: wallet.privateKey,
@@ -103,20 +183,200 @@ export async function createWallet(client: Client, type: WalletType): Promise<Wa
   }
 }
 
-// 複数のウォレットを作成する関数
-export async function createAllWallets(client: Client): Promise<Record<WalletType, WalletState>> {
-  const alice = await createWallet(client, WalletType.ALICE);
-  const bob = await createWallet(client, WalletType.BOB);
-  const charlie = await createWallet(client, WalletType.CHARLIE);
+// 複数のウォレットを作成する関数（フォーセットへの負荷を避けるため順番に作成）
+export async function createAllWallets(
+  client: Client,
+  network: NetworkConfig,
+  profiles: WalletProfile[] = DEFAULT_WALLET_PROFILES
+): Promise<WalletRegistry> {
+  let registry: WalletRegistry = {};
+  
+  for (const profile of profiles) {
+    const wallet = await createWallet(client, network, profile);
+    registry = addWalletToRegistry(registry, wallet);
+  }
   
+  return registry;
+}
+
+// レジストリにウォレットを追加する関数
+export function addWalletToRegistry(registry: WalletRegistry, wallet: WalletState): WalletRegistry {
   return {
-    [WalletType.ALICE]: alice,
-    [WalletType.BOB]: bob,
-    [WalletType.CHARLIE]: charlie,
+    ...registry,
+    [wallet.id]: wallet,
   };
 }
 
-// ウォレットからウォレットオブジェクトを生成する関数
+// レジストリ内のウォレット名を変更する関数
+export function renameWallet(registry: WalletRegistry, id: WalletId, name: string): WalletRegistry {
+  const wallet = registry[id];
+  const trimmed = name.trim();
+  if (!wallet || trimmed === "") return registry;
+  
+  return {
+    ...registry,
+    [id]: { ...wallet, name: trimmed },
+  };
+}
+
+// レジストリ内のウォレットの表示色を変更する関数
+export function setWalletColor(registry: WalletRegistry, id: WalletId, color: string): WalletRegistry {
+  const wallet = registry[id];
+  if (!wallet) return registry;
+  
+  return {
+    ...registry,
+    [id]: { ...wallet, color },
+  };
+}
+
+// レジストリからウォレットを削除する関数
+export function removeWalletFromRegistry(registry: WalletRegistry, id: WalletId): WalletRegistry {
+  const { [id]: _removed, ...rest } = registry;
+  return rest;
+}
+
+// アドレスからレジストリ内のウォレットを検索する関数
+export function findWalletByAddress(
+  registry: WalletRegistry | null,
+  address: string | undefined
+): WalletState | undefined {
+  if (!registry || !address) return undefined;
+  return Object.values(registry).find(wallet => wallet.classicAddress === address);
+}
+
+// アバター表示用の略称を生成する関数
+export function getWalletAbbreviation(name: string): string {
+  const abbr = name.trim().substring(0, 2).toUpperCase();
+  return abbr || "??";
+}
+
+// まだ使われていない表示色を選ぶ関数（すべて使用済みなら順番に再利用）
+export function pickWalletColor(registry: WalletRegistry | null): string {
+  const used = new Set(Object.values(registry || {}).map(wallet => wallet.color));
+  const unused = WALLET_COLORS.find(color => !used.has(color));
+  return unused || WALLET_COLORS[Object.keys(registry || {}).length % WALLET_COLORS.length];
+}
+
+// インポート時に受け付ける秘密情報の種類
+export type WalletSecretKind = "seed" | "mnemonic" | "privateKey";
+
+// 鍵のアルゴリズム
+export type KeyAlgorithm = "ed25519" | "secp256k1";
+
+// 入力された秘密情報の種類を推定する関数
+export function detectSecretKind(secret: string): WalletSecretKind | null {
+  const trimmed = secret.trim();
+  
+  // ファミリーシード（s...）
+  if (/^s[1-9A-HJ-NP-Za-km-z]{24,34}$/.test(trimmed)) {
+    return "seed";
+  }
+  
+  // 秘密鍵（ED/00プレフィックス付きの66桁、またはプレフィックスなしの64桁の16進数）
+  if (/^(ED|00)?[0-9A-Fa-f]{64}$/i.test(trimmed)) {
+    return "privateKey";
+  }
+  
+  // BIP39ニーモニック（12〜24単語）
+  const words = trimmed.split(/\s+/);
+  if (words.length >= 12 && words.length <= 24 && words.every(word => /^[a-z]+$/.test(word))) {
+    return "mnemonic";
+  }
+  
+  return null;
+}
+
+// 秘密鍵から公開鍵を導出してウォレットを生成する関数
+function walletFromPrivateKey(privateKey: string, algorithm: KeyAlgorithm): Wallet {
+  const normalized = privateKey.trim().toUpperCase();
+  
+  // プレフィックスがあればアルゴリズムはプレフィックスから判定する
+  if (normalized.length === 66 && normalized.startsWith("ED")) {
+    const publicKey = bytesToHex(ed25519.getPublicKey(hexToBytes(normalized.slice(2))));
+    return new Wallet(`ED${publicKey.toUpperCase()}`, normalized);
+  }
+  
+  const rawKey = normalized.length === 66 ? normalized.slice(2) : normalized;
+  
+  if (normalized.length === 66 || algorithm === "secp256k1") {
+    const publicKey = bytesToHex(secp256k1.getPublicKey(hexToBytes(rawKey), true));
+    return new Wallet(publicKey.toUpperCase(), `00${rawKey}`);
+  }
+  
+  const publicKey = bytesToHex(ed25519.getPublicKey(hexToBytes(rawKey)));
+  return new Wallet(`ED${publicKey.toUpperCase()}`, `ED${rawKey}`);
+}
+
+// 秘密情報からxrpl.jsのウォレットを導出する関数
+export function deriveXrplWallet(
+  secret: string,
+  kind: WalletSecretKind,
+  algorithm: KeyAlgorithm = "secp256k1"
+): Wallet {
+  const trimmed = secret.trim();
+  const ecdsa = algorithm === "ed25519" ? ECDSA.ed25519 : ECDSA.secp256k1;
+  
+  switch (kind) {
+    case "seed":
+      // シードはsEd...であればed25519として自動判定される
+      return Wallet.fromSeed(trimmed, trimmed.startsWith("sEd") ? undefined : { algorithm: ecdsa });
+    case "mnemonic":
+      return Wallet.fromMnemonic(trimmed.toLowerCase().split(/\s+/).join(" "), {
+        mnemonicEncoding: "bip39",
+        algorithm: ecdsa,
+      });
+    case "privateKey":
+      return walletFromPrivateKey(trimmed, algorithm);
+  }
+}
+
+// 既存のウォレットをシード・ニーモニック・秘密鍵からインポートする関数
+export async function importWallet(
+  client: Client,
+  secret: string,
+  kind: WalletSecretKind,
+  profile: WalletProfile,
+  algorithm: KeyAlgorithm = "secp256k1"
+): Promise<WalletState> {
+  try {
+    const wallet = deriveXrplWallet(secret, kind, algorithm);
+    
+    // スキーマで検証してからレジストリ用の状態を作成
+    const walletState = WalletSchema.parse({
+      id: generateWalletId(),
+      name: profile.name,
+      color: profile.color,
+      seed: kind === "seed" ? secret.trim() : "",
+      mnemonic: kind === "mnemonic" ? secret.trim() : undefined,
+      publicKey: wallet.publicKey,
+      privateKey: wallet.privateKey,
+      classicAddress: wallet.classicAddress,
+      lastUpdated: Date.now(),
+    });
+    
+    // 残高を取得（アカウントが未アクティベートの場合は0）
+    const balance = await getAccountBalance(client, walletState.classicAddress);
+    
+    return {
+      ...walletState,
+      balance,
+    };
+  } catch (error) {
+    console.error(`Failed to import wallet: ${error}`);
+    throw error;
+  }
+}
+
+// ウォレットからウォレットオブジェクトを生成する関数（署名に使用する唯一の経路）
+// シードを持たないインポートウォレットにも対応するため鍵ペアから生成する
 export function getXrplWallet(walletState: WalletState): Wallet {
+  // ボールトのロック中はすべての署名を拒否する
+  if (useAppStore.getState().isVaultLocked) {
+    throw new Error("ウォレットがロックされています。パスフレーズでロックを解除してください");
+  }
+  if (walletState.publicKey && walletState.privateKey) {
+    return new Wallet(walletState.publicKey, walletState.privateKey);
+  }
   return Wallet.fromSeed(walletState.seed);
 } 
\ No newline at end of file